@@ -14,7 +14,10 @@ export enum SimulationPhase {
   MAIN_SEQUENCE = 'MAIN_SEQUENCE',
   RED_GIANT = 'RED_GIANT',
   SUPERNOVA = 'SUPERNOVA',
-  BLACK_HOLE = 'BLACK_HOLE'
+  BLACK_HOLE = 'BLACK_HOLE',
+  WHITE_DWARF = 'WHITE_DWARF',
+  NEUTRON_STAR = 'NEUTRON_STAR',
+  TYPE_IA_SUPERNOVA = 'TYPE_IA_SUPERNOVA'
 }
 
 interface AudioConfig {
@@ -147,6 +150,28 @@ export class AudioManager {
       loop: true,
       volume: 0.5
     })
+
+    // Drifting gas shell around a fading core - reuses the airy nebula soundscape, quieter
+    this.phaseAudioConfig.set(SimulationPhase.WHITE_DWARF, {
+      url: '/audio/nebula-collapse.mp3',
+      loop: true,
+      volume: 0.45
+    })
+
+    // Compact remnant without an accretion roar - the black hole drone, softer
+    // (the pulsar's rhythm comes from spatial pulse ticks on top)
+    this.phaseAudioConfig.set(SimulationPhase.NEUTRON_STAR, {
+      url: '/audio/black-hole.mp3',
+      loop: true,
+      volume: 0.35
+    })
+
+    // Nothing left at the centre, just debris spreading out - the airy nebula bed after the blast
+    this.phaseAudioConfig.set(SimulationPhase.TYPE_IA_SUPERNOVA, {
+      url: '/audio/nebula-collapse.mp3',
+      loop: true,
+      volume: 0.3
+    })
   }
 
   /**
@@ -254,7 +279,10 @@ export class AudioManager {
     const remainingPhases = [
       SimulationPhase.MAIN_SEQUENCE,
       SimulationPhase.RED_GIANT,
-      SimulationPhase.BLACK_HOLE
+      SimulationPhase.BLACK_HOLE,
+      SimulationPhase.WHITE_DWARF,
+      SimulationPhase.NEUTRON_STAR,
+      SimulationPhase.TYPE_IA_SUPERNOVA
     ]
 
     for (const phase of remainingPhases) {
@@ -5,6 +5,18 @@ import { createAccretionDiskMaterial } from './shaders/AccretionDiskShader'
 import { createJetTrailMaterial } from './shaders/JetTrailShader'
 import { createPhotonCoronaMaterial } from './shaders/PhotonCoronaShader'
 import { createPhotonRingMaterial } from './shaders/PhotonRingShader'
+import {
+  BlackHolePhysics,
+  kerrHorizonFactor,
+  kerrIscoFactor,
+  kerrPhotonOrbitFactor,
+} from './physics/BlackHolePhysics'
+
+/** Size tunables (see SimulationConfig); anything omitted keeps its default */
+export interface BlackHoleOptions {
+  baseRadius?: number // Initial Schwarzschild radius
+  jetLength?: number
+}
 
 export class BlackHole {
   private scene: THREE.Scene
@@ -20,37 +32,42 @@ export class BlackHole {
   public jetBottom!: THREE.Mesh // Public for debug toggles
   private jetMaterial!: THREE.ShaderMaterial
   private jetLength: number = 250.0 // Extend far into space for dramatic reach
+  private jetGlow: number = 1.2 // Set by mass; flares multiply it
+  private flareLevel: number = 0
 
   // Gravitational lensing ring (photon sphere)
   public lensingRing!: THREE.Mesh // Public for debug toggles
   private lensingRingMaterial!: THREE.ShaderMaterial
 
   private time: number = 0
-  private blackHoleRadius: number = 12.0 // Schwarzschild radius (scaled up for dramatic visibility)
+  private blackHoleRadius: number // Event horizon radius (scaled up for dramatic visibility, 12 by default)
 
   // Mass growth tracking
-  private currentMass: number = 1.0 // Initial mass in solar masses
-  private baseRadius: number = 12.0 // Initial Schwarzschild radius
-  private lastLoggedMass: number = 1.0 // For reducing console spam
+  private physics: BlackHolePhysics
+  private baseRadius: number // Initial Schwarzschild radius
 
   private formationProgress: number = 0
   private formationDuration: number = 4.0
   private isForming: boolean = true
 
-  constructor(scene: THREE.Scene) {
+  constructor(scene: THREE.Scene, eventHorizonSegments: number = 128, options: BlackHoleOptions = {}) {
     this.scene = scene
+    this.baseRadius = options.baseRadius ?? 12.0
+    this.blackHoleRadius = this.baseRadius
+    this.jetLength = options.jetLength ?? this.jetLength
+    this.physics = new BlackHolePhysics(this.baseRadius)
 
-    this.createEventHorizon()
+    this.createEventHorizon(eventHorizonSegments)
     this.createPhotonCorona()
     this.createAccretionDisk()
     this.createJets()
     this.createLensingRing()
   }
 
-  private createEventHorizon(): void {
+  private createEventHorizon(segments: number): void {
     // Event horizon with shader-based spacetime distortion
     // Using high-resolution sphere for smooth curvature
-    const geometry = new THREE.SphereGeometry(this.blackHoleRadius, 128, 128)
+    const geometry = new THREE.SphereGeometry(this.blackHoleRadius, segments, segments)
 
     // Create shader material with Schwarzschild radius
     this.eventHorizonMaterial = createEventHorizonMaterial(this.blackHoleRadius)
@@ -114,8 +131,9 @@ export class BlackHole {
 
   private createAccretionDisk(): void {
     // Shader-based accretion disk - sized to be visible from default camera
-    // ISCO at 3× Schwarzschild radius, but scaled up for visibility
-    const innerRadius = this.blackHoleRadius * 2.0  // 6.0 units
+    // The mesh reaches in far enough for a maximally spinning hole; the shader's
+    // innerRadius uniform trims it to the current inner edge
+    const innerRadius = this.blackHoleRadius * 0.5
     const outerRadius = this.blackHoleRadius * 12.0  // 36.0 units
 
 
@@ -227,23 +245,12 @@ export class BlackHole {
   }
 
   public addMass(deltaMass: number): void {
-    this.currentMass += deltaMass
-
-    // Schwarzschild radius: Rs = 2GM/c² (simplified: Rs ∝ M)
-    const newRadius = this.baseRadius * this.currentMass
-
-    // Clamp maximum growth to prevent excessive scaling (max 3x initial size)
-    const clampedRadius = Math.min(newRadius, this.baseRadius * 3.0)
-
-    // Scale event horizon sphere
-    this.eventHorizon.scale.setScalar(clampedRadius / this.baseRadius)
-
-    // Update shader uniform for Schwarzschild radius
-    this.eventHorizonMaterial.uniforms.schwarzschildRadius.value = clampedRadius
-    this.blackHoleRadius = clampedRadius
+    // Schwarzschild radius grows with mass (clamped to 3x initial size)
+    this.physics.addMass(deltaMass)
+    this.updateHorizon()
 
-    // Scale jets proportionally to event horizon radius (maintains consistent ratio)
-    const radiusRatio = clampedRadius / this.baseRadius
+    // Scale jets proportionally to the Schwarzschild radius (maintains consistent ratio)
+    const radiusRatio = this.physics.getSchwarzschildRadius() / this.baseRadius
 
     // Scale jet width/depth to match event horizon growth
     this.jetTop.scale.x = radiusRatio
@@ -256,28 +263,79 @@ export class BlackHole {
 
     // Increase jet brightness with mass (more energetic accretion = brighter jets)
     // Scale from 1.2 to 2.5 intensity as mass goes from 1.0 to 3.0 (more subtle plasma beams)
-    const massScale = Math.min(this.currentMass, 3.0)
-    const glowScale = 1.2 + (massScale - 1.0) * 0.65
+    const massScale = Math.min(this.physics.getMass(), 3.0)
+    this.jetGlow = 1.2 + (massScale - 1.0) * 0.65
+    this.applyJetGlow()
+  }
+
+  /**
+   * Accretion flare (0-1), e.g. tidal-disruption debris falling back:
+   * brightens the disk and launches a brighter jet
+   */
+  public setFlare(level: number): void {
+    this.flareLevel = level
+    this.accretionDiskMaterial.uniforms.flare.value = level
+    this.applyJetGlow()
+  }
+
+  private applyJetGlow(): void {
+    const glowScale = this.jetGlow * (1 + this.flareLevel * 2.5)
     this.jetMaterial.uniforms.glowIntensity.value = glowScale
     ;(this.jetBottom.material as THREE.ShaderMaterial).uniforms.glowIntensity.value = glowScale
+  }
 
-    // Only log every 0.1 mass increase to reduce console spam
-    if (this.currentMass - this.lastLoggedMass >= 0.1) {
-      this.lastLoggedMass = this.currentMass
-    }
+  /**
+   * Spin the hole up (a = 0 is Schwarzschild, MAX_SPIN near-extremal Kerr):
+   * the horizon and disk inner edge shrink and the photon ring turns lopsided
+   */
+  public setSpin(spin: number): void {
+    this.physics.setSpin(spin)
+    const a = this.physics.getSpin()
+    this.updateHorizon()
+
+    // Drawn halfway between the horizon and the ISCO: the original 2 Rs edge when not spinning
+    const horizonFactor = kerrHorizonFactor(a)
+    const diskEdgeFactor = (horizonFactor + kerrIscoFactor(a)) / 2
+    this.accretionDiskMaterial.uniforms.innerRadius.value = this.baseRadius * diskEdgeFactor
+
+    // Compressed so the shifted ring stays on its mesh
+    const ringUniforms = this.lensingRingMaterial.uniforms
+    ringUniforms.spin.value = a
+    ringUniforms.progradeScale.value = Math.pow(kerrPhotonOrbitFactor(a, true) / 1.5, 0.25)
+    ringUniforms.retrogradeScale.value = Math.pow(kerrPhotonOrbitFactor(a, false) / 1.5, 0.25)
+  }
+
+  private updateHorizon(): void {
+    const horizonRadius = this.physics.getEventHorizonRadius()
+
+    // Scale event horizon sphere
+    this.eventHorizon.scale.setScalar(horizonRadius / this.baseRadius)
+
+    // Update shader uniform for the horizon radius
+    this.eventHorizonMaterial.uniforms.schwarzschildRadius.value = horizonRadius
+    this.blackHoleRadius = horizonRadius
+  }
+
+  public getSpin(): number {
+    return this.physics.getSpin()
   }
 
   public getEventHorizonRadius(): number {
     return this.blackHoleRadius
   }
 
+  /** Mass-only radius, for effects like lensing that don't depend on spin */
+  public getSchwarzschildRadius(): number {
+    return this.physics.getSchwarzschildRadius()
+  }
+
   public getCurrentMass(): number {
-    return this.currentMass
+    return this.physics.getMass()
   }
 
   public setScale(scale: number): void {
     // Uniformly scale all black hole elements (for emergence from singularity)
-    this.eventHorizon.scale.setScalar(scale)
+    this.eventHorizon.scale.setScalar(scale * this.blackHoleRadius / this.baseRadius)
     this.photonCorona.scale.setScalar(scale)
     this.accretionDisk.scale.setScalar(scale)
     this.lensingRing.scale.setScalar(scale)
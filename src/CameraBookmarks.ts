@@ -0,0 +1,111 @@
+import { Vec3Tuple } from './PhaseTimeline'
+import { isVec3 } from './CameraDirector'
+import { PLANET_CONFIGS } from './PlanetSystem'
+
+/**
+ * CameraBookmarks - Saved viewpoints on number keys
+ *
+ * Slots 1-9 hold a camera position, orbit target and FOV. They persist in
+ * localStorage and can be exported as JSON. The built-in presets frame the
+ * black hole and planets from angles that are hard to find by orbiting.
+ */
+
+export interface CameraBookmark {
+  name: string
+  position: Vec3Tuple
+  target: Vec3Tuple
+  fov: number
+}
+
+export const BOOKMARK_SLOTS = 9
+
+const STORAGE_KEY = 'sun-simulator:camera-bookmarks'
+
+const EARTH_ORBIT = PLANET_CONFIGS.find((planet) => planet.name === 'Earth')?.orbitRadius ?? 16
+
+export const CAMERA_PRESETS: CameraBookmark[] = [
+  // Just above the disk plane, so it reads as a thin line through the lensed horizon
+  { name: 'Disk edge-on', position: [0, 1.5, 110], target: [0, 0, 0], fov: 50 },
+  // Straight down the top jet (a hair off the pole, where the orbit has no defined up)
+  { name: 'Pole-on down the jet', position: [0, 120, 0.5], target: [0, 0, 0], fov: 60 },
+  // From Earth's orbit, just above the ecliptic, looking at the star
+  { name: "Planet's-eye view from Earth's orbit", position: [EARTH_ORBIT, 0.6, 0], target: [0, 0, 0], fov: 75 },
+  { name: 'Overview', position: [0, 60, 140], target: [0, 0, 0], fov: 75 },
+]
+
+export class CameraBookmarks {
+  private storage: Storage | null
+  private slots: (CameraBookmark | null)[] = new Array(BOOKMARK_SLOTS).fill(null)
+
+  constructor(storage: Storage | null = getLocalStorage()) {
+    this.storage = storage
+    this.load()
+  }
+
+  /** Bookmark in a slot (1-9), or null if it is empty */
+  get(slot: number): CameraBookmark | null {
+    return this.slots[slot - 1] ?? null
+  }
+
+  save(slot: number, bookmark: CameraBookmark): void {
+    if (!Number.isInteger(slot) || slot < 1 || slot > BOOKMARK_SLOTS) {
+      throw new Error(`Bookmark slot must be 1-${BOOKMARK_SLOTS}: ${slot}`)
+    }
+    this.slots[slot - 1] = bookmark
+    this.persist()
+  }
+
+  /** Filled slots with their numbers */
+  getSaved(): { slot: number; bookmark: CameraBookmark }[] {
+    return this.slots.flatMap((bookmark, index) => (bookmark ? [{ slot: index + 1, bookmark }] : []))
+  }
+
+  /** Slot number → bookmark, as stored and exported */
+  toJson(): string {
+    return JSON.stringify(Object.fromEntries(this.getSaved().map(({ slot, bookmark }) => [slot, bookmark])), null, 2)
+  }
+
+  private load(): void {
+    let stored: unknown
+    try {
+      stored = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? '{}')
+    } catch {
+      console.warn('[CAMERA] Ignoring unreadable saved bookmarks')
+      return
+    }
+    if (typeof stored !== 'object' || stored === null) return
+
+    for (const [key, bookmark] of Object.entries(stored)) {
+      const slot = Number(key)
+      if (Number.isInteger(slot) && slot >= 1 && slot <= BOOKMARK_SLOTS && isBookmark(bookmark)) {
+        this.slots[slot - 1] = bookmark
+      } else {
+        console.warn(`[CAMERA] Ignoring saved bookmark ${key}`)
+      }
+    }
+  }
+
+  private persist(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, this.toJson())
+    } catch {
+      // Storage full or blocked: bookmarks still work for this session
+      console.warn('[CAMERA] Could not save bookmarks')
+    }
+  }
+}
+
+function isBookmark(value: unknown): value is CameraBookmark {
+  if (typeof value !== 'object' || value === null) return false
+  const { name, position, target, fov } = value as Record<string, unknown>
+  return typeof name === 'string' && isVec3(position) && isVec3(target) && typeof fov === 'number' && fov > 0 && fov < 180
+}
+
+// Reading localStorage itself throws where storage is disabled
+function getLocalStorage(): Storage | null {
+  try {
+    return window.localStorage
+  } catch {
+    return null
+  }
+}
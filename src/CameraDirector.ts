@@ -0,0 +1,281 @@
+import * as THREE from 'three'
+import { SimulationPhase } from './AudioManager'
+import { Vec3Tuple } from './PhaseTimeline'
+import { Easing } from './TweenScheduler'
+
+/**
+ * CameraDirector - Keyframed camera shots for each phase
+ *
+ * Each phase has a shot: spline paths for the camera position and look-at
+ * target, with FOV and easing per keyframe. Keyframes are placed by phase
+ * progress (0-1), so shots follow retimed and condition-driven phases and
+ * land in the right place after a seek. Shots are authored in
+ * cameraShots.json.
+ *
+ * The director drives the camera until the user grabs it (OrbitControls
+ * 'start'), then stays hands-off until handBack() or the next phase, and
+ * eases back onto the path from wherever the user left the camera. flyTo()
+ * moves the camera to a fixed pose (bookmarks) and leaves it with the user.
+ */
+
+export type EasingName = keyof typeof Easing
+
+export interface CameraKeyframe {
+  at: number // Progress through the phase (0-1)
+  position: Vec3Tuple
+  target: Vec3Tuple
+  fov?: number // Degrees (defaults to the previous keyframe's, then the camera's)
+  // Extra distance from the target in subject radii (e.g. pull back as the red giant swells)
+  radii?: number
+  easing?: EasingName // Into the next keyframe (default easeInOutQuad)
+}
+
+export interface CameraShot {
+  keyframes: CameraKeyframe[]
+  blend?: number // Seconds to ease in from the previous pose (0 or omitted = cut)
+}
+
+export type CameraShots = Partial<Record<SimulationPhase, CameraShot>>
+
+export interface CameraPose {
+  position: THREE.Vector3
+  target: THREE.Vector3
+  fov: number
+}
+
+// Seconds to ease back onto the path when the user hands control back
+const HANDBACK_BLEND = 1.5
+// Seconds to fly to a bookmark
+const FLY_TO_DURATION = 1.0
+
+/**
+ * Check authored shots (e.g. parsed JSON) and return them typed; throws on
+ * the first problem, naming the phase and keyframe
+ */
+export function parseCameraShots(data: unknown): CameraShots {
+  if (!isRecord(data)) throw new Error('Camera shots must be an object keyed by phase')
+
+  const phases = Object.values(SimulationPhase) as string[]
+  const easings = Object.keys(Easing)
+  const shots: CameraShots = {}
+
+  for (const [phase, shot] of Object.entries(data)) {
+    if (!phases.includes(phase)) throw new Error(`Unknown phase: ${phase}`)
+    if (!isRecord(shot) || !Array.isArray(shot.keyframes) || shot.keyframes.length === 0) {
+      throw new Error(`${phase}: a shot needs at least one keyframe`)
+    }
+    if (shot.blend !== undefined && !(typeof shot.blend === 'number' && shot.blend >= 0)) {
+      throw new Error(`${phase}: blend must be a number of seconds`)
+    }
+
+    let previousAt = -Infinity
+    shot.keyframes.forEach((keyframe: unknown, index: number) => {
+      const where = `${phase} keyframe ${index}`
+      if (!isRecord(keyframe)) throw new Error(`${where}: not an object`)
+      const { at, position, target, fov, radii, easing } = keyframe
+      if (typeof at !== 'number' || at < 0 || at > 1 || at <= previousAt) {
+        throw new Error(`${where}: 'at' must be progress 0-1, increasing`)
+      }
+      if (!isVec3(position)) throw new Error(`${where}: position must be [x, y, z]`)
+      if (!isVec3(target)) throw new Error(`${where}: target must be [x, y, z]`)
+      if (fov !== undefined && !(typeof fov === 'number' && fov > 0 && fov < 180)) {
+        throw new Error(`${where}: fov must be 0-180 degrees`)
+      }
+      if (radii !== undefined && typeof radii !== 'number') throw new Error(`${where}: radii must be a number`)
+      if (easing !== undefined && !easings.includes(easing as string)) {
+        throw new Error(`${where}: unknown easing '${easing}'`)
+      }
+      previousAt = at
+    })
+
+    shots[phase as SimulationPhase] = shot as unknown as CameraShot
+  }
+  return shots
+}
+
+/**
+ * Pose of a shot at a point in its phase. Position and target follow
+ * Catmull-Rom splines through the keyframes; `radii` dollies along the view
+ * direction by that many subject radii
+ */
+export function sampleShot(shot: CameraShot, progress: number, subjectRadius: number, fallbackFov: number, out: CameraPose): CameraPose {
+  const { keyframes } = shot
+  const last = keyframes.length - 1
+
+  // Segment containing progress, and eased progress within it
+  let segment = 0
+  while (segment < last - 1 && progress >= keyframes[segment + 1].at) segment++
+  let local = 0
+  if (last > 0) {
+    const from = keyframes[segment]
+    const to = keyframes[segment + 1]
+    const linear = THREE.MathUtils.clamp((progress - from.at) / (to.at - from.at), 0, 1)
+    local = Easing[from.easing ?? 'easeInOutQuad'](linear)
+  }
+  const t = last > 0 ? (segment + local) / last : 0
+
+  const curves = getCurves(shot)
+  curves.position.getPoint(t, out.position)
+  curves.target.getPoint(t, out.target)
+
+  const fovAt = (index: number) => {
+    for (let i = index; i >= 0; i--) {
+      const fov = keyframes[i].fov
+      if (fov !== undefined) return fov
+    }
+    return fallbackFov
+  }
+  const radiiAt = (index: number) => keyframes[index].radii ?? 0
+  const next = Math.min(segment + 1, last)
+  out.fov = THREE.MathUtils.lerp(fovAt(segment), fovAt(next), local)
+
+  const radii = THREE.MathUtils.lerp(radiiAt(segment), radiiAt(next), local)
+  if (radii !== 0 && subjectRadius > 0) {
+    const direction = scratchDirection.subVectors(out.position, out.target).normalize()
+    out.position.addScaledVector(direction, radii * subjectRadius)
+  }
+  return out
+}
+
+const scratchDirection = new THREE.Vector3()
+
+// Splines are built once per shot
+const curveCache = new WeakMap<CameraShot, { position: THREE.Curve<THREE.Vector3>; target: THREE.Curve<THREE.Vector3> }>()
+
+function getCurves(shot: CameraShot) {
+  let curves = curveCache.get(shot)
+  if (!curves) {
+    const toCurve = (points: Vec3Tuple[]): THREE.Curve<THREE.Vector3> => {
+      const vectors = points.map((point) => new THREE.Vector3(...point))
+      // One or two keyframes make a line (CatmullRomCurve3 misplaces the ends of a two-point spline)
+      if (vectors.length <= 2) return new THREE.LineCurve3(vectors[0], vectors[vectors.length - 1])
+      return new THREE.CatmullRomCurve3(vectors, false, 'centripetal')
+    }
+    curves = {
+      position: toCurve(shot.keyframes.map((keyframe) => keyframe.position)),
+      target: toCurve(shot.keyframes.map((keyframe) => keyframe.target)),
+    }
+    curveCache.set(shot, curves)
+  }
+  return curves
+}
+
+export class CameraDirector {
+  private camera: THREE.PerspectiveCamera
+  private target: THREE.Vector3 // The orbit target, shared with OrbitControls
+  private shots: CameraShots
+  private shot: CameraShot | null = null
+  private subjectRadius: number = 0
+  private driving: boolean = true
+
+  // Pose the current blend starts from
+  private blendFrom: CameraPose = { position: new THREE.Vector3(), target: new THREE.Vector3(), fov: 75 }
+  private blendDuration: number = 0
+  private blendElapsed: number = 0
+  private pose: CameraPose = { position: new THREE.Vector3(), target: new THREE.Vector3(), fov: 75 }
+  private flight: CameraPose | null = null // flyTo() destination, while the user has the camera
+
+  constructor(camera: THREE.PerspectiveCamera, target: THREE.Vector3, shots: CameraShots) {
+    this.camera = camera
+    this.target = target
+    this.shots = shots
+  }
+
+  /**
+   * Start a phase's shot (a phase without one keeps the camera where it is).
+   * A new phase takes the camera back from the user
+   */
+  play(phase: SimulationPhase, subjectRadius: number = 0): void {
+    this.shot = this.shots[phase] ?? null
+    this.subjectRadius = subjectRadius
+    this.driving = true
+    this.flight = null
+    this.startBlend(this.shot?.blend ?? 0)
+  }
+
+  /**
+   * Move the camera along the shot
+   * @param progress - Progress through the current phase (0-1)
+   * @param frameDelta - Real seconds since the last frame (blends run while paused)
+   */
+  update(progress: number, frameDelta: number): void {
+    let pose: CameraPose
+    if (this.driving && this.shot) {
+      pose = sampleShot(this.shot, progress, this.subjectRadius, this.camera.fov, this.pose)
+    } else if (this.flight) {
+      pose = copyPose(this.flight, this.pose)
+    } else {
+      return
+    }
+
+    if (this.blendElapsed < this.blendDuration) {
+      this.blendElapsed = Math.min(this.blendElapsed + frameDelta, this.blendDuration)
+      const blend = Easing.easeInOutCubic(this.blendElapsed / this.blendDuration)
+      pose.position.lerpVectors(this.blendFrom.position, pose.position, blend)
+      pose.target.lerpVectors(this.blendFrom.target, pose.target, blend)
+      pose.fov = THREE.MathUtils.lerp(this.blendFrom.fov, pose.fov, blend)
+    }
+
+    this.camera.position.copy(pose.position)
+    this.target.copy(pose.target)
+    this.camera.lookAt(this.target) // OrbitControls aimed the camera before this moved it
+    if (this.camera.fov !== pose.fov) {
+      this.camera.fov = pose.fov
+      this.camera.updateProjectionMatrix()
+    }
+
+    if (this.flight && this.blendElapsed >= this.blendDuration) {
+      this.flight = null
+    }
+  }
+
+  /** The user has grabbed the camera: stop driving it */
+  takeOver(): void {
+    this.driving = false
+    this.flight = null
+  }
+
+  /**
+   * Ease the camera to a fixed pose (a bookmark) and leave it with the user
+   */
+  flyTo(pose: CameraPose, duration: number = FLY_TO_DURATION): void {
+    this.driving = false
+    this.flight = copyPose(pose, { position: new THREE.Vector3(), target: new THREE.Vector3(), fov: pose.fov })
+    this.startBlend(duration)
+  }
+
+  /** Ease back onto the shot from wherever the user left the camera */
+  handBack(blend: number = HANDBACK_BLEND): void {
+    if (this.driving) return
+    this.driving = true
+    this.flight = null
+    this.startBlend(blend)
+  }
+
+  isDriving(): boolean {
+    return this.driving
+  }
+
+  private startBlend(duration: number): void {
+    this.blendFrom.position.copy(this.camera.position)
+    this.blendFrom.target.copy(this.target)
+    this.blendFrom.fov = this.camera.fov
+    this.blendDuration = duration
+    this.blendElapsed = 0
+  }
+}
+
+function copyPose(from: CameraPose, to: CameraPose): CameraPose {
+  to.position.copy(from.position)
+  to.target.copy(from.target)
+  to.fov = from.fov
+  return to
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function isVec3(value: unknown): value is Vec3Tuple {
+  return Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number' && Number.isFinite(n))
+}
@@ -0,0 +1,112 @@
+import * as THREE from 'three'
+import { Noise3D } from './utils/Noise'
+
+/**
+ * CameraShake - Trauma-driven camera shake
+ *
+ * Events add trauma (0-1), which decays over real time. The shake is
+ * trauma squared, so small knocks barely register and big ones hit hard,
+ * and it moves and rolls the camera along smooth noise sampled by time, so
+ * it looks the same at any frame rate. apply() offsets the camera just for
+ * the render and restore() puts it back, so the shake adds to whatever
+ * moves the camera (director, follow, the user's orbit) without feeding
+ * into it.
+ */
+
+export interface CameraShakeOptions {
+  decay: number // Trauma lost per second
+  frequency: number // Noise samples per second (higher = faster shudder)
+  maxOffset: number // World units at full trauma
+  maxAngle: number // Radians of yaw and pitch at full trauma (roll gets the same)
+}
+
+export const DEFAULT_SHAKE_OPTIONS: CameraShakeOptions = {
+  decay: 0.8,
+  frequency: 14,
+  maxOffset: 0.5,
+  maxAngle: THREE.MathUtils.degToRad(1.5),
+}
+
+// Trauma from events the simulator reports
+export const IGNITION_TRAUMA = 0.6
+// Per unit of mass crossing the horizon: a typical chunk gives about 0.3, which
+// squares to a faint tremor, while big chunks and pile-ups visibly jolt
+export const ACCRETION_TRAUMA_PER_MASS = 40
+
+// Noise rows for the six channels, far enough apart to be uncorrelated
+const CHANNEL_SPACING = 37.1
+
+export class CameraShake {
+  private options: CameraShakeOptions
+  private trauma: number = 0
+  private time: number = 0
+
+  // Camera pose before apply(), put back by restore()
+  private savedPosition = new THREE.Vector3()
+  private savedQuaternion = new THREE.Quaternion()
+  private applied: boolean = false
+  private offset = new THREE.Vector3()
+
+  constructor(options: Partial<CameraShakeOptions> = {}) {
+    this.options = { ...DEFAULT_SHAKE_OPTIONS, ...options }
+  }
+
+  /** Add trauma from an event (clamped to 1) */
+  addTrauma(amount: number): void {
+    this.trauma = THREE.MathUtils.clamp(this.trauma + amount, 0, 1)
+  }
+
+  /** Hold trauma at least this high, for a continuing event (e.g. an explosion's flash) */
+  sustain(level: number): void {
+    this.trauma = Math.max(this.trauma, Math.min(level, 1))
+  }
+
+  getTrauma(): number {
+    return this.trauma
+  }
+
+  reset(): void {
+    this.trauma = 0
+  }
+
+  /** Decay trauma and advance the noise (real seconds) */
+  update(frameDelta: number): void {
+    this.time += frameDelta
+    this.trauma = Math.max(0, this.trauma - this.options.decay * frameDelta)
+  }
+
+  /** Offset the camera for this frame's render */
+  apply(camera: THREE.Camera): void {
+    const shake = this.trauma * this.trauma
+    if (shake <= 0) return
+
+    this.savedPosition.copy(camera.position)
+    this.savedQuaternion.copy(camera.quaternion)
+    this.applied = true
+
+    const offset = this.options.maxOffset * shake
+    const angle = this.options.maxAngle * shake
+    // Translate in the camera's own frame: depth moves less, as it reads as zoom
+    this.offset.set(this.sample(0) * offset, this.sample(1) * offset, this.sample(2) * offset * 0.3)
+    camera.position.add(this.offset.applyQuaternion(camera.quaternion))
+
+    camera.rotateY(this.sample(3) * angle)
+    camera.rotateX(this.sample(4) * angle)
+    camera.rotateZ(this.sample(5) * angle)
+    camera.updateMatrixWorld()
+  }
+
+  /** Put the camera back where apply() found it */
+  restore(camera: THREE.Camera): void {
+    if (!this.applied) return
+    camera.position.copy(this.savedPosition)
+    camera.quaternion.copy(this.savedQuaternion)
+    camera.updateMatrixWorld()
+    this.applied = false
+  }
+
+  // Smooth noise in [-1, 1] for one channel
+  private sample(channel: number): number {
+    return Noise3D.noise(this.time * this.options.frequency, channel * CHANNEL_SPACING, 0) * 2 - 1
+  }
+}
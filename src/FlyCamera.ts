@@ -0,0 +1,186 @@
+import * as THREE from 'three'
+import { isTypingTarget } from './utils/Keyboard'
+
+/**
+ * FlyCamera - Free flight with WASD and mouse look
+ *
+ * W/S fly forward and back, A/D strafe, E/Q rise and sink, Shift boosts.
+ * Dragging (or moving the mouse once the pointer is locked by a click)
+ * looks around, and the wheel sets the cruise speed. The camera has inertia:
+ * it accelerates toward the speed the keys ask for and coasts to a stop.
+ *
+ * It will not enter the event horizon (it slides along a sphere just
+ * outside it), pulls the near plane in when the horizon is close so nothing
+ * clips, and stays inside the starfield.
+ */
+
+const FLY_KEYS = new Set(['KeyW', 'KeyA', 'KeyS', 'KeyD', 'KeyQ', 'KeyE', 'ShiftLeft', 'ShiftRight'])
+
+const DEFAULT_SPEED = 20 // Units per second
+const MIN_SPEED = 1
+const MAX_SPEED = 200
+const WHEEL_SPEED_STEP = 1.15 // Speed factor per wheel notch
+const BOOST = 4 // Shift multiplier
+const ACCELERATION = 4 // 1/s: how quickly velocity closes on the keys' target (inertia)
+const LOOK_SENSITIVITY = 0.0025 // Radians per pixel
+const MAX_PITCH = THREE.MathUtils.degToRad(89)
+const HORIZON_MARGIN = 1.1 // Closest approach, in horizon radii
+const MAX_RANGE = 250 // Stay inside the starfield (300-500 units out)
+const MIN_NEAR = 0.01
+
+export class FlyCamera {
+  private camera: THREE.PerspectiveCamera
+  private domElement: HTMLElement
+  private enabled: boolean = false
+  private speed: number = DEFAULT_SPEED
+  private velocity = new THREE.Vector3()
+  private yaw: number = 0
+  private pitch: number = 0
+  private keys = new Set<string>()
+  private dragging: boolean = false
+  private baseNear: number
+  private horizonCentre = new THREE.Vector3()
+  private horizonRadius: number = 0
+  private onSpeedChange?: (speed: number) => void
+
+  private desired = new THREE.Vector3()
+  private offset = new THREE.Vector3()
+  private euler = new THREE.Euler(0, 0, 0, 'YXZ')
+
+  constructor(camera: THREE.PerspectiveCamera, domElement: HTMLElement) {
+    this.camera = camera
+    this.domElement = domElement
+    this.baseNear = camera.near
+
+    window.addEventListener('keydown', (e) => {
+      if (this.enabled && FLY_KEYS.has(e.code) && !isTypingTarget(e.target)) this.keys.add(e.code)
+    })
+    window.addEventListener('keyup', (e) => this.keys.delete(e.code))
+    window.addEventListener('blur', () => this.keys.clear())
+
+    domElement.addEventListener('mousedown', () => {
+      if (!this.enabled) return
+      this.dragging = true
+      // Where supported, a click captures the mouse so it can look all the way round
+      domElement.requestPointerLock?.()
+    })
+    window.addEventListener('mouseup', () => {
+      this.dragging = false
+    })
+    window.addEventListener('mousemove', (e) => {
+      if (!this.enabled) return
+      if (!this.dragging && document.pointerLockElement !== domElement) return
+      this.yaw -= e.movementX * LOOK_SENSITIVITY
+      this.pitch = THREE.MathUtils.clamp(this.pitch - e.movementY * LOOK_SENSITIVITY, -MAX_PITCH, MAX_PITCH)
+    })
+    domElement.addEventListener('wheel', (e) => {
+      if (!this.enabled) return
+      e.preventDefault()
+      this.setSpeed(this.speed * (e.deltaY < 0 ? WHEEL_SPEED_STEP : 1 / WHEEL_SPEED_STEP))
+    }, { passive: false })
+  }
+
+  /** Take the camera from where it is, looking the way it looks */
+  enable(): void {
+    if (this.enabled) return
+    this.enabled = true
+    this.velocity.set(0, 0, 0)
+    this.euler.setFromQuaternion(this.camera.quaternion, 'YXZ')
+    this.yaw = this.euler.y
+    this.pitch = THREE.MathUtils.clamp(this.euler.x, -MAX_PITCH, MAX_PITCH)
+  }
+
+  disable(): void {
+    if (!this.enabled) return
+    this.enabled = false
+    this.keys.clear()
+    this.dragging = false
+    if (document.pointerLockElement === this.domElement) document.exitPointerLock()
+    this.setNear(this.baseNear)
+  }
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  /** Whether a key (KeyboardEvent.code) steers the camera while flying */
+  handlesKey(code: string): boolean {
+    return this.enabled && FLY_KEYS.has(code)
+  }
+
+  getSpeed(): number {
+    return this.speed
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = THREE.MathUtils.clamp(speed, MIN_SPEED, MAX_SPEED)
+    this.onSpeedChange?.(this.speed)
+  }
+
+  setSpeedCallback(callback: (speed: number) => void): void {
+    this.onSpeedChange = callback
+  }
+
+  /** Event horizon to keep out of */
+  setHorizon(centre: THREE.Vector3, radius: number): void {
+    this.horizonCentre.copy(centre)
+    this.horizonRadius = radius
+  }
+
+  clearHorizon(): void {
+    this.horizonRadius = 0
+  }
+
+  /** Steer, move and keep clear of the horizon (real seconds) */
+  update(frameDelta: number): void {
+    if (!this.enabled) return
+
+    this.euler.set(this.pitch, this.yaw, 0, 'YXZ')
+    this.camera.quaternion.setFromEuler(this.euler)
+
+    // Velocity the keys ask for, in the camera's frame
+    const axis = (plus: string, minus: string) => (this.keys.has(plus) ? 1 : 0) - (this.keys.has(minus) ? 1 : 0)
+    this.desired.set(axis('KeyD', 'KeyA'), axis('KeyE', 'KeyQ'), axis('KeyS', 'KeyW'))
+    if (this.desired.lengthSq() > 0) {
+      const boost = this.keys.has('ShiftLeft') || this.keys.has('ShiftRight') ? BOOST : 1
+      this.desired.normalize().multiplyScalar(this.speed * boost).applyQuaternion(this.camera.quaternion)
+    }
+
+    // Inertia: ease toward it, so starts and stops glide
+    this.velocity.lerp(this.desired, 1 - Math.exp(-ACCELERATION * frameDelta))
+    this.camera.position.addScaledVector(this.velocity, frameDelta)
+    this.camera.position.clampLength(0, MAX_RANGE)
+    this.keepOutOfHorizon()
+    this.camera.updateMatrixWorld()
+  }
+
+  private keepOutOfHorizon(): void {
+    if (this.horizonRadius <= 0) {
+      this.setNear(this.baseNear)
+      return
+    }
+
+    const offset = this.offset.subVectors(this.camera.position, this.horizonCentre)
+    const closest = this.horizonRadius * HORIZON_MARGIN
+    let distance = offset.length()
+    if (distance < closest) {
+      // Push back out to the boundary and drop the inward part of the velocity
+      if (distance === 0) offset.set(0, 0, 1)
+      offset.normalize()
+      this.camera.position.copy(this.horizonCentre).addScaledVector(offset, closest)
+      const inward = this.velocity.dot(offset)
+      if (inward < 0) this.velocity.addScaledVector(offset, -inward)
+      distance = closest
+    }
+
+    // Near plane well inside the gap to the horizon, so close passes don't clip it
+    const clearance = distance - this.horizonRadius
+    this.setNear(THREE.MathUtils.clamp(clearance * 0.1, MIN_NEAR, this.baseNear))
+  }
+
+  private setNear(near: number): void {
+    if (this.camera.near === near) return
+    this.camera.near = near
+    this.camera.updateProjectionMatrix()
+  }
+}
@@ -0,0 +1,172 @@
+import * as THREE from 'three'
+import { PlanetSystem } from './PlanetSystem'
+import { AccretionSource } from './AccretionSource'
+import { SupernovaRemnant } from './SupernovaRemnant'
+
+/**
+ * FollowCamera - Camera modes that ride along with moving objects
+ *
+ * A FollowTarget says where the camera should sit and look each frame; the
+ * camera eases toward that view, so picking a target glides in from wherever
+ * the camera was. Targets are made by the factories below for a planet, an
+ * infalling accretion chunk and the outermost remnant shell.
+ */
+
+export interface FollowTarget {
+  name: string
+  /**
+   * Write this frame's camera position and look-at point
+   * @returns false once the subject is gone
+   */
+  getView(position: THREE.Vector3, target: THREE.Vector3): boolean
+  /** Called as following begins, for subjects that need extra work while watched */
+  start?(): void
+  /** Called once following ends, however it ends */
+  stop?(): void
+}
+
+/** The orbit controls' zoom range, which would otherwise hold the camera off close and far views */
+export interface DistanceLimits {
+  minDistance: number
+  maxDistance: number
+}
+
+const FOLLOW_RATE = 3 // 1/s: how quickly the camera closes on the view (exponential ease)
+
+export class FollowCamera {
+  private camera: THREE.PerspectiveCamera
+  private target: THREE.Vector3 // The orbit target, shared with OrbitControls
+  private limits: DistanceLimits | null
+  private savedLimits: DistanceLimits | null = null // While following
+  private subject: FollowTarget | null = null
+  private viewPosition = new THREE.Vector3()
+  private viewTarget = new THREE.Vector3()
+
+  constructor(camera: THREE.PerspectiveCamera, target: THREE.Vector3, limits: DistanceLimits | null = null) {
+    this.camera = camera
+    this.target = target
+    this.limits = limits
+  }
+
+  follow(subject: FollowTarget): void {
+    this.stop()
+    this.subject = subject
+    subject.start?.()
+
+    // Lift the zoom range so the view can be reached (a planet ride-along sits ~6 units out)
+    if (this.limits) {
+      this.savedLimits = { minDistance: this.limits.minDistance, maxDistance: this.limits.maxDistance }
+      this.limits.minDistance = 0
+      this.limits.maxDistance = Infinity
+    }
+  }
+
+  stop(): void {
+    this.subject?.stop?.()
+    this.subject = null
+
+    if (this.limits && this.savedLimits) {
+      this.limits.minDistance = this.savedLimits.minDistance
+      this.limits.maxDistance = this.savedLimits.maxDistance
+      this.savedLimits = null
+    }
+  }
+
+  getSubject(): FollowTarget | null {
+    return this.subject
+  }
+
+  /**
+   * Ease the camera toward the subject's view
+   * @returns false when the subject has gone (following stops)
+   */
+  update(frameDelta: number): boolean {
+    if (!this.subject) return false
+    if (!this.subject.getView(this.viewPosition, this.viewTarget)) {
+      this.stop()
+      return false
+    }
+
+    const ease = 1 - Math.exp(-FOLLOW_RATE * frameDelta)
+    this.camera.position.lerp(this.viewPosition, ease)
+    this.target.lerp(this.viewTarget, ease)
+    this.camera.lookAt(this.target)
+    return true
+  }
+}
+
+/**
+ * Ride just outside a planet's orbit, looking in past it at the star. Once
+ * the red giant reaches it, hold there and watch it sink in
+ */
+export function followPlanet(planets: PlanetSystem, index: number): FollowTarget | null {
+  const name = planets.getPlanetNames()[index]
+  const subject = new THREE.Vector3()
+  if (name === undefined || !planets.getPlanetPosition(index, subject)) return null
+
+  const outward = new THREE.Vector3()
+  const rideAlong = new THREE.Vector3()
+  const updateRideAlong = () => {
+    outward.set(subject.x, 0, subject.z).normalize()
+    rideAlong.copy(subject).addScaledVector(outward, 6).setY(1.5)
+  }
+  updateRideAlong()
+
+  return {
+    name,
+    getView(position, target) {
+      if (!planets.getPlanetPosition(index, subject)) return false
+
+      // Engulfment pulls the planet into the star; the camera stays where it was
+      if (!planets.isEngulfed(index)) updateRideAlong()
+      position.copy(rideAlong)
+      target.copy(subject)
+      return true
+    },
+  }
+}
+
+/**
+ * Trail the newest chunk from an accretion source as it spirals in, from
+ * outside its orbit so the hole stays behind it
+ */
+export function followAccretionChunk(source: AccretionSource): FollowTarget | null {
+  const members = source.pickNewestChunk()
+  if (members.length === 0) return null
+
+  const centre = new THREE.Vector3()
+  return {
+    name: 'Infalling chunk',
+    getView(position, target) {
+      if (!source.getChunkCentre(members, centre)) return false
+
+      position.copy(centre).normalize().multiplyScalar(10).add(centre)
+      position.y += 3
+      target.copy(centre)
+      return true
+    },
+  }
+}
+
+/**
+ * Ride the outermost remnant shell outward, looking back through it at the
+ * centre along the direction the camera already had
+ */
+export function followOuterShell(remnant: SupernovaRemnant, direction: THREE.Vector3): FollowTarget {
+  const outward = direction.clone().normalize()
+  const startDistance = direction.length()
+  return {
+    name: 'Outer remnant shell',
+    getView(position, target) {
+      const radius = remnant.getOuterShellRadius()
+      if (radius === 0) return false
+
+      // Until the shell's positions arrive, hold the distance the camera started at
+      position.copy(outward).multiplyScalar(radius === null ? startDistance : radius + 10)
+      target.set(0, 0, 0)
+      return true
+    },
+    start: () => remnant.startTrackingShell(),
+    stop: () => remnant.stopTrackingShell(),
+  }
+}
@@ -0,0 +1,396 @@
+import * as THREE from 'three'
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js'
+import {
+  NebulaPhysics,
+  NebulaPhysicsOptions,
+  IGNITION_STAGES,
+  CAPTURE_RADIUS_MULTIPLIER,
+  PROTOSTAR_GEOMETRY_RADIUS,
+} from './physics/NebulaPhysics'
+import { SupernovaRemnantPhysics } from './physics/SupernovaRemnantPhysics'
+import { NebulaPhysicsView, SupernovaRemnantPhysicsView } from './physics/ParticleWorkerBackend'
+import { NebulaVelocityShader, NebulaPositionShader } from './shaders/NebulaComputeShader'
+import { RemnantVelocityShader, RemnantPositionShader } from './shaders/RemnantComputeShader'
+
+/*
+ * GPU particle backend: the nebula and the remnant shells simulated in
+ * ping-pong float textures (GPUComputationRenderer). Points read their
+ * positions from the texture in the vertex shader; the CPU only reads the
+ * texture back every few steps, for collapse progress and swallowed mass.
+ * Readbacks are asynchronous, so like the worker backend those figures land
+ * a frame or more late rather than stalling for the GPU.
+ * Initial state comes from the CPU physics classes, so a seeded run starts
+ * from the same cloud on either backend.
+ */
+
+const NEBULA_READBACK_INTERVAL = 4 // Steps between collapse measurements
+const REMNANT_READBACK_INTERVAL = 10 // Steps between consumption counts (while accreting)
+
+/** Float render targets and vertex texture fetch are all the GPU backend needs */
+export function isGpuParticleSupported(renderer: THREE.WebGLRenderer): boolean {
+  return renderer.capabilities.maxVertexTextures > 0 && renderer.extensions.has('EXT_color_buffer_float')
+}
+
+/**
+ * Make a points material take its positions from a simulation texture: each
+ * point looks itself up through a `reference` uv attribute. The whole texel is
+ * left in `simulated` for later chunks (the nebula's stuck flag is in w)
+ */
+export function readPositionsFromTexture(
+  material: THREE.PointsMaterial,
+  positionTexture: THREE.IUniform<THREE.Texture | null>
+): void {
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.positionTexture = positionTexture
+    shader.vertexShader = `uniform sampler2D positionTexture;\nattribute vec2 reference;\n${shader.vertexShader}`.replace(
+      '#include <begin_vertex>',
+      'vec4 simulated = texture2D(positionTexture, reference);\nvec3 transformed = simulated.xyz;'
+    )
+  }
+}
+
+/** Texel centres for `count` particles starting at `offset`, row-major in a size × size texture */
+export function createReferenceAttribute(size: number, offset: number, count: number): THREE.BufferAttribute {
+  const references = new Float32Array(count * 2)
+  for (let i = 0; i < count; i++) {
+    const index = offset + i
+    references[i * 2] = ((index % size) + 0.5) / size
+    references[i * 2 + 1] = (Math.floor(index / size) + 0.5) / size
+  }
+  return new THREE.BufferAttribute(references, 2)
+}
+
+/** Position and velocity variables over a square texture, seeded from xyz arrays */
+class ParticleCompute {
+  public readonly size: number
+  public readonly gpu: GPUComputationRenderer
+  public readonly position: Variable
+  public readonly velocity: Variable
+  private readonly renderer: THREE.WebGLRenderer
+  private readonly pixels: Float32Array
+  private reading: boolean = false // A readback is in flight (it fills `pixels`)
+  private disposed: boolean = false
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    positions: Float32Array[],
+    velocities: Float32Array[],
+    shaders: { position: string; velocity: string },
+    uniforms: Record<string, THREE.IUniform>
+  ) {
+    const count = positions.reduce((total, array) => total + array.length / 3, 0)
+    this.size = Math.ceil(Math.sqrt(count))
+    this.renderer = renderer
+    this.gpu = new GPUComputationRenderer(this.size, this.size, renderer)
+    this.pixels = new Float32Array(this.size * this.size * 4)
+
+    const positionTexture = this.gpu.createTexture()
+    const velocityTexture = this.gpu.createTexture()
+    const positionData = positionTexture.image.data as Float32Array
+    positionData.fill(10000) // Padding texels stay parked
+    let texel = 0
+    positions.forEach((array, arrayIndex) => {
+      const velocityArray = velocities[arrayIndex]
+      for (let i = 0; i < array.length / 3; i++, texel++) {
+        positionData.set(array.subarray(i * 3, i * 3 + 3), texel * 4)
+        positionData[texel * 4 + 3] = 0
+        ;(velocityTexture.image.data as Float32Array).set(velocityArray.subarray(i * 3, i * 3 + 3), texel * 4)
+      }
+    })
+
+    this.position = this.gpu.addVariable('texturePosition', shaders.position, positionTexture)
+    this.velocity = this.gpu.addVariable('textureVelocity', shaders.velocity, velocityTexture)
+    this.gpu.setVariableDependencies(this.position, [this.position, this.velocity])
+    this.gpu.setVariableDependencies(this.velocity, [this.position, this.velocity])
+    // Both passes share one set of uniform objects, so one write updates both
+    Object.assign(this.position.material.uniforms, uniforms)
+    Object.assign(this.velocity.material.uniforms, uniforms)
+
+    const error = this.gpu.init()
+    if (error !== null) {
+      throw new Error(`GPU particle setup failed: ${error}`)
+    }
+  }
+
+  public getPositionTexture(): THREE.Texture {
+    return this.gpu.getCurrentRenderTarget(this.position).texture
+  }
+
+  /**
+   * Read positions (xyz + flag per texel) without stalling: the copy queues
+   * behind the passes so far, and `onRead` runs once the GPU has done them.
+   * Skipped while the previous read is still in flight
+   */
+  public readPositionsAsync(onRead: (pixels: Float32Array) => void): void {
+    if (this.reading) return
+    this.reading = true
+
+    const target = this.gpu.getCurrentRenderTarget(this.position)
+    this.renderer.readRenderTargetPixelsAsync(target, 0, 0, this.size, this.size, this.pixels).then(
+      () => {
+        this.reading = false
+        if (!this.disposed) onRead(this.pixels)
+      },
+      (error) => {
+        this.reading = false
+        console.warn('[GPU] Particle readback failed:', error)
+      }
+    )
+  }
+
+  public dispose(): void {
+    this.disposed = true
+    this.gpu.dispose()
+  }
+}
+
+/**
+ * Nebula collapse on the GPU. NebulaPhysics still owns the protostar and the
+ * collapse measures; only its particle loop moves to the shaders.
+ */
+export class NebulaPhysicsGpu implements NebulaPhysicsView {
+  public readonly captureRadiusMultiplier = CAPTURE_RADIUS_MULTIPLIER
+  public readonly preIgnitionThreshold = IGNITION_STAGES.preIgnition
+  public readonly ignitionThreshold = IGNITION_STAGES.ignition
+  public readonly stabilizationThreshold = IGNITION_STAGES.stabilization
+  /** Bound to the points material (see readPositionsFromTexture) */
+  public readonly positionTexture: THREE.IUniform<THREE.Texture | null> = { value: null }
+
+  private physics: NebulaPhysics
+  private compute: ParticleCompute
+  private uniforms: Record<string, THREE.IUniform<number>> = {}
+  private stepsSinceReadback: number = 0
+
+  constructor(renderer: THREE.WebGLRenderer, particleCount: number, options: NebulaPhysicsOptions = {}) {
+    this.physics = new NebulaPhysics(particleCount, null, options)
+
+    for (const name of [
+      'time', 'captureRadius', 'capturing', 'protostarRadius', 'gravityScale', 'collapseSpeed', 'softening',
+      'alignment', 'inwardBias', 'drag', 'swirl', 'diskPull', 'turbulence', 'maxVelocity',
+    ]) {
+      this.uniforms[name] = { value: 0 }
+    }
+    this.compute = new ParticleCompute(
+      renderer,
+      [this.physics.positions],
+      [this.physics.velocities],
+      { position: NebulaPositionShader, velocity: NebulaVelocityShader },
+      this.uniforms
+    )
+    this.positionTexture.value = this.compute.getPositionTexture()
+  }
+
+  /** Render-side particle lookup (see createReferenceAttribute) */
+  public createReferenceAttribute(): THREE.BufferAttribute {
+    return createReferenceAttribute(this.compute.size, 0, this.physics.particleCount)
+  }
+
+  /** Last read back from the GPU (a few steps old); the points draw from positionTexture */
+  public get positions(): Float32Array {
+    return this.physics.positions
+  }
+
+  public get stuck(): Float32Array {
+    return this.physics.stuck
+  }
+
+  public update(deltaTime: number): void {
+    const step = this.physics.beginStep(deltaTime)
+    const uniforms = this.uniforms
+    uniforms.time.value = step.time
+    uniforms.captureRadius.value = step.captureRadius
+    uniforms.capturing.value = step.capturing ? 1 : 0
+    uniforms.protostarRadius.value = step.protostarRadius
+    uniforms.gravityScale.value = step.gravityScale
+    uniforms.collapseSpeed.value = step.collapseSpeed
+    uniforms.softening.value = step.softening
+    uniforms.alignment.value = step.alignment
+    uniforms.inwardBias.value = step.inwardBias
+    uniforms.drag.value = step.drag
+    uniforms.swirl.value = step.swirl
+    uniforms.diskPull.value = step.diskPull
+    uniforms.turbulence.value = step.turbulence
+    uniforms.maxVelocity.value = step.maxVelocity
+
+    this.compute.gpu.compute()
+    this.positionTexture.value = this.compute.getPositionTexture()
+
+    if (++this.stepsSinceReadback >= NEBULA_READBACK_INTERVAL) {
+      this.stepsSinceReadback = 0
+      this.compute.readPositionsAsync((pixels) => this.measureCollapse(pixels))
+    }
+  }
+
+  private measureCollapse(pixels: Float32Array): void {
+    const positions = this.physics.positions
+    const stuck = this.physics.stuck
+    let freeParticleDistance = 0
+    let freeParticleCount = 0
+    let stuckParticleCount = 0
+
+    for (let i = 0; i < this.physics.particleCount; i++) {
+      const i3 = i * 3
+      const i4 = i * 4
+      positions[i3] = pixels[i4]
+      positions[i3 + 1] = pixels[i4 + 1]
+      positions[i3 + 2] = pixels[i4 + 2]
+      stuck[i] = pixels[i4 + 3]
+
+      if (stuck[i] > 0.5) {
+        stuckParticleCount++
+      } else {
+        freeParticleDistance += Math.sqrt(
+          positions[i3] * positions[i3] + positions[i3 + 1] * positions[i3 + 1] + positions[i3 + 2] * positions[i3 + 2]
+        )
+        freeParticleCount++
+      }
+    }
+
+    this.physics.finishStep(freeParticleDistance, freeParticleCount, stuckParticleCount)
+  }
+
+  public getAverageRadius(): number {
+    return this.physics.getAverageRadius()
+  }
+
+  public getCollapseProgress(): number {
+    return this.physics.getCollapseProgress()
+  }
+
+  public getProtostarScale(): number {
+    return this.physics.getProtostarScale()
+  }
+
+  public getProtostarRadius(): number {
+    return this.physics.getProtostarScale() * PROTOSTAR_GEOMETRY_RADIUS
+  }
+
+  public getFrameFactor(): number {
+    return this.physics.getFrameFactor()
+  }
+
+  public dispose(): void {
+    this.compute.dispose()
+  }
+}
+
+/**
+ * Remnant shells on the GPU, all shells in one texture. Swallowed particles
+ * are counted on readback and reported to the black hole in batches.
+ */
+export class SupernovaRemnantPhysicsGpu implements SupernovaRemnantPhysicsView {
+  public readonly positionTexture: THREE.IUniform<THREE.Texture | null> = { value: null }
+
+  private physics: SupernovaRemnantPhysics
+  private compute: ParticleCompute
+  private uniforms = {
+    time: { value: 0 },
+    accreting: { value: 0 },
+    blackHolePosition: { value: new THREE.Vector3() },
+    accretionStrength: { value: 0 },
+    eventHorizonRadius: { value: 5.0 },
+  }
+  private particleMass: number
+  private consumedCount: number = 0
+  private onParticleConsumed?: (mass: number) => void
+  private stepsSinceReadback: number = 0
+  private readbackPositions: boolean = false // Also before the black hole forms
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    initialRadius: number,
+    particleCount: number,
+    shellCount: number,
+    expansionSpeed: number | undefined,
+    particleMass: number
+  ) {
+    this.particleMass = particleMass
+    this.physics = new SupernovaRemnantPhysics(initialRadius, particleCount, shellCount, expansionSpeed, particleMass)
+    this.compute = new ParticleCompute(
+      renderer,
+      this.physics.shellPositions,
+      this.physics.shellVelocities,
+      { position: RemnantPositionShader, velocity: RemnantVelocityShader },
+      this.uniforms
+    )
+    this.positionTexture.value = this.compute.getPositionTexture()
+  }
+
+  public createReferenceAttribute(shellIndex: number): THREE.BufferAttribute {
+    const count = this.physics.particleCount
+    return createReferenceAttribute(this.compute.size, shellIndex * count, count)
+  }
+
+  /** Initial positions, refreshed on each readback (while accreting, or when asked to) */
+  public get shellPositions(): Float32Array[] {
+    return this.physics.shellPositions
+  }
+
+  public update(deltaTime: number): void {
+    this.uniforms.time.value += deltaTime
+    this.compute.gpu.compute()
+    this.positionTexture.value = this.compute.getPositionTexture()
+
+    // Nothing is swallowed before the black hole forms, so there is nothing to read back unless asked
+    const wantsReadback = this.uniforms.accreting.value > 0 || this.readbackPositions
+    if (wantsReadback && ++this.stepsSinceReadback >= REMNANT_READBACK_INTERVAL) {
+      this.stepsSinceReadback = 0
+      this.compute.readPositionsAsync((pixels) => this.countConsumed(pixels))
+    }
+  }
+
+  /**
+   * Keep shellPositions current even before accretion (the follow camera
+   * tracks the shells). Turning it on starts a read at once, since the arrays
+   * still hold the initial burst
+   */
+  public setPositionReadback(enabled: boolean): void {
+    if (enabled && !this.readbackPositions) {
+      this.stepsSinceReadback = 0
+      this.compute.readPositionsAsync((pixels) => this.countConsumed(pixels))
+    }
+    this.readbackPositions = enabled
+  }
+
+  private countConsumed(pixels: Float32Array): void {
+    const count = this.physics.particleCount
+    let consumed = 0
+
+    this.physics.shellPositions.forEach((positions, shellIndex) => {
+      for (let i = 0; i < count; i++) {
+        const i4 = (shellIndex * count + i) * 4
+        positions.set(pixels.subarray(i4, i4 + 3), i * 3)
+        if (pixels[i4 + 3] > 0.5) consumed++
+      }
+    })
+
+    const newlyConsumed = consumed - this.consumedCount
+    this.consumedCount = consumed
+    if (newlyConsumed > 0 && this.onParticleConsumed) {
+      this.onParticleConsumed(newlyConsumed * this.particleMass)
+    }
+  }
+
+  public enableAccretion(blackHolePosition: THREE.Vector3, strength: number, horizonRadius: number): void {
+    this.uniforms.accreting.value = 1
+    this.uniforms.blackHolePosition.value.copy(blackHolePosition)
+    this.uniforms.accretionStrength.value = strength
+    this.uniforms.eventHorizonRadius.value = horizonRadius
+  }
+
+  public setConsumptionCallback(callback: (mass: number) => void): void {
+    this.onParticleConsumed = callback
+  }
+
+  public updateEventHorizonRadius(newRadius: number): void {
+    this.uniforms.eventHorizonRadius.value = newRadius
+  }
+
+  public getActiveParticleCount(): number {
+    return this.physics.particleCount * this.physics.shellCount - this.consumedCount
+  }
+
+  public dispose(): void {
+    this.compute.dispose()
+  }
+}
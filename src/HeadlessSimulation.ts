@@ -0,0 +1,390 @@
+import * as THREE from 'three'
+import { SimulationPhase } from './AudioManager'
+import { PhaseTimeline, DEFAULT_PHASE_TIMELINE, PhaseDescriptor } from './PhaseTimeline'
+import { PLANET_CONFIGS } from './PlanetSystem'
+import { NebulaPhysics } from './physics/NebulaPhysics'
+import { SyncGravitySolver } from './physics/NebulaGravitySolver'
+import { StarPhysics } from './physics/StarPhysics'
+import { PlanetSystemPhysics } from './physics/PlanetSystemPhysics'
+import { SupernovaRemnantPhysics } from './physics/SupernovaRemnantPhysics'
+import { BlackHolePhysics } from './physics/BlackHolePhysics'
+import { WhiteDwarfPhysics, CHANDRASEKHAR_LIMIT } from './physics/WhiteDwarfPhysics'
+import { NeutronStarPhysics } from './physics/NeutronStarPhysics'
+import { PLANETARY_NEBULA_SHELLS, TYPE_IA_REMNANT_SHELLS } from './SupernovaRemnant'
+import { AccretionSourcePhysics, ACCRETION_SOURCE_POSITIONS } from './physics/AccretionSourcePhysics'
+import { TidalDisruptionPhysics } from './physics/TidalDisruptionPhysics'
+import {
+  BinaryOrbitPhysics,
+  BinaryMember,
+  COMPANION_STAR,
+  COMPANION_EXPANSION_DELAY,
+  ROCHE_OVERFLOW_FACTOR,
+} from './physics/BinaryOrbitPhysics'
+import {
+  MassTransferStreamPhysics,
+  STREAM_PARTICLE_MASS_FRACTION,
+  WHITE_DWARF_FILL_PARTICLES,
+} from './physics/MassTransferStreamPhysics'
+import { StellarProfile, createStellarProfile, applyStellarProfile, DEFAULT_STELLAR_MASS } from './StellarProfile'
+import { Random } from './utils/Random'
+import { registerLifecycleHandlers } from './LifecycleHandlers'
+
+export interface HeadlessOptions {
+  seed?: number
+  stellarMass?: number
+  binary?: boolean
+  blackHoleSpin?: number
+  /** Barnes-Hut self-gravity instead of the scripted pull, solved synchronously so runs stay deterministic */
+  selfGravity?: boolean
+  phases?: PhaseDescriptor[]
+  nebulaParticles?: number
+  remnantParticles?: number
+  accretionSourceParticles?: number
+}
+
+export interface HeadlessMetrics {
+  phase: SimulationPhase | null
+  phaseElapsed: number
+  simulatedTime: number
+  collapseProgress: number
+  starRadius: number
+  engulfedPlanets: number
+  blackHoleMass: number
+  eventHorizonRadius: number
+  consumedMass: number
+  remnantParticles: number
+  whiteDwarfTemperature: number
+  whiteDwarfMass: number
+  pulsarPeriod: number
+  tidalFallbackMass: number
+  tidalFlare: number
+  transferredMass: number
+  companionMass: number
+  companionDistance: number
+}
+
+/**
+ * HeadlessSimulation - The full stellar lifecycle without a renderer, scene or audio
+ *
+ * Drives the same phase timeline as the browser app, but only with the physics
+ * classes, so it can be stepped in Node or vitest and inspected through getMetrics().
+ */
+export class HeadlessSimulation {
+  public readonly fixedStep = 1 / 60
+
+  private timeline: PhaseTimeline
+  private options: HeadlessOptions
+  private profile: StellarProfile
+  private simulatedTime: number = 0
+  private consumedMass: number = 0
+
+  private nebula: NebulaPhysics | null = null
+  private star: StarPhysics | null = null
+  private planets: PlanetSystemPhysics | null = null
+  private remnant: SupernovaRemnantPhysics | null = null
+  private blackHole: BlackHolePhysics | null = null
+  private accretionSources: AccretionSourcePhysics[] = []
+  private whiteDwarf: WhiteDwarfPhysics | null = null
+  private neutronStar: NeutronStarPhysics | null = null
+  private tidalDisruption: TidalDisruptionPhysics | null = null
+  private binaryOrbit: BinaryOrbitPhysics | null = null
+  private companion: StarPhysics | null = null
+  private massTransferStream: MassTransferStreamPhysics | null = null
+  private massTransferDonor: BinaryMember = 'primary'
+  private typeIaEjecta: SupernovaRemnantPhysics | null = null
+
+  // Carried over from disposed subsystems so metrics stay meaningful afterwards
+  private finalCollapseProgress: number = 0
+  private finalEngulfedPlanets: number = 0
+
+  constructor(options: HeadlessOptions = {}) {
+    this.options = options
+    if (options.seed !== undefined) {
+      Random.setSeed(options.seed)
+    }
+
+    this.profile = createStellarProfile(options.stellarMass ?? DEFAULT_STELLAR_MASS)
+    this.timeline = new PhaseTimeline(
+      options.phases ?? applyStellarProfile(DEFAULT_PHASE_TIMELINE, this.profile, options.binary)
+    )
+    this.registerPhaseHandlers()
+    this.timeline.start()
+  }
+
+  private registerPhaseHandlers(): void {
+    registerLifecycleHandlers(this.timeline, {
+      startNebula: () => {
+        this.nebula = new NebulaPhysics(
+          this.options.nebulaParticles,
+          this.options.selfGravity ? new SyncGravitySolver() : null
+        )
+      },
+      updateNebula: (dt) => this.nebula?.update(dt),
+      getCollapseProgress: () => this.getCollapseProgress(),
+
+      ignite: () => this.ignite(),
+      updateStar: (dt) => this.star?.update(dt),
+      startRedGiant: () => {
+        this.star?.startRedGiantExpansion()
+        if (this.binaryOrbit) {
+          this.startMassTransfer(this.binaryOrbit)
+        }
+      },
+      endRedGiant: () => {
+        // Envelope gone: transfer stops and the system recentres on the dying primary
+        this.massTransferStream = null
+        const unbound = this.profile.remnant !== 'white-dwarf'
+        this.binaryOrbit?.recentreOnPrimary(unbound, new THREE.Vector3())
+        if (!unbound) {
+          this.binaryOrbit?.setPrimaryMass(this.profile.whiteDwarfMass)
+        }
+      },
+
+      startSupernova: () => this.startSupernova(),
+      updateSupernova: () => {}, // Core collapse is only drawn in the browser
+
+      startBlackHole: () => this.startAccretion(),
+      updateBlackHole: (dt) => {
+        // The browser app steps the remnant again here on top of the global update
+        this.remnant?.update(dt)
+        this.accretionSources.forEach((source) => source.update(dt))
+        this.tidalDisruption?.update(dt)
+      },
+
+      startNeutronStar: () => {
+        this.star = null
+      },
+      updateNeutronStar: (dt) => this.neutronStar?.update(dt),
+
+      startWhiteDwarf: () => this.startPlanetaryNebula(),
+      updateWhiteDwarf: (dt, elapsed) => {
+        this.whiteDwarf?.update(dt)
+        this.updateWhiteDwarfAccretion(elapsed)
+      },
+      isOverChandrasekharLimit: () => this.whiteDwarf?.isOverChandrasekharLimit() ?? false,
+
+      startTypeIaSupernova: () => {
+        // Nothing survives the detonation; the companion is released
+        this.typeIaEjecta = new SupernovaRemnantPhysics(
+          1.0,
+          this.options.remnantParticles ?? TYPE_IA_REMNANT_SHELLS.particleCount,
+          TYPE_IA_REMNANT_SHELLS.shellCount,
+          TYPE_IA_REMNANT_SHELLS.expansionSpeed
+        )
+        this.whiteDwarf = null
+        this.massTransferStream = null
+        this.binaryOrbit?.unbind()
+      },
+      updateTypeIaSupernova: (dt) => this.typeIaEjecta?.update(dt),
+    })
+  }
+
+  private ignite(): void {
+    const protostarRadius = this.nebula ? this.nebula.getProtostarRadius() : 4.8
+    this.finalCollapseProgress = this.getCollapseProgress()
+    this.nebula = null
+
+    this.star = new StarPhysics(protostarRadius, {
+      redGiantRadius: this.profile.redGiantRadius,
+      expansionDuration: this.profile.expansionDuration,
+    })
+    if (this.options.binary) {
+      this.binaryOrbit = new BinaryOrbitPhysics(this.profile.mass, this.profile.redGiantRadius)
+      this.companion = new StarPhysics(COMPANION_STAR.mainSequenceRadius, COMPANION_STAR)
+    } else {
+      this.planets = new PlanetSystemPhysics(PLANET_CONFIGS)
+    }
+  }
+
+  private startSupernova(): void {
+    const starRadius = this.star ? this.star.getRadius() : 25.0
+    this.remnant = new SupernovaRemnantPhysics(starRadius, this.options.remnantParticles)
+    if (this.profile.remnant === 'neutron-star') {
+      this.neutronStar = new NeutronStarPhysics()
+    } else {
+      this.blackHole = new BlackHolePhysics()
+      this.blackHole.setSpin(this.options.blackHoleSpin ?? 0)
+    }
+    this.finalEngulfedPlanets = this.planets ? this.planets.getEngulfedCount() : 0
+    this.planets = null
+  }
+
+  private startMassTransfer(orbit: BinaryOrbitPhysics): void {
+    this.massTransferDonor = 'primary'
+    this.massTransferStream = new MassTransferStreamPhysics(1500, this.profile.mass * STREAM_PARTICLE_MASS_FRACTION)
+    this.massTransferStream.setConsumptionCallback((mass) => {
+      orbit.transferMass(mass)
+      this.companion?.setAccretedMassRatio(orbit.getCompanionMassRatio())
+    })
+  }
+
+  /** The companion swells in turn and feeds the white dwarf (same sequence as the browser app) */
+  private updateWhiteDwarfAccretion(elapsed: number): void {
+    const orbit = this.binaryOrbit
+    if (!orbit || !this.companion || !this.whiteDwarf) return
+    if (elapsed < COMPANION_EXPANSION_DELAY || this.companion.isRedGiant()) return
+
+    this.companion.startRedGiantExpansion(ROCHE_OVERFLOW_FACTOR * orbit.getRocheLobeRadius('companion'))
+
+    this.massTransferDonor = 'companion'
+    const particleMass = (CHANDRASEKHAR_LIMIT - this.whiteDwarf.getMass()) / WHITE_DWARF_FILL_PARTICLES
+    this.massTransferStream = new MassTransferStreamPhysics(1500, particleMass)
+    this.massTransferStream.setConsumptionCallback((mass) => {
+      orbit.transferMass(mass, 'companion')
+      this.whiteDwarf?.accrete(mass)
+    })
+  }
+
+  private startPlanetaryNebula(): void {
+    const starRadius = this.star ? this.star.getRadius() : 15.0
+    this.remnant = new SupernovaRemnantPhysics(
+      starRadius,
+      this.options.remnantParticles ?? PLANETARY_NEBULA_SHELLS.particleCount,
+      PLANETARY_NEBULA_SHELLS.shellCount,
+      PLANETARY_NEBULA_SHELLS.expansionSpeed
+    )
+    this.whiteDwarf = new WhiteDwarfPhysics(this.profile.whiteDwarfMass)
+    this.star = null
+  }
+
+  private startAccretion(): void {
+    this.star = null
+    const blackHole = this.blackHole
+    if (!blackHole) return
+
+    const onConsumed = (mass: number) => this.feedBlackHole(blackHole, mass)
+
+    if (this.remnant) {
+      this.remnant.enableAccretion(new THREE.Vector3(0, 0, 0), 0.15, blackHole.getEventHorizonRadius())
+      this.remnant.setConsumptionCallback(onConsumed)
+    }
+
+    this.accretionSources = ACCRETION_SOURCE_POSITIONS.map(([x, y, z]) => {
+      const source = new AccretionSourcePhysics(
+        new THREE.Vector3(x, y, z),
+        0.15,
+        blackHole.getEventHorizonRadius(),
+        this.options.accretionSourceParticles
+      )
+      source.setSpin(blackHole.getSpin(), blackHole.getEventHorizonRadius())
+      source.setConsumptionCallback(onConsumed)
+      return source
+    })
+  }
+
+  private feedBlackHole(blackHole: BlackHolePhysics, mass: number): void {
+    this.consumedMass += mass
+    blackHole.addMass(mass)
+
+    const newRadius = blackHole.getEventHorizonRadius()
+    this.remnant?.updateEventHorizonRadius(newRadius)
+    this.accretionSources.forEach((source) => source.updateEventHorizonRadius(newRadius))
+  }
+
+  /**
+   * Send a star into the black hole (browser app: T key). Returns false
+   * outside the black hole phase or while a disruption is under way.
+   */
+  public triggerTidalDisruption(particleCount?: number): boolean {
+    const blackHole = this.blackHole
+    if (this.timeline.getCurrentPhase() !== SimulationPhase.BLACK_HOLE || !blackHole) return false
+    if (this.tidalDisruption && !this.tidalDisruption.isFinished()) return false
+
+    this.tidalDisruption = new TidalDisruptionPhysics(particleCount)
+    this.tidalDisruption.setConsumptionCallback((mass) => this.feedBlackHole(blackHole, mass))
+    return true
+  }
+
+  /** Advance by one fixed step (same order as the browser app's stepSimulation) */
+  public step(): void {
+    const dt = this.fixedStep
+    this.simulatedTime += dt
+
+    if (this.planets) {
+      // Surviving planets keep orbiting the white dwarf
+      this.planets.update(dt, this.star ? this.star.getRadius() : 4.0)
+    }
+    if (this.binaryOrbit) {
+      this.binaryOrbit.update(dt)
+      this.companion?.update(dt)
+      this.updateMassTransfer(this.binaryOrbit, dt)
+    }
+    this.remnant?.update(dt)
+    this.timeline.update(dt)
+  }
+
+  private updateMassTransfer(orbit: BinaryOrbitPhysics, dt: number): void {
+    if (!this.massTransferStream) return
+
+    const fromCompanion = this.massTransferDonor === 'companion'
+    const donor = fromCompanion ? this.companion : this.star
+    const accretorRadius = fromCompanion ? this.whiteDwarf?.getRadius() : this.companion?.getRadius()
+    if (!donor || accretorRadius === undefined) return
+
+    this.massTransferStream.trackBinary(orbit, donor.getRadius(), accretorRadius, this.massTransferDonor)
+    this.massTransferStream.update(dt)
+  }
+
+  /** Step for the given amount of simulated time */
+  public runFor(seconds: number): void {
+    const steps = Math.round(seconds / this.fixedStep)
+    for (let i = 0; i < steps; i++) {
+      this.step()
+    }
+  }
+
+  /**
+   * Step until the given phase is reached (optionally at a progress through it).
+   * Returns false if maxSeconds of simulated time ran out first.
+   */
+  public runUntil(phase: SimulationPhase, progress: number = 0, maxSeconds: number = 600): boolean {
+    const targetIndex = this.timeline.indexOf(phase)
+    if (targetIndex < 0) {
+      throw new Error(`Phase not in this lifecycle: ${phase}`)
+    }
+    const maxSteps = Math.round(maxSeconds / this.fixedStep)
+
+    for (let i = 0; i < maxSteps; i++) {
+      const current = this.timeline.getCurrentPhase()
+      const currentIndex = current ? this.timeline.indexOf(current) : -1
+      if (currentIndex > targetIndex) return true
+      if (currentIndex === targetIndex && this.timeline.getProgress() >= progress) return true
+      this.step()
+    }
+    return false
+  }
+
+  public getPhase(): SimulationPhase | null {
+    return this.timeline.getCurrentPhase()
+  }
+
+  public getMetrics(): HeadlessMetrics {
+    return {
+      phase: this.timeline.getCurrentPhase(),
+      phaseElapsed: this.timeline.getElapsed(),
+      simulatedTime: this.simulatedTime,
+      collapseProgress: this.getCollapseProgress(),
+      starRadius: this.star ? this.star.getRadius() : 0,
+      engulfedPlanets: this.planets ? this.planets.getEngulfedCount() : this.finalEngulfedPlanets,
+      blackHoleMass: this.blackHole ? this.blackHole.getMass() : 0,
+      eventHorizonRadius: this.blackHole ? this.blackHole.getEventHorizonRadius() : 0,
+      consumedMass: this.consumedMass,
+      remnantParticles: this.remnant ? this.remnant.getActiveParticleCount() : 0,
+      whiteDwarfTemperature: this.whiteDwarf ? this.whiteDwarf.getTemperature() : 0,
+      whiteDwarfMass: this.whiteDwarf ? this.whiteDwarf.getMass() : 0,
+      pulsarPeriod: this.neutronStar ? this.neutronStar.getPeriod() : 0,
+      tidalFallbackMass: this.tidalDisruption ? this.tidalDisruption.getFallbackMass() : 0,
+      tidalFlare: this.tidalDisruption ? this.tidalDisruption.getFlareLevel() : 0,
+      transferredMass: this.binaryOrbit ? this.binaryOrbit.getTransferredMass() : 0,
+      companionMass: this.binaryOrbit ? this.binaryOrbit.getCompanionMass() : 0,
+      // Measured from the primary (or its remnant)
+      companionDistance: this.binaryOrbit
+        ? this.binaryOrbit.companionPosition.distanceTo(this.binaryOrbit.primaryPosition)
+        : 0,
+    }
+  }
+
+  private getCollapseProgress(): number {
+    return this.nebula ? this.nebula.getCollapseProgress() : this.finalCollapseProgress
+  }
+}
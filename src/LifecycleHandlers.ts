@@ -0,0 +1,83 @@
+import { SimulationPhase } from './AudioManager'
+import { PhaseTimeline } from './PhaseTimeline'
+
+/**
+ * LifecycleHandlers - What each phase does, shared by the browser app and HeadlessSimulation
+ *
+ * The timeline decides when phases begin and end; these handlers decide what
+ * runs in them, through a LifecycleHost that owns the actual subsystems
+ * (meshes over physics in the browser, bare physics headless). Completion
+ * rules such as the collapse threshold and the Chandrasekhar limit live here
+ * once, so the two runs can't drift apart.
+ */
+
+export interface LifecycleHost {
+  startNebula(): void
+  updateNebula(deltaTime: number): void
+  getCollapseProgress(): number // 0 while there is no nebula
+  ignite(): void // Protostar becomes a main-sequence star (with planets or a companion)
+  updateStar(deltaTime: number): void
+  startRedGiant(): void
+  endRedGiant(): void
+  startSupernova(): void
+  updateSupernova(deltaTime: number, elapsed: number): void
+  startBlackHole(): void
+  updateBlackHole(deltaTime: number): void
+  startNeutronStar(): void
+  updateNeutronStar(deltaTime: number): void
+  startWhiteDwarf(): void
+  updateWhiteDwarf(deltaTime: number, elapsed: number): void
+  isOverChandrasekharLimit(): boolean
+  startTypeIaSupernova(): void
+  updateTypeIaSupernova(deltaTime: number): void
+}
+
+export function registerLifecycleHandlers(timeline: PhaseTimeline, host: LifecycleHost): void {
+  // Read on demand: the timeline can be retimed after registration
+  const collapseThreshold = () => timeline.getDescriptor(SimulationPhase.NEBULA_COLLAPSE)?.completionThreshold ?? 1.0
+
+  timeline.register(SimulationPhase.NEBULA_COLLAPSE, {
+    onEnter: () => host.startNebula(),
+    onUpdate: (deltaTime) => host.updateNebula(deltaTime),
+    isComplete: () => host.getCollapseProgress() >= collapseThreshold(),
+    getProgress: () => Math.min(host.getCollapseProgress() / collapseThreshold(), 1.0),
+  })
+
+  timeline.register(SimulationPhase.MAIN_SEQUENCE, {
+    onEnter: () => host.ignite(),
+    onUpdate: (deltaTime) => host.updateStar(deltaTime),
+  })
+
+  timeline.register(SimulationPhase.RED_GIANT, {
+    onEnter: () => host.startRedGiant(),
+    onUpdate: (deltaTime) => host.updateStar(deltaTime),
+    onExit: () => host.endRedGiant(),
+  })
+
+  timeline.register(SimulationPhase.SUPERNOVA, {
+    onEnter: () => host.startSupernova(),
+    onUpdate: (deltaTime, elapsed) => host.updateSupernova(deltaTime, elapsed),
+  })
+
+  timeline.register(SimulationPhase.BLACK_HOLE, {
+    onEnter: () => host.startBlackHole(),
+    onUpdate: (deltaTime) => host.updateBlackHole(deltaTime),
+  })
+
+  timeline.register(SimulationPhase.NEUTRON_STAR, {
+    onEnter: () => host.startNeutronStar(),
+    onUpdate: (deltaTime) => host.updateNeutronStar(deltaTime),
+  })
+
+  timeline.register(SimulationPhase.WHITE_DWARF, {
+    onEnter: () => host.startWhiteDwarf(),
+    onUpdate: (deltaTime, elapsed) => host.updateWhiteDwarf(deltaTime, elapsed),
+    // Only a binary white dwarf ever reaches the limit
+    isComplete: () => host.isOverChandrasekharLimit(),
+  })
+
+  timeline.register(SimulationPhase.TYPE_IA_SUPERNOVA, {
+    onEnter: () => host.startTypeIaSupernova(),
+    onUpdate: (deltaTime) => host.updateTypeIaSupernova(deltaTime),
+  })
+}
@@ -0,0 +1,62 @@
+import * as THREE from 'three'
+import { MassTransferStreamPhysics } from './physics/MassTransferStreamPhysics'
+import { BinaryOrbitPhysics, BinaryMember } from './physics/BinaryOrbitPhysics'
+
+/**
+ * MassTransferStream - Glowing gas stream from an overflowing red giant onto the other star
+ * Rendered like AccretionSource: a point cloud sharing the physics positions
+ */
+export class MassTransferStream {
+  private scene: THREE.Scene
+  public particles: THREE.Points // Public for debug toggles
+  private geometry: THREE.BufferGeometry
+  private material: THREE.PointsMaterial
+  public readonly donor: BinaryMember
+
+  // L1 spawning and infall onto the accretor (positions are shared with the geometry)
+  private physics: MassTransferStreamPhysics
+
+  constructor(scene: THREE.Scene, particleMass: number, donor: BinaryMember = 'primary') {
+    this.scene = scene
+    this.donor = donor
+    this.physics = new MassTransferStreamPhysics(1500, particleMass)
+
+    this.geometry = new THREE.BufferGeometry()
+    this.geometry.setAttribute('position', new THREE.BufferAttribute(this.physics.positions, 3))
+
+    this.material = new THREE.PointsMaterial({
+      size: 0.6,
+      color: 0xff7744, // Envelope gas, same hue as the red giant's outer layers
+      transparent: true,
+      opacity: 0.8,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      sizeAttenuation: true,
+    })
+
+    this.particles = new THREE.Points(this.geometry, this.material)
+    this.particles.frustumCulled = false // Parked particles would break the bounding sphere
+    this.particles.renderOrder = 2
+    this.scene.add(this.particles)
+  }
+
+  public update(deltaTime: number, orbit: BinaryOrbitPhysics, donorRadius: number, accretorRadius: number): void {
+    this.physics.trackBinary(orbit, donorRadius, accretorRadius, this.donor)
+    this.physics.update(deltaTime)
+    this.geometry.attributes.position.needsUpdate = true
+  }
+
+  public setConsumptionCallback(callback: (mass: number) => void): void {
+    this.physics.setConsumptionCallback(callback)
+  }
+
+  public getActiveParticleCount(): number {
+    return this.physics.getActiveParticleCount()
+  }
+
+  public dispose(): void {
+    this.scene.remove(this.particles)
+    this.geometry.dispose()
+    this.material.dispose()
+  }
+}
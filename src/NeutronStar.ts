@@ -0,0 +1,172 @@
+import * as THREE from 'three'
+import { NeutronStarPhysics } from './physics/NeutronStarPhysics'
+import { createJetTrailMaterial } from './shaders/JetTrailShader'
+
+export class NeutronStar {
+  private scene: THREE.Scene
+  private group: THREE.Group
+  private spinGroup: THREE.Group // Rotates about the spin axis (+Y)
+  private magneticGroup: THREE.Group // Tilted so its +Y is the magnetic axis
+  private core: THREE.Mesh
+  private halo: THREE.Mesh
+  private flashSprite: THREE.Sprite
+  private light: THREE.PointLight
+
+  // Lighthouse beams along both magnetic poles (shader-based, like the black hole jets)
+  public beams: THREE.Mesh[] = [] // Public for debug toggles
+  private beamMaterials: THREE.ShaderMaterial[] = []
+  private beamLength: number = 120.0
+
+  private physics: NeutronStarPhysics
+  private opacity: number = 1.0
+  private flashIntensity: number = 0
+  private time: number = 0
+
+  // Pulse detection: fires once per beam sweep, at the moment of closest approach
+  private lastAlignment: number = 0
+  private alignmentRising: boolean = false
+  private onPulse?: (strength: number) => void
+  private readonly observerDirection = new THREE.Vector3()
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene
+    this.physics = new NeutronStarPhysics()
+
+    this.group = new THREE.Group()
+    this.spinGroup = new THREE.Group()
+    this.magneticGroup = new THREE.Group()
+    // Rotating +Y by -inclination about Z gives (sin i, cos i, 0), matching the physics
+    this.magneticGroup.rotation.z = -this.physics.magneticInclination
+    this.spinGroup.add(this.magneticGroup)
+    this.group.add(this.spinGroup)
+
+    const coreGeometry = new THREE.SphereGeometry(this.physics.radius, 32, 32)
+    const coreMaterial = new THREE.MeshBasicMaterial({ color: 0xe8f0ff, transparent: true })
+    this.core = new THREE.Mesh(coreGeometry, coreMaterial)
+    this.group.add(this.core)
+
+    const haloGeometry = new THREE.SphereGeometry(this.physics.radius * 4, 32, 32)
+    const haloMaterial = new THREE.MeshBasicMaterial({
+      color: 0x99bbff,
+      transparent: true,
+      opacity: 0.3,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      side: THREE.BackSide,
+    })
+    this.halo = new THREE.Mesh(haloGeometry, haloMaterial)
+    this.group.add(this.halo)
+
+    // Camera-facing burst that lights up when a beam sweeps across the viewer
+    const flashMaterial = new THREE.SpriteMaterial({
+      color: 0xddeeff,
+      transparent: true,
+      opacity: 0,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+    })
+    this.flashSprite = new THREE.Sprite(flashMaterial)
+    this.flashSprite.scale.setScalar(6)
+    this.group.add(this.flashSprite)
+
+    this.light = new THREE.PointLight(0xaaccff, 4, 120, 2)
+    this.group.add(this.light)
+
+    this.createBeams()
+    this.scene.add(this.group)
+  }
+
+  private createBeams(): void {
+    // Narrow at the star, widening with distance; base at the origin so it pivots with the star
+    const geometry = new THREE.CylinderGeometry(
+      this.beamLength * 0.08, // radiusTop (far end)
+      this.physics.radius * 0.6, // radiusBottom (at the star)
+      this.beamLength,
+      16,
+      32,
+      true
+    )
+    geometry.translate(0, this.beamLength / 2, 0)
+
+    for (let beamIndex = 0; beamIndex < 2; beamIndex++) {
+      const material = createJetTrailMaterial(this.beamLength)
+      material.uniforms.coreColor.value = new THREE.Color(0xbbd8ff)
+      material.uniforms.glowIntensity.value = 1.6
+
+      const beam = new THREE.Mesh(beamIndex === 0 ? geometry : geometry.clone(), material)
+      if (beamIndex === 1) {
+        beam.rotation.z = Math.PI // South magnetic pole
+      }
+      beam.renderOrder = 4
+
+      this.magneticGroup.add(beam)
+      this.beams.push(beam)
+      this.beamMaterials.push(material)
+    }
+  }
+
+  public update(deltaTime: number, cameraPosition: THREE.Vector3): void {
+    this.time += deltaTime
+    this.physics.update(deltaTime)
+    this.spinGroup.rotation.y = this.physics.getRotation()
+
+    // Flash when either beam sweeps across the camera
+    this.observerDirection.copy(cameraPosition).sub(this.group.position).normalize()
+    const alignment = this.physics.getBeamAlignment(this.observerDirection)
+    this.flashIntensity = alignment * alignment
+
+    if (alignment > this.lastAlignment) {
+      this.alignmentRising = true
+    } else if (this.alignmentRising && alignment < this.lastAlignment) {
+      // Just passed the peak of this sweep
+      this.alignmentRising = false
+      if (this.onPulse) {
+        this.onPulse(this.lastAlignment)
+      }
+    }
+    this.lastAlignment = alignment
+
+    this.beamMaterials.forEach((material) => {
+      material.uniforms.time.value = this.time
+      material.uniforms.opacity.value = 0.6 * this.opacity
+    })
+
+    const flash = this.flashIntensity * this.opacity
+    ;(this.flashSprite.material as THREE.SpriteMaterial).opacity = flash
+    this.flashSprite.scale.setScalar(6 + 30 * flash)
+    ;(this.halo.material as THREE.MeshBasicMaterial).opacity = (0.3 + 0.5 * flash) * this.opacity
+    ;(this.core.material as THREE.MeshBasicMaterial).opacity = this.opacity
+    this.light.intensity = (4 + 20 * flash) * this.opacity
+  }
+
+  public setPulseCallback(callback: (strength: number) => void): void {
+    this.onPulse = callback
+  }
+
+  public setOpacity(opacity: number): void {
+    this.opacity = opacity
+  }
+
+  public getFlashIntensity(): number {
+    return this.flashIntensity * this.opacity
+  }
+
+  public getPeriod(): number {
+    return this.physics.getPeriod()
+  }
+
+  public getPosition(): THREE.Vector3 {
+    return this.group.position
+  }
+
+  public dispose(): void {
+    this.scene.remove(this.group)
+    this.core.geometry.dispose()
+    ;(this.core.material as THREE.Material).dispose()
+    this.halo.geometry.dispose()
+    ;(this.halo.material as THREE.Material).dispose()
+    ;(this.flashSprite.material as THREE.Material).dispose()
+    this.beams.forEach((beam) => beam.geometry.dispose())
+    this.beamMaterials.forEach((material) => material.dispose())
+  }
+}
@@ -0,0 +1,306 @@
+import { SimulationPhase } from './AudioManager'
+
+/**
+ * PhaseTimeline - Data-driven stellar lifecycle
+ *
+ * The lifecycle is an ordered list of phase descriptors (durations, audio
+ * crossfade times, UI text). Behaviour lives in handlers that SunSimulator
+ * registers per phase, so phases can be retimed or reordered by editing the
+ * descriptor list instead of the simulator. Camera shots are keyed by phase
+ * in cameraShots.json (see CameraDirector).
+ */
+
+export type Vec3Tuple = [number, number, number]
+
+export interface PhaseDescriptor {
+  phase: SimulationPhase
+  title: string
+  description: string
+  duration?: number // Seconds in this phase (omit for condition-driven or terminal phases)
+  estimatedDuration?: number // Nominal seconds for phases without a duration (seek bar layout)
+  audioCrossfade: number // Seconds to crossfade into this phase's soundscape
+  completionThreshold?: number // Progress (0-1) at which a condition-driven phase completes
+}
+
+export interface PhaseHandlers {
+  onEnter?: () => void
+  onUpdate?: (deltaTime: number, elapsed: number) => void
+  onExit?: () => void
+  // Completes the phase early (e.g. nebula collapse threshold), checked after onUpdate
+  isComplete?: (elapsed: number) => boolean
+  // Progress (0-1) for phases whose progress isn't a function of time
+  getProgress?: (elapsed: number) => number
+}
+
+export interface TimelinePosition {
+  phase: SimulationPhase
+  progress: number // Progress within the phase (0-1)
+}
+
+export type PhaseChangeListener = (current: PhaseDescriptor, previous: PhaseDescriptor | null) => void
+
+export const DEFAULT_PHASE_TIMELINE: PhaseDescriptor[] = [
+  {
+    phase: SimulationPhase.NEBULA_COLLAPSE,
+    title: 'Phase 1: Nebula Collapse',
+    description: 'A vast cloud of gas and dust collapses under gravity. Matter spirals inward, heating up as a protostar begins to form.',
+    estimatedDuration: 20.0, // Collapse is emergent, roughly 20 seconds at 1x
+    audioCrossfade: 0,
+    completionThreshold: 0.92 // Collapse progress at which the protostar ignites
+  },
+  {
+    phase: SimulationPhase.MAIN_SEQUENCE,
+    title: 'Phase 2: Main Sequence Star',
+    description: 'Fusion ignited! The star enters its stable life phase, burning hydrogen into helium for billions of years. Planets form in orbit.',
+    duration: 30.0, // 30 seconds in main sequence before red giant
+    audioCrossfade: 3.0
+  },
+  {
+    phase: SimulationPhase.RED_GIANT,
+    title: 'Phase 3: Red Giant Expansion',
+    description: 'Hydrogen depleted. The star swells to enormous size as it fuses helium in its core. Planets are engulfed.',
+    duration: 45.0, // 24s expansion + 21s stable red giant before supernova
+    audioCrossfade: 7.0 // Slow, smooth crossfade
+  },
+  {
+    phase: SimulationPhase.SUPERNOVA,
+    title: 'Phase 4: SUPERNOVA!',
+    description: 'Catastrophic core collapse! The star explodes with the energy of billions of suns, scattering heavy elements across the cosmos.',
+    duration: 8.0, // Supernova before black hole
+    audioCrossfade: 1.5
+  },
+  {
+    phase: SimulationPhase.BLACK_HOLE,
+    title: 'Phase 5: Black Hole',
+    description: 'The core collapses into a singularity. Matter spirals into the accretion disk, warping spacetime itself. Nothing escapes.',
+    estimatedDuration: 30.0, // Terminal phase, long enough for the accretion sources to settle
+    audioCrossfade: 3.0
+  }
+]
+
+/**
+ * Low-mass ending that replaces the supernova and black hole phases
+ * (see applyStellarProfile)
+ */
+export const WHITE_DWARF_PHASE: PhaseDescriptor = {
+  phase: SimulationPhase.WHITE_DWARF,
+  title: 'Phase 4: Planetary Nebula & White Dwarf',
+  description: 'Too light to explode, the star gently sheds its outer layers into a glowing shell of gas. Its exposed core, a white dwarf the size of Earth, slowly cools for billions of years.',
+  estimatedDuration: 40.0, // Terminal phase (unless a companion feeds it), long enough for the shell to spread out
+  audioCrossfade: 5.0
+}
+
+/**
+ * Intermediate-mass ending that replaces the black hole phase
+ * (see applyStellarProfile)
+ */
+export const NEUTRON_STAR_PHASE: PhaseDescriptor = {
+  phase: SimulationPhase.NEUTRON_STAR,
+  title: 'Phase 5: Neutron Star',
+  description: 'The core collapses into a city-sized ball of neutrons spinning rapidly. Beams from its tilted magnetic poles sweep the sky like a lighthouse: a pulsar.',
+  estimatedDuration: 30.0, // Terminal phase
+  audioCrossfade: 3.0
+}
+
+/**
+ * Binary ending after the white dwarf phase: the companion overflows onto the
+ * white dwarf until it detonates (see applyStellarProfile)
+ */
+export const TYPE_IA_SUPERNOVA_PHASE: PhaseDescriptor = {
+  phase: SimulationPhase.TYPE_IA_SUPERNOVA,
+  title: 'Phase 5: Type Ia Supernova',
+  description: 'Fed by its companion, the white dwarf crosses the Chandrasekhar limit and ignites runaway carbon fusion. The whole star is blown apart: no neutron star, no black hole, only iron-rich debris and a companion flung free.',
+  estimatedDuration: 30.0, // Terminal phase
+  audioCrossfade: 2.0
+}
+
+export class PhaseTimeline {
+  private descriptors: PhaseDescriptor[]
+  private handlers: Map<SimulationPhase, PhaseHandlers> = new Map()
+  private listeners: PhaseChangeListener[] = []
+  private index: number = -1
+  private elapsed: number = 0
+
+  constructor(descriptors: PhaseDescriptor[] = DEFAULT_PHASE_TIMELINE) {
+    if (descriptors.length === 0) {
+      throw new Error('PhaseTimeline requires at least one phase')
+    }
+    this.descriptors = descriptors
+  }
+
+  /**
+   * Swap in a retimed lifecycle (handlers are kept); call start() afterwards
+   */
+  setDescriptors(descriptors: PhaseDescriptor[]): void {
+    if (descriptors.length === 0) {
+      throw new Error('PhaseTimeline requires at least one phase')
+    }
+    this.descriptors = descriptors
+    this.index = -1
+    this.elapsed = 0
+  }
+
+  /**
+   * Register the behaviour for a phase (replaces any previous handlers)
+   */
+  register(phase: SimulationPhase, handlers: PhaseHandlers): void {
+    this.handlers.set(phase, handlers)
+  }
+
+  /**
+   * Listen for phase changes (fired after the new phase's onEnter)
+   */
+  onPhaseChange(listener: PhaseChangeListener): void {
+    this.listeners.push(listener)
+  }
+
+  /**
+   * Enter the given phase (defaults to the first) without running exit hooks
+   */
+  start(phase: SimulationPhase = this.descriptors[0].phase): void {
+    const index = this.indexOf(phase)
+    if (index < 0) {
+      throw new Error(`Phase not in timeline: ${phase}`)
+    }
+    this.enter(index, null)
+  }
+
+  /**
+   * Advance phase time and run the current phase's update handler
+   */
+  update(deltaTime: number): void {
+    const current = this.getCurrent()
+    if (!current) return
+
+    this.elapsed += deltaTime
+    const handlers = this.handlers.get(current.phase)
+    handlers?.onUpdate?.(deltaTime, this.elapsed)
+
+    // A handler may have advanced the timeline itself
+    if (this.getCurrent() !== current) return
+
+    const timedOut = current.duration !== undefined && this.elapsed >= current.duration
+    const completed = handlers?.isComplete?.(this.elapsed) ?? false
+    if (timedOut || completed) {
+      this.advance()
+    }
+  }
+
+  /**
+   * Move to the next phase; the last phase is terminal
+   */
+  advance(): void {
+    if (this.index < 0 || this.index >= this.descriptors.length - 1) return
+
+    const previous = this.descriptors[this.index]
+    this.handlers.get(previous.phase)?.onExit?.()
+    this.enter(this.index + 1, previous)
+  }
+
+  getCurrent(): PhaseDescriptor | null {
+    return this.descriptors[this.index] ?? null
+  }
+
+  getCurrentPhase(): SimulationPhase | null {
+    return this.getCurrent()?.phase ?? null
+  }
+
+  getDescriptor(phase: SimulationPhase): PhaseDescriptor | undefined {
+    return this.descriptors.find(d => d.phase === phase)
+  }
+
+  getDescriptors(): readonly PhaseDescriptor[] {
+    return this.descriptors
+  }
+
+  indexOf(phase: SimulationPhase): number {
+    return this.descriptors.findIndex(d => d.phase === phase)
+  }
+
+  /**
+   * Seconds spent in the current phase
+   */
+  getElapsed(): number {
+    return this.elapsed
+  }
+
+  /**
+   * Progress through the current phase (0-1)
+   */
+  getProgress(): number {
+    const current = this.getCurrent()
+    if (!current) return 0
+
+    const handlers = this.handlers.get(current.phase)
+    if (handlers?.getProgress) {
+      return Math.min(Math.max(handlers.getProgress(this.elapsed), 0), 1.0)
+    }
+
+    const span = this.getSpan(current)
+    if (span <= 0) return 0
+    return Math.min(this.elapsed / span, 1.0)
+  }
+
+  /**
+   * Seconds a phase occupies on the global timeline
+   */
+  getSpan(descriptor: PhaseDescriptor): number {
+    return descriptor.duration ?? descriptor.estimatedDuration ?? 0
+  }
+
+  getTotalSpan(): number {
+    return this.descriptors.reduce((total, d) => total + this.getSpan(d), 0)
+  }
+
+  /**
+   * Map a phase and its progress to a position on the whole lifecycle (0-1)
+   */
+  toGlobalPosition(phase: SimulationPhase, progress: number): number {
+    const total = this.getTotalSpan()
+    const index = this.indexOf(phase)
+    if (total <= 0 || index < 0) return 0
+
+    let start = 0
+    for (let i = 0; i < index; i++) {
+      start += this.getSpan(this.descriptors[i])
+    }
+    const clamped = Math.min(Math.max(progress, 0), 1.0)
+    return (start + clamped * this.getSpan(this.descriptors[index])) / total
+  }
+
+  /**
+   * Inverse of toGlobalPosition
+   */
+  fromGlobalPosition(position: number): TimelinePosition {
+    const total = this.getTotalSpan()
+    let remaining = Math.min(Math.max(position, 0), 1.0) * total
+
+    for (const descriptor of this.descriptors) {
+      const span = this.getSpan(descriptor)
+      if (span > 0 && remaining < span) {
+        return { phase: descriptor.phase, progress: remaining / span }
+      }
+      remaining -= span
+    }
+
+    const last = this.descriptors[this.descriptors.length - 1]
+    return { phase: last.phase, progress: 1.0 }
+  }
+
+  /**
+   * Position of the current moment on the whole lifecycle (0-1)
+   */
+  getGlobalPosition(): number {
+    const current = this.getCurrent()
+    if (!current) return 0
+    return this.toGlobalPosition(current.phase, this.getProgress())
+  }
+
+  private enter(index: number, previous: PhaseDescriptor | null): void {
+    this.index = index
+    this.elapsed = 0
+    const current = this.descriptors[index]
+    this.handlers.get(current.phase)?.onEnter?.()
+    this.listeners.forEach(listener => listener(current, previous))
+  }
+}
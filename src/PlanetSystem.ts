@@ -1,6 +1,8 @@
 import * as THREE from 'three'
+import { PlanetSystemPhysics } from './physics/PlanetSystemPhysics'
+import { TweenScheduler, Tween } from './TweenScheduler'
 
-interface PlanetConfig {
+export interface PlanetConfig {
   name: string
   radius: number
   orbitRadius: number
@@ -11,55 +13,63 @@ interface PlanetConfig {
   atmosphereColor?: number
 }
 
+/** Planets around the main sequence star (orbits are shared with headless runs) */
+export const PLANET_CONFIGS: PlanetConfig[] = [
+  {
+    name: 'Mercury',
+    radius: 0.4,
+    orbitRadius: 8,
+    orbitSpeed: 1.6,
+    color: 0x8c7853,
+  },
+  {
+    name: 'Venus',
+    radius: 0.9,
+    orbitRadius: 12,
+    orbitSpeed: 1.2,
+    color: 0xffc649,
+    hasAtmosphere: true,
+    atmosphereColor: 0xffaa00,
+  },
+  {
+    name: 'Earth',
+    radius: 1.0,
+    orbitRadius: 16,
+    orbitSpeed: 1.0,
+    color: 0x2233ff,
+    emissive: 0x001133,
+    hasAtmosphere: true,
+    atmosphereColor: 0x4488ff,
+  },
+  {
+    name: 'Mars',
+    radius: 0.5,
+    orbitRadius: 20,
+    orbitSpeed: 0.8,
+    color: 0xdc4b3c,
+  },
+]
+
 export class PlanetSystem {
   private scene: THREE.Scene
   private planets: THREE.Mesh[] = []
   private orbits: THREE.Line[] = []
-  private planetData: PlanetConfig[] = [
-    {
-      name: 'Mercury',
-      radius: 0.4,
-      orbitRadius: 8,
-      orbitSpeed: 1.6,
-      color: 0x8c7853,
-    },
-    {
-      name: 'Venus',
-      radius: 0.9,
-      orbitRadius: 12,
-      orbitSpeed: 1.2,
-      color: 0xffc649,
-      hasAtmosphere: true,
-      atmosphereColor: 0xffaa00,
-    },
-    {
-      name: 'Earth',
-      radius: 1.0,
-      orbitRadius: 16,
-      orbitSpeed: 1.0,
-      color: 0x2233ff,
-      emissive: 0x001133,
-      hasAtmosphere: true,
-      atmosphereColor: 0x4488ff,
-    },
-    {
-      name: 'Mars',
-      radius: 0.5,
-      orbitRadius: 20,
-      orbitSpeed: 0.8,
-      color: 0xdc4b3c,
-    },
-  ]
-  private orbitAngles: number[] = []
+  private planetData: PlanetConfig[] = PLANET_CONFIGS
+  // Orbits and engulfment (meshes follow the physics positions)
+  private physics: PlanetSystemPhysics
   private time: number = 0
   private isVisible: boolean = true
   private fadeProgress: number = 0
   private isFading: boolean = false
   private atmospheres: THREE.Mesh[] = []
-  private engulfedPlanets: Set<number> = new Set()
+  private tweens: TweenScheduler
+  private engulfTweens: Tween[] = []
 
-  constructor(scene: THREE.Scene) {
+  constructor(scene: THREE.Scene, tweens: TweenScheduler) {
     this.scene = scene
+    this.tweens = tweens
+    this.physics = new PlanetSystemPhysics(this.planetData)
+    this.physics.setEngulfedCallback((index) => this.engulfPlanet(index))
     this.createPlanets()
     this.createOrbits()
   }
@@ -93,7 +103,7 @@ export class PlanetSystem {
   }
 
   private createPlanets(): void {
-    this.planetData.forEach((planetConfig, _index) => {
+    this.planetData.forEach((planetConfig, index) => {
       // Create planet
       const geometry = new THREE.SphereGeometry(planetConfig.radius, 32, 32)
       const material = new THREE.MeshStandardMaterial({
@@ -106,12 +116,9 @@ export class PlanetSystem {
 
       const planet = new THREE.Mesh(geometry, material)
 
-      // Set initial position (random angle around orbit)
-      const initialAngle = Math.random() * Math.PI * 2
-      this.orbitAngles.push(initialAngle)
-
-      planet.position.x = Math.cos(initialAngle) * planetConfig.orbitRadius
-      planet.position.z = Math.sin(initialAngle) * planetConfig.orbitRadius
+      // Initial position (random angle around orbit, chosen by the physics)
+      planet.position.x = this.physics.getPositionX(index)
+      planet.position.z = this.physics.getPositionZ(index)
 
       this.planets.push(planet)
       this.scene.add(planet)
@@ -141,23 +148,17 @@ export class PlanetSystem {
   public update(deltaTime: number, starRadius: number = 4.0): void {
     this.time += deltaTime
 
-    // Update each planet's orbit
+    // Advance orbits (may engulf planets via the callback)
+    this.physics.update(deltaTime, starRadius)
+
+    // Update each planet's mesh from its orbit
     this.planets.forEach((planet, index) => {
-      // Skip if engulfed
-      if (this.engulfedPlanets.has(index)) {
+      // Engulfed planets are animated by engulfPlanet
+      if (this.physics.isEngulfed(index)) {
         return
       }
 
-      const planetConfig = this.planetData[index]
-
-      // Update orbit angle
-      this.orbitAngles[index] += deltaTime * planetConfig.orbitSpeed * 0.1
-
-      // Calculate new position
-      const x = Math.cos(this.orbitAngles[index]) * planetConfig.orbitRadius
-      const z = Math.sin(this.orbitAngles[index]) * planetConfig.orbitRadius
-
-      planet.position.set(x, 0, z)
+      planet.position.set(this.physics.getPositionX(index), 0, this.physics.getPositionZ(index))
 
       // Update atmosphere position if it exists
       if (this.atmospheres[index]) {
@@ -166,12 +167,6 @@ export class PlanetSystem {
 
       // Rotate planet on its axis
       planet.rotation.y += deltaTime * 0.5
-
-      // Check if planet should be engulfed by star
-      const distanceFromStar = Math.sqrt(x * x + z * z)
-      if (distanceFromStar < starRadius * 1.2 && !this.engulfedPlanets.has(index)) {
-        this.engulfPlanet(index)
-      }
     })
 
     // Handle fading
@@ -185,7 +180,7 @@ export class PlanetSystem {
       const opacity = this.isVisible ? this.fadeProgress : (1.0 - this.fadeProgress)
 
       this.planets.forEach((planet, index) => {
-        if (!this.engulfedPlanets.has(index)) {
+        if (!this.physics.isEngulfed(index)) {
           const material = planet.material as THREE.MeshStandardMaterial
           material.transparent = true
           material.opacity = opacity
@@ -204,24 +199,37 @@ export class PlanetSystem {
     }
   }
 
-  private engulfPlanet(index: number): void {
-    this.engulfedPlanets.add(index)
+  public getPlanetNames(): string[] {
+    return this.planetData.map((planet) => planet.name)
+  }
 
+  /**
+   * Where a planet is (pulled into the star while being engulfed)
+   * @returns false once it has been swallowed and removed
+   */
+  public getPlanetPosition(index: number, out: THREE.Vector3): boolean {
     const planet = this.planets[index]
-    const atmosphere = this.atmospheres[index]
+    if (!planet?.parent) return false
+    out.copy(planet.position)
+    return true
+  }
 
-    // Dramatic fade out and removal
-    let fadeTime = 0
-    const fadeDuration = 2.0
+  public isEngulfed(index: number): boolean {
+    return this.physics.isEngulfed(index)
+  }
 
-    const fadeInterval = setInterval(() => {
-      fadeTime += 0.016
-      const fadeProgress = fadeTime / fadeDuration
+  private engulfPlanet(index: number): void {
+    const planet = this.planets[index]
+    const atmosphere = this.atmospheres[index]
+    const material = planet.material as THREE.MeshStandardMaterial
+    const startPosition = planet.position.clone()
+    material.transparent = true
 
-      if (fadeProgress < 1.0) {
+    // Dramatic fade out and removal
+    const tween = this.tweens.add({
+      duration: 2.0,
+      onUpdate: (fadeProgress, elapsed) => {
         const opacity = 1.0 - fadeProgress
-        const material = planet.material as THREE.MeshStandardMaterial
-        material.transparent = true
         material.opacity = opacity
 
         // Make planet glow as it's engulfed
@@ -232,20 +240,21 @@ export class PlanetSystem {
           atmMaterial.opacity = 0.2 * opacity
         }
 
-        // Planet gets pulled toward star center
-        planet.position.multiplyScalar(0.98)
+        // Planet gets pulled toward star center (2% closer every 16ms)
+        planet.position.copy(startPosition).multiplyScalar(Math.pow(0.98, elapsed / 0.016))
         if (atmosphere) {
           atmosphere.position.copy(planet.position)
         }
-      } else {
+      },
+      onComplete: () => {
         // Remove planet
         this.scene.remove(planet)
         if (atmosphere) {
           this.scene.remove(atmosphere)
         }
-        clearInterval(fadeInterval)
-      }
-    }, 16)
+      },
+    })
+    this.engulfTweens.push(tween)
   }
 
   public show(): void {
@@ -261,6 +270,9 @@ export class PlanetSystem {
   }
 
   public dispose(): void {
+    this.engulfTweens.forEach((tween) => tween.cancel())
+    this.engulfTweens = []
+
     this.planets.forEach((planet) => {
       planet.geometry.dispose()
       ;(planet.material as THREE.Material).dispose()
@@ -0,0 +1,165 @@
+/**
+ * QualitySettings - Rendering presets and adaptive quality
+ *
+ * A preset sizes the heavy particle systems and sets the pixel ratio and the
+ * optional post passes. Particle counts go through the same scale as
+ * ?particles=, so fewer particles each carry more mass and the black hole
+ * still grows at the same rate. Counts and geometry apply to systems built
+ * after a change; pixel ratio and passes apply at once. A preset's passes are
+ * a ceiling: the bloom, grain and vignette toggles can switch off what it
+ * allows, but the preset never switches them back on.
+ */
+
+export type QualityLevel = 'low' | 'medium' | 'high' | 'ultra'
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high', 'ultra']
+
+export interface QualityPreset {
+  /** Multiplier on nebula (20000), remnant (8000) and accretion (1000) particle counts */
+  particleScale: number
+  /** Stellar wind particles per star */
+  starSurfaceParticles: number
+  /** Width and height segments of the event horizon sphere */
+  eventHorizonSegments: number
+  /** Cap on the device pixel ratio */
+  maxPixelRatio: number
+  bloom: boolean
+  filmGrain: boolean
+  vignette: boolean
+}
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  low: {
+    particleScale: 0.3,
+    starSurfaceParticles: 400,
+    eventHorizonSegments: 48,
+    maxPixelRatio: 1,
+    bloom: false,
+    filmGrain: false,
+    vignette: false,
+  },
+  medium: {
+    particleScale: 0.6,
+    starSurfaceParticles: 800,
+    eventHorizonSegments: 96,
+    maxPixelRatio: 1.5,
+    bloom: true,
+    filmGrain: false,
+    vignette: true,
+  },
+  // The original hardcoded values
+  high: {
+    particleScale: 1,
+    starSurfaceParticles: 1200,
+    eventHorizonSegments: 128,
+    maxPixelRatio: 2,
+    bloom: true,
+    filmGrain: true,
+    vignette: true,
+  },
+  ultra: {
+    particleScale: 2,
+    starSurfaceParticles: 2000,
+    eventHorizonSegments: 192,
+    maxPixelRatio: 3,
+    bloom: true,
+    filmGrain: true,
+    vignette: true,
+  },
+}
+
+/** ?quality= value: a level, 'auto', or null when unrecognised */
+export function parseQuality(value: string | null): QualityLevel | 'auto' | null {
+  if (value === 'auto') return 'auto'
+  return QUALITY_LEVELS.find((level) => level === value) ?? null
+}
+
+/** The next level down, or null at the bottom */
+export function lowerQuality(level: QualityLevel): QualityLevel | null {
+  const index = QUALITY_LEVELS.indexOf(level)
+  return index > 0 ? QUALITY_LEVELS[index - 1] : null
+}
+
+/** Post passes the user has left on */
+export interface PassToggles {
+  bloom: boolean
+  filmGrain: boolean
+  vignette: boolean
+}
+
+/**
+ * Whether stepping between levels lightens frames straight away: a lower
+ * pixel ratio, or a running pass switched off. Particle counts and detail
+ * only shrink as systems are rebuilt, so a step that changes nothing else
+ * can't lift the frame rate the adaptive window is watching
+ */
+export function relievesImmediately(
+  from: QualityLevel,
+  to: QualityLevel,
+  devicePixelRatio: number,
+  toggles: PassToggles
+): boolean {
+  const current = QUALITY_PRESETS[from]
+  const next = QUALITY_PRESETS[to]
+  if (Math.min(devicePixelRatio, next.maxPixelRatio) < Math.min(devicePixelRatio, current.maxPixelRatio)) {
+    return true
+  }
+  const passes: (keyof PassToggles)[] = ['bloom', 'filmGrain', 'vignette']
+  return passes.some((pass) => toggles[pass] && current[pass] && !next[pass])
+}
+
+export interface AdaptiveQualityOptions {
+  /** Frame rate to hold */
+  targetFps: number
+  /** How long (seconds) the average must stay under target before stepping down */
+  window: number
+  /** Frames longer than this (seconds) are ignored: tab switches, seeks, GC stalls */
+  maxFrameTime: number
+}
+
+const DEFAULT_ADAPTIVE_OPTIONS: AdaptiveQualityOptions = {
+  targetFps: 45,
+  window: 3,
+  maxFrameTime: 0.25,
+}
+
+/**
+ * Watches frame times and says when to step quality down: once the average
+ * frame rate over a full window is below target. The window restarts after
+ * each decision, so the new level gets a fair trial before the next one.
+ */
+export class AdaptiveQuality {
+  private options: AdaptiveQualityOptions
+  private elapsed: number = 0
+  private frames: number = 0
+
+  constructor(options: Partial<AdaptiveQualityOptions> = {}) {
+    this.options = { ...DEFAULT_ADAPTIVE_OPTIONS, ...options }
+  }
+
+  /**
+   * Record one frame (seconds since the previous one)
+   * @returns true when the window closed over budget
+   */
+  sample(frameTime: number): boolean {
+    if (frameTime <= 0 || frameTime > this.options.maxFrameTime) {
+      return false
+    }
+
+    this.elapsed += frameTime
+    this.frames++
+    if (this.elapsed < this.options.window) {
+      return false
+    }
+
+    const averageFps = this.frames / this.elapsed
+    this.reset()
+    return averageFps < this.options.targetFps
+  }
+
+  /** Start a fresh window (e.g. after a quality change or a pause) */
+  reset(): void {
+    this.elapsed = 0
+    this.frames = 0
+  }
+}
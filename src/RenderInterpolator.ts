@@ -0,0 +1,129 @@
+import * as THREE from 'three'
+
+/**
+ * RenderInterpolator - Smooth rendering between fixed simulation steps
+ *
+ * The simulation advances in fixed steps, so a rendered frame usually falls
+ * between two of them. Before the final step of a frame we snapshot the tracked
+ * particle buffers and object transforms; at render time they are blended toward
+ * the current step by the leftover accumulator fraction, then restored so the
+ * simulation never sees interpolated values.
+ */
+
+// Per-component jump beyond which we snap instead of blending (respawns, parked particles)
+const TELEPORT_THRESHOLD = 50
+
+interface AttributeTrack {
+  attribute: THREE.BufferAttribute
+  previous: Float32Array
+  current: Float32Array
+}
+
+interface ObjectTrack {
+  object: THREE.Object3D
+  previousPosition: THREE.Vector3
+  previousQuaternion: THREE.Quaternion
+  currentPosition: THREE.Vector3
+  currentQuaternion: THREE.Quaternion
+}
+
+export class RenderInterpolator {
+  private attributeTracks: AttributeTrack[] = []
+  private objectTracks: ObjectTrack[] = []
+  private applied: boolean = false
+
+  /**
+   * Snapshot the state before a simulation step
+   */
+  capture(attributes: THREE.BufferAttribute[], objects: THREE.Object3D[]): void {
+    // Tracks are reused while the same attribute or object stays tracked, so
+    // steady frames copy into existing snapshots instead of allocating
+    const attributeTracks = new Map(this.attributeTracks.map((track) => [track.attribute, track]))
+    this.attributeTracks = attributes.map((attribute) => {
+      const array = attribute.array as Float32Array
+      let track = attributeTracks.get(attribute)
+      if (!track || track.previous.length !== array.length) {
+        track = { attribute, previous: new Float32Array(array.length), current: new Float32Array(array.length) }
+      }
+      track.previous.set(array)
+      return track
+    })
+
+    const objectTracks = new Map(this.objectTracks.map((track) => [track.object, track]))
+    this.objectTracks = objects.map((object) => {
+      const track = objectTracks.get(object) ?? {
+        object,
+        previousPosition: new THREE.Vector3(),
+        previousQuaternion: new THREE.Quaternion(),
+        currentPosition: new THREE.Vector3(),
+        currentQuaternion: new THREE.Quaternion(),
+      }
+      track.previousPosition.copy(object.position)
+      track.previousQuaternion.copy(object.quaternion)
+      return track
+    })
+  }
+
+  /**
+   * Drop snapshots (no step ran this frame, or the scene was rebuilt)
+   */
+  clear(): void {
+    this.attributeTracks = []
+    this.objectTracks = []
+  }
+
+  /**
+   * Blend tracked state toward the latest step (alpha 0 = previous, 1 = current)
+   */
+  apply(alpha: number): void {
+    const t = THREE.MathUtils.clamp(alpha, 0, 1)
+
+    this.attributeTracks.forEach((track) => {
+      const array = track.attribute.array as Float32Array
+      if (array.length !== track.previous.length) return
+
+      track.current.set(array)
+      for (let i = 0; i < array.length; i++) {
+        const from = track.previous[i]
+        const to = track.current[i]
+        if (Math.abs(to - from) < TELEPORT_THRESHOLD) {
+          array[i] = from + (to - from) * t
+        }
+      }
+      track.attribute.needsUpdate = true
+    })
+
+    this.objectTracks.forEach((track) => {
+      const object = track.object
+      track.currentPosition.copy(object.position)
+      track.currentQuaternion.copy(object.quaternion)
+      if (track.currentPosition.distanceTo(track.previousPosition) < TELEPORT_THRESHOLD) {
+        object.position.lerpVectors(track.previousPosition, track.currentPosition, t)
+      }
+      object.quaternion.slerpQuaternions(track.previousQuaternion, track.currentQuaternion, t)
+    })
+
+    this.applied = true
+  }
+
+  /**
+   * Put the simulation state back after rendering
+   */
+  restore(): void {
+    if (!this.applied) return
+
+    this.attributeTracks.forEach((track) => {
+      const array = track.attribute.array as Float32Array
+      if (array.length !== track.current.length) return
+      array.set(track.current)
+      track.attribute.needsUpdate = true
+    })
+
+    this.objectTracks.forEach((track) => {
+      track.object.position.copy(track.currentPosition)
+      track.object.quaternion.copy(track.currentQuaternion)
+    })
+
+    this.applied = false
+  }
+}
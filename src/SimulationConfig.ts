@@ -0,0 +1,391 @@
+import { QualityLevel, QUALITY_LEVELS } from './QualitySettings'
+import {
+  StellarProfile,
+  createStellarProfile,
+  MIN_STELLAR_MASS,
+  MAX_STELLAR_MASS,
+  DEFAULT_STELLAR_MASS,
+} from './StellarProfile'
+import { Random } from './utils/Random'
+
+/**
+ * SimulationConfig - Every shareable tunable in one typed object
+ *
+ * The schema below lists each setting by its dotted path with a default and
+ * the values it accepts. Overrides come from URL query parameters
+ * (`?nebula.collapseSpeed=12`, plus the older short forms like `?binary`) or
+ * from a JSON file with the same nested shape as SimulationConfig. Invalid
+ * overrides are reported and skipped, never clamped, so a shared setup either
+ * loads exactly or says what it couldn't apply. Fields marked `restart` only
+ * take effect when the lifecycle is rebuilt; the rest can change live.
+ */
+
+export interface SimulationConfig {
+  seed: number | null // null = a fresh seed on each load
+  star: {
+    mass: number // Initial mass (M☉), picks the ending
+    binary: boolean
+    redGiantRadius: number | null // null = derived from mass
+    expansionDuration: number | null // null = derived from mass
+  }
+  nebula: {
+    selfGravity: boolean
+    collapseSpeed: number
+    swirlStrength: number
+    softening: number
+  }
+  blackHole: {
+    baseRadius: number
+    jetLength: number
+    spin: number // Kerr spin parameter a (0 = Schwarzschild)
+  }
+  timers: {
+    mainSequenceDuration: number | null // null = derived from mass
+    redGiantDuration: number | null // null = derived from mass
+    transitionDuration: number // Main sequence entry: protostar to star crossfade
+  }
+  rendering: {
+    quality: QualityLevel | 'auto'
+    particleScale: number
+    workers: boolean // Allow worker particle physics (where supported)
+    gpu: boolean // Allow GPU particle physics (where supported)
+  }
+  view: {
+    bloomStrength: number // Any bloom setting off its default overrides the per-phase bloom
+    bloomThreshold: number
+    bloomRadius: number
+    eventHorizonGlow: number
+    lensingStrength: number
+  }
+}
+
+export type ConfigPath =
+  | 'seed'
+  | 'star.mass'
+  | 'star.binary'
+  | 'star.redGiantRadius'
+  | 'star.expansionDuration'
+  | 'nebula.selfGravity'
+  | 'nebula.collapseSpeed'
+  | 'nebula.swirlStrength'
+  | 'nebula.softening'
+  | 'blackHole.baseRadius'
+  | 'blackHole.jetLength'
+  | 'blackHole.spin'
+  | 'timers.mainSequenceDuration'
+  | 'timers.redGiantDuration'
+  | 'timers.transitionDuration'
+  | 'rendering.quality'
+  | 'rendering.particleScale'
+  | 'rendering.workers'
+  | 'rendering.gpu'
+  | 'view.bloomStrength'
+  | 'view.bloomThreshold'
+  | 'view.bloomRadius'
+  | 'view.eventHorizonGlow'
+  | 'view.lensingStrength'
+
+interface FieldBase {
+  label: string
+  restart?: boolean // Applies when the lifecycle is rebuilt, not live
+}
+
+export interface NumberField extends FieldBase {
+  type: 'number'
+  default: number | null
+  min: number
+  max: number
+  step: number
+  integer?: boolean
+  nullable?: boolean // null means "work it out" (see SimulationConfig)
+}
+
+export interface BooleanField extends FieldBase {
+  type: 'boolean'
+  default: boolean
+}
+
+export interface ChoiceField extends FieldBase {
+  type: 'choice'
+  default: string
+  options: readonly string[]
+}
+
+export type ConfigField = NumberField | BooleanField | ChoiceField
+
+export const SIMULATION_CONFIG_SCHEMA: Record<ConfigPath, ConfigField> = {
+  seed: {
+    type: 'number',
+    label: 'Seed',
+    default: null,
+    min: 0,
+    max: 0xffffffff,
+    step: 1,
+    integer: true,
+    nullable: true,
+    restart: true,
+  },
+  'star.mass': {
+    type: 'number',
+    label: 'Initial mass (M☉)',
+    default: DEFAULT_STELLAR_MASS,
+    min: MIN_STELLAR_MASS,
+    max: MAX_STELLAR_MASS,
+    step: 0.5,
+    restart: true,
+  },
+  'star.binary': { type: 'boolean', label: 'Binary companion', default: false, restart: true },
+  'star.redGiantRadius': {
+    type: 'number',
+    label: 'Red giant radius',
+    default: null,
+    min: 5,
+    max: 60,
+    step: 0.5,
+    nullable: true,
+    restart: true,
+  },
+  'star.expansionDuration': {
+    type: 'number',
+    label: 'Red giant expansion (s)',
+    default: null,
+    min: 1,
+    max: 120,
+    step: 1,
+    nullable: true,
+    restart: true,
+  },
+  'nebula.selfGravity': { type: 'boolean', label: 'Self-gravity', default: false, restart: true },
+  'nebula.collapseSpeed': { type: 'number', label: 'Collapse speed', default: 9.5, min: 0, max: 40, step: 0.5, restart: true },
+  'nebula.swirlStrength': {
+    type: 'number',
+    label: 'Swirl strength',
+    default: 0.001,
+    min: 0,
+    max: 0.01,
+    step: 0.0001,
+    restart: true,
+  },
+  'nebula.softening': { type: 'number', label: 'Softening', default: 1.2, min: 0.1, max: 10, step: 0.1, restart: true },
+  'blackHole.baseRadius': { type: 'number', label: 'Horizon radius', default: 12, min: 4, max: 30, step: 0.5, restart: true },
+  'blackHole.jetLength': { type: 'number', label: 'Jet length', default: 250, min: 0, max: 600, step: 10, restart: true },
+  'blackHole.spin': { type: 'number', label: 'Spin (a)', default: 0, min: 0, max: 0.998, step: 0.002 },
+  'timers.mainSequenceDuration': {
+    type: 'number',
+    label: 'Main sequence (s)',
+    default: null,
+    min: 5,
+    max: 300,
+    step: 1,
+    nullable: true,
+    restart: true,
+  },
+  'timers.redGiantDuration': {
+    type: 'number',
+    label: 'Red giant (s)',
+    default: null,
+    min: 5,
+    max: 300,
+    step: 1,
+    nullable: true,
+    restart: true,
+  },
+  'timers.transitionDuration': {
+    type: 'number',
+    label: 'Ignition crossfade (s)',
+    default: 3,
+    min: 0,
+    max: 10,
+    step: 0.1,
+    restart: true,
+  },
+  // Rendering settings apply to whatever is built next (quality's pixel ratio and passes at once)
+  'rendering.quality': { type: 'choice', label: 'Quality', default: 'high', options: [...QUALITY_LEVELS, 'auto'] },
+  'rendering.particleScale': { type: 'number', label: 'Particle scale', default: 1, min: 0.1, max: 10, step: 0.1 },
+  'rendering.workers': { type: 'boolean', label: 'Worker particles', default: true },
+  'rendering.gpu': { type: 'boolean', label: 'GPU particles', default: true },
+  'view.bloomStrength': { type: 'number', label: 'Bloom strength', default: 0.8, min: 0, max: 5, step: 0.1 },
+  'view.bloomThreshold': { type: 'number', label: 'Bloom threshold', default: 0.85, min: 0, max: 1, step: 0.05 },
+  'view.bloomRadius': { type: 'number', label: 'Bloom radius', default: 0.4, min: 0, max: 2, step: 0.1 },
+  'view.eventHorizonGlow': { type: 'number', label: 'Horizon glow', default: 2, min: 0, max: 20, step: 0.5 },
+  'view.lensingStrength': { type: 'number', label: 'Lensing', default: 0.8, min: 0, max: 5, step: 0.1 },
+}
+
+export const CONFIG_PATHS = Object.keys(SIMULATION_CONFIG_SCHEMA) as ConfigPath[]
+
+// Short URL forms from before the schema: name → path (negated ones switch a
+// setting off, so ?nogpu, ?nogpu=1 and ?nogpu=true all mean rendering.gpu=false)
+const URL_ALIASES: Record<string, { path: ConfigPath; negated?: boolean }> = {
+  binary: { path: 'star.binary' },
+  selfgravity: { path: 'nebula.selfGravity' },
+  particles: { path: 'rendering.particleScale' },
+  quality: { path: 'rendering.quality' },
+  noworkers: { path: 'rendering.workers', negated: true },
+  nogpu: { path: 'rendering.gpu', negated: true },
+}
+
+export interface ConfigResult {
+  config: SimulationConfig
+  errors: string[] // One line per override that was skipped
+}
+
+export function isConfigPath(path: string): path is ConfigPath {
+  return Object.prototype.hasOwnProperty.call(SIMULATION_CONFIG_SCHEMA, path)
+}
+
+export function getConfigValue(config: SimulationConfig, path: ConfigPath): unknown {
+  const [group, key] = path.split('.')
+  const node = (config as unknown as Record<string, unknown>)[group]
+  return key === undefined ? node : (node as Record<string, unknown>)[key]
+}
+
+/** Write a value in place; validate it first (see validateConfigValue) */
+export function setConfigValue(config: SimulationConfig, path: ConfigPath, value: unknown): void {
+  const [group, key] = path.split('.')
+  const root = config as unknown as Record<string, unknown>
+  if (key === undefined) {
+    root[group] = value
+  } else {
+    ;(root[group] as Record<string, unknown>)[key] = value
+  }
+}
+
+export function createDefaultConfig(): SimulationConfig {
+  const config = { star: {}, nebula: {}, blackHole: {}, timers: {}, rendering: {}, view: {} } as SimulationConfig
+  CONFIG_PATHS.forEach((path) => setConfigValue(config, path, SIMULATION_CONFIG_SCHEMA[path].default))
+  return config
+}
+
+/** Why a value can't go at this path, or null if it can */
+export function validateConfigValue(path: ConfigPath, value: unknown): string | null {
+  const field = SIMULATION_CONFIG_SCHEMA[path]
+
+  switch (field.type) {
+    case 'number':
+      if (value === null) {
+        return field.nullable ? null : `"${path}" can't be null`
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `"${path}" must be a number`
+      }
+      if (field.integer && !Number.isInteger(value)) {
+        return `"${path}" must be a whole number`
+      }
+      if (value < field.min || value > field.max) {
+        return `"${path}" must be between ${field.min} and ${field.max}`
+      }
+      return null
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `"${path}" must be true or false`
+    case 'choice':
+      return typeof value === 'string' && field.options.includes(value)
+        ? null
+        : `"${path}" must be one of ${field.options.join(', ')}`
+  }
+}
+
+/**
+ * New config with overrides applied on top of `base`. Overrides may be nested
+ * like SimulationConfig, or flat with dotted keys
+ */
+export function applyConfigOverrides(base: SimulationConfig, overrides: unknown): ConfigResult {
+  const config = structuredClone(base)
+  const errors: string[] = []
+
+  if (!isPlainObject(overrides)) {
+    return { config, errors: ['Config must be a JSON object'] }
+  }
+
+  for (const [path, value] of flatten(overrides)) {
+    if (!isConfigPath(path)) {
+      errors.push(`Unknown setting "${path}"`)
+      continue
+    }
+    const error = validateConfigValue(path, value)
+    if (error) {
+      errors.push(error)
+    } else {
+      setConfigValue(config, path, value)
+    }
+  }
+
+  return { config, errors }
+}
+
+/** Overrides from a page URL's query string: dotted paths plus the short forms */
+export function configFromUrl(params: URLSearchParams, base: SimulationConfig = createDefaultConfig()): ConfigResult {
+  const overrides: Record<string, unknown> = {}
+
+  params.forEach((raw, name) => {
+    const alias = URL_ALIASES[name]
+    if (alias) {
+      const value = parseUrlValue(alias.path, raw)
+      // Anything that isn't a boolean goes through as is, to fail validation
+      overrides[alias.path] = alias.negated && typeof value === 'boolean' ? !value : value
+    } else if (name === 'seed') {
+      // Any text works as a seed (hashed), as it always has
+      overrides.seed = Random.parseSeed(raw)
+    } else if (name.includes('.')) {
+      overrides[name] = isConfigPath(name) ? parseUrlValue(name, raw) : raw
+    }
+    // Anything else (tracking parameters and the like) isn't ours
+  })
+
+  return applyConfigOverrides(base, overrides)
+}
+
+/** Overrides from the text of an uploaded JSON file */
+export function configFromJson(text: string, base: SimulationConfig = createDefaultConfig()): ConfigResult {
+  let overrides: unknown
+  try {
+    overrides = JSON.parse(text)
+  } catch {
+    return { config: structuredClone(base), errors: ['Not a valid JSON file'] }
+  }
+  return applyConfigOverrides(base, overrides)
+}
+
+/**
+ * Stellar profile for the configured mass, with any explicit radius and
+ * timing overrides. Expansion keeps its share of the red giant phase unless
+ * set itself
+ */
+export function createConfiguredProfile(config: SimulationConfig): StellarProfile {
+  const profile = createStellarProfile(config.star.mass)
+  const redGiantDuration = config.timers.redGiantDuration ?? profile.redGiantDuration
+
+  return {
+    ...profile,
+    mainSequenceDuration: config.timers.mainSequenceDuration ?? profile.mainSequenceDuration,
+    redGiantDuration,
+    redGiantRadius: config.star.redGiantRadius ?? profile.redGiantRadius,
+    expansionDuration:
+      config.star.expansionDuration ?? profile.expansionDuration * (redGiantDuration / profile.redGiantDuration),
+  }
+}
+
+function parseUrlValue(path: ConfigPath, raw: string): unknown {
+  const field = SIMULATION_CONFIG_SCHEMA[path]
+  switch (field.type) {
+    case 'number':
+      if (field.nullable && (raw === '' || raw === 'null')) return null
+      return raw.trim() === '' ? raw : Number(raw) // Non-numbers fail validation with a clear message
+    case 'boolean':
+      if (raw === '' || raw === 'true' || raw === '1') return true
+      if (raw === 'false' || raw === '0') return false
+      return raw
+    case 'choice':
+      return raw
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function flatten(overrides: Record<string, unknown>, prefix: string = ''): [string, unknown][] {
+  return Object.entries(overrides).flatMap(([key, value]): [string, unknown][] => {
+    const path = prefix + key
+    return isPlainObject(value) ? flatten(value, `${path}.`) : [[path, value]]
+  })
+}
@@ -1,11 +1,14 @@
 import * as THREE from 'three'
 import { SupernovaFlash } from './SupernovaFlash'
 import { Noise3D } from './utils/Noise'
+import { Random } from './utils/Random'
+import { StarPhysics, StarPhysicsOptions } from './physics/StarPhysics'
 
 export class Star {
   private star!: THREE.Mesh
   private starLight!: THREE.PointLight
   private scene: THREE.Scene
+  private group: THREE.Group // Everything but the supernova flash; moved as a whole in binaries
   private time: number = 0
 
   // Corona particles for outer atmosphere
@@ -37,7 +40,7 @@ export class Star {
   public surfaceParticles!: THREE.Points
   private surfaceGeometry!: THREE.BufferGeometry
   private surfaceMaterial!: THREE.ShaderMaterial // Custom shader for per-particle sizes
-  private surfaceCount: number = 1200 // Subtle stellar wind for main sequence
+  private surfaceCount: number // Subtle stellar wind for main sequence (1200 at high quality)
   private surfacePositions!: Float32Array
   private surfaceVelocities!: Float32Array
   private surfaceSizes!: Float32Array // Per-particle size for growth effect (rendered size)
@@ -61,21 +64,17 @@ export class Star {
   private beamOpacities: number[] = []
   private beamPulsePhases: number[] = []
 
-  private starRadius: number = 4.0 // Main sequence star - compact and stable
+  private starRadius: number // Main sequence star - compact and stable
   private initialRadius: number // Start size (from protostar)
   private currentRadius: number // Current size during contraction
-  private contractionDuration: number = 3.0 // 3 seconds to contract
-  private contractionTime: number = 0
+
+  // Radius evolution (contraction, red giant expansion)
+  private physics: StarPhysics
 
   // No fade in needed - start at full opacity for seamless transition
   // private currentOpacity: number = 1.0 // Unused for now
 
-  // Red giant expansion state
-  private isRedGiant: boolean = false
-  private redGiantRadius: number = 25.0 // Massive red giant size
-  private expansionDuration: number = 24.0 // 24 seconds to expand (3x longer for demo)
-  private expansionTime: number = 0
-  private expansionStartRadius: number = 4.0
+  // Red giant pulsing
   private irregularPulseOffset: number = 0 // Random variation in pulsing
   private currentPulse: number = 1.0 // Current breathing pulse value (1.0 = baseline)
 
@@ -98,10 +97,26 @@ export class Star {
   private collapseDuration: number = 1.5 // 1.5 seconds for core collapse
   private collapseStartScale: number = 1.0
 
-  constructor(scene: THREE.Scene, initialRadius: number = 4.8) {
+  // Low-mass ending: envelope lifts off, leaving the core
+  private isShedding: boolean = false
+
+  // Binary companion: mass gained from the partner makes it bigger and hotter
+  private accretionHeating: number = 0 // 0 = untouched, 1 = fully rejuvenated (blue)
+
+  constructor(
+    scene: THREE.Scene,
+    initialRadius: number = 4.8,
+    options: StarPhysicsOptions = {},
+    surfaceCount: number = 1200
+  ) {
+    this.surfaceCount = surfaceCount
     this.initialRadius = initialRadius
     this.currentRadius = initialRadius // Start at whatever size the protostar was
+    this.physics = new StarPhysics(initialRadius, options)
+    this.starRadius = this.physics.getMainSequenceRadius()
     this.scene = scene
+    this.group = new THREE.Group()
+    this.scene.add(this.group)
 
     // Create main star sphere
     this.createStar()
@@ -141,7 +156,7 @@ export class Star {
 
     this.shockwave = new THREE.Mesh(geometry, this.shockwaveMaterial)
     this.shockwave.rotation.x = Math.PI / 2 // Orient horizontally
-    this.scene.add(this.shockwave)
+    this.group.add(this.shockwave)
   }
 
   private createSurfaceTexture(): void {
@@ -157,9 +172,9 @@ export class Star {
       const i3 = i * 3
 
       // Place on star surface with slight depth variation
-      const theta = Math.random() * Math.PI * 2
-      const phi = Math.acos(2 * Math.random() - 1)
-      const radiusVariation = 0.95 + Math.random() * 0.1 // 0.95-1.05 of star radius
+      const theta = Random.next() * Math.PI * 2
+      const phi = Math.acos(2 * Random.next() - 1)
+      const radiusVariation = 0.95 + Random.next() * 0.1 // 0.95-1.05 of star radius
 
       const x = this.starRadius * radiusVariation * Math.sin(phi) * Math.cos(theta)
       const y = this.starRadius * radiusVariation * Math.sin(phi) * Math.sin(theta)
@@ -205,7 +220,7 @@ export class Star {
     })
 
     this.surfaceTexture = new THREE.Points(this.surfaceTextureGeometry, this.surfaceTextureMaterial)
-    this.scene.add(this.surfaceTexture)
+    this.group.add(this.surfaceTexture)
   }
 
   private createRedGiantLayers(): void {
@@ -222,7 +237,7 @@ export class Star {
       side: THREE.BackSide // Render from inside for depth
     })
     this.redGiantInnerLayer = new THREE.Mesh(innerGeometry, innerMaterial)
-    this.scene.add(this.redGiantInnerLayer)
+    this.group.add(this.redGiantInnerLayer)
 
     // Mid layer (medium brightness)
     const midGeometry = new THREE.SphereGeometry(1, 32, 32)
@@ -234,7 +249,7 @@ export class Star {
       side: THREE.BackSide
     })
     this.redGiantMidLayer = new THREE.Mesh(midGeometry, midMaterial)
-    this.scene.add(this.redGiantMidLayer)
+    this.group.add(this.redGiantMidLayer)
 
     // Outer layer (dimmest, most diffuse)
     const outerGeometry = new THREE.SphereGeometry(1, 32, 32)
@@ -246,7 +261,7 @@ export class Star {
       side: THREE.BackSide
     })
     this.redGiantOuterLayer = new THREE.Mesh(outerGeometry, outerMaterial)
-    this.scene.add(this.redGiantOuterLayer)
+    this.group.add(this.redGiantOuterLayer)
   }
 
   private createStar(): void {
@@ -262,12 +277,12 @@ export class Star {
 
     this.star = new THREE.Mesh(geometry, material)
     this.star.scale.setScalar(this.currentRadius / this.starRadius) // Start at protostar size
-    this.scene.add(this.star)
+    this.group.add(this.star)
 
     // Main star light - bright and far-reaching
     this.starLight = new THREE.PointLight(0xffffcc, 15, 150)
     this.starLight.position.set(0, 0, 0)
-    this.scene.add(this.starLight)
+    this.group.add(this.starLight)
   }
 
   private createCorona(): void {
@@ -280,9 +295,9 @@ export class Star {
       const i3 = i * 3
 
       // Corona very tight to star surface - use INITIAL radius so it's visible from start
-      const radius = this.initialRadius * (1.02 + Math.random() * 0.06) // Very tight: 1.02-1.08x star size
-      const theta = Math.random() * Math.PI * 2
-      const phi = Math.acos(2 * Math.random() - 1)
+      const radius = this.initialRadius * (1.02 + Random.next() * 0.06) // Very tight: 1.02-1.08x star size
+      const theta = Random.next() * Math.PI * 2
+      const phi = Math.acos(2 * Random.next() - 1)
 
       this.coronaPositions[i3] = radius * Math.sin(phi) * Math.cos(theta)
       this.coronaPositions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
@@ -302,7 +317,7 @@ export class Star {
     })
 
     this.corona = new THREE.Points(this.coronaGeometry, this.coronaMaterial)
-    this.scene.add(this.corona)
+    this.group.add(this.corona)
   }
 
   private createSurfaceActivity(): void {
@@ -319,21 +334,21 @@ export class Star {
       const i3 = i * 3
 
       // Place on star surface
-      const theta = Math.random() * Math.PI * 2
-      const phi = Math.acos(2 * Math.random() - 1)
+      const theta = Random.next() * Math.PI * 2
+      const phi = Math.acos(2 * Random.next() - 1)
 
       this.surfacePositions[i3] = this.starRadius * Math.sin(phi) * Math.cos(theta)
       this.surfacePositions[i3 + 1] = this.starRadius * Math.sin(phi) * Math.sin(theta)
       this.surfacePositions[i3 + 2] = this.starRadius * Math.cos(phi)
 
       // Initial velocities pointing outward (stellar wind / solar flares)
-      const speed = 0.03 + Math.random() * 0.08 // Balanced speed
+      const speed = 0.03 + Random.next() * 0.08 // Balanced speed
       this.surfaceVelocities[i3] = this.surfacePositions[i3] / this.starRadius * speed
       this.surfaceVelocities[i3 + 1] = this.surfacePositions[i3 + 1] / this.starRadius * speed
       this.surfaceVelocities[i3 + 2] = this.surfacePositions[i3 + 2] / this.starRadius * speed
 
       // Initialize base size (will grow with distance during red giant)
-      const baseSize = 0.5 + Math.random() * 0.5 // 0.5-1.0 base size (subtle but visible)
+      const baseSize = 0.5 + Random.next() * 0.5 // 0.5-1.0 base size (subtle but visible)
       this.surfaceSizes[i] = baseSize
       this.surfaceBaseSizes[i] = baseSize // Store original size for growth calculations
 
@@ -391,7 +406,7 @@ export class Star {
     })
 
     this.surfaceParticles = new THREE.Points(this.surfaceGeometry, this.surfaceMaterial)
-    this.scene.add(this.surfaceParticles)
+    this.group.add(this.surfaceParticles)
   }
 
   private createStreakParticles(): void {
@@ -407,21 +422,21 @@ export class Star {
       const i3 = i * 3
 
       // Random position on star surface
-      const theta = Math.random() * Math.PI * 2
-      const phi = Math.acos(2 * Math.random() - 1)
+      const theta = Random.next() * Math.PI * 2
+      const phi = Math.acos(2 * Random.next() - 1)
 
       this.streakPositions[i3] = this.starRadius * Math.sin(phi) * Math.cos(theta)
       this.streakPositions[i3 + 1] = this.starRadius * Math.sin(phi) * Math.sin(theta)
       this.streakPositions[i3 + 2] = this.starRadius * Math.cos(phi)
 
       // Faster velocities than base particles (2-3x speed)
-      const speed = 0.08 + Math.random() * 0.12 // 0.08-0.20 (vs base 0.03-0.11)
+      const speed = 0.08 + Random.next() * 0.12 // 0.08-0.20 (vs base 0.03-0.11)
       this.streakVelocities[i3] = this.streakPositions[i3] / this.starRadius * speed
       this.streakVelocities[i3 + 1] = this.streakPositions[i3 + 1] / this.starRadius * speed
       this.streakVelocities[i3 + 2] = this.streakPositions[i3 + 2] / this.starRadius * speed
 
       // Smaller size for streaks (0.3-0.6)
-      this.streakSizes[i] = 0.3 + Math.random() * 0.3
+      this.streakSizes[i] = 0.3 + Random.next() * 0.3
 
       // Brighter white color
       this.streakColors[i3] = 1.0     // R
@@ -477,7 +492,7 @@ export class Star {
     })
 
     this.streakParticles = new THREE.Points(this.streakGeometry, this.streakMaterial)
-    this.scene.add(this.streakParticles)
+    this.group.add(this.streakParticles)
   }
 
   private createHeroBeams(): void {
@@ -486,16 +501,16 @@ export class Star {
 
     for (let i = 0; i < this.beamCount; i++) {
       // Random direction from star center
-      const theta = Math.random() * Math.PI * 2
-      const phi = Math.acos(2 * Math.random() - 1)
+      const theta = Random.next() * Math.PI * 2
+      const phi = Math.acos(2 * Random.next() - 1)
 
       const dirX = Math.sin(phi) * Math.cos(theta)
       const dirY = Math.sin(phi) * Math.sin(theta)
       const dirZ = Math.cos(phi)
 
       // Create elongated beam geometry (thin cylinder/cone)
-      const beamLength = 15 + Math.random() * 10 // 15-25 units long
-      const beamWidth = 0.15 + Math.random() * 0.1 // 0.15-0.25 wide
+      const beamLength = 15 + Random.next() * 10 // 15-25 units long
+      const beamWidth = 0.15 + Random.next() * 0.1 // 0.15-0.25 wide
 
       const geometry = new THREE.CylinderGeometry(beamWidth, beamWidth * 0.3, beamLength, 8, 1, true)
 
@@ -559,10 +574,10 @@ export class Star {
       this.heroBeams.add(beam)
       this.beamMeshes.push(beam)
       this.beamOpacities.push(0.0)
-      this.beamPulsePhases.push(Math.random() * Math.PI * 2) // Random phase offset
+      this.beamPulsePhases.push(Random.next() * Math.PI * 2) // Random phase offset
     }
 
-    this.scene.add(this.heroBeams)
+    this.group.add(this.heroBeams)
   }
 
   public update(deltaTime: number): void {
@@ -656,32 +671,13 @@ export class Star {
     }
 
     // Calculate expansion progress (needed for particle colors later)
-    const expansionProgress = this.isRedGiant
-      ? Math.min(this.expansionTime / this.expansionDuration, 1.0)
-      : 0
+    const expansionProgress = this.physics.getExpansionProgress()
 
-    // Skip normal star behavior during supernova
-    if (!this.isSupernova) {
-      // Smooth contraction from protostar size to main sequence size
-      if (this.contractionTime < this.contractionDuration) {
-        this.contractionTime += deltaTime
-        const contractionProgress = Math.min(this.contractionTime / this.contractionDuration, 1.0)
-        // Use easeOutCubic for smooth deceleration
-        const eased = 1 - Math.pow(1 - contractionProgress, 3)
-        // Contract from initial size (whatever protostar was) to final main sequence size
-        this.currentRadius = THREE.MathUtils.lerp(this.initialRadius, this.starRadius, eased)
-      } else if (this.isRedGiant && this.expansionTime < this.expansionDuration) {
-        // Red giant expansion - dramatic size increase
-        this.expansionTime += deltaTime
-        const expansionProgress = Math.min(this.expansionTime / this.expansionDuration, 1.0)
-        // Use easeInOutQuad for smooth acceleration and deceleration
-        const eased = expansionProgress < 0.5
-          ? 2 * expansionProgress * expansionProgress
-          : 1 - Math.pow(-2 * expansionProgress + 2, 2) / 2
-        this.currentRadius = THREE.MathUtils.lerp(this.expansionStartRadius, this.redGiantRadius, eased)
-      } else if (!this.isRedGiant) {
-        this.currentRadius = this.starRadius
-      }
+    // Skip normal star behavior during supernova or envelope shedding
+    if (!this.isSupernova && !this.isShedding) {
+      // Contraction to main sequence, then red giant expansion
+      this.physics.update(deltaTime)
+      this.currentRadius = this.physics.getRadius()
 
       // Pulse effect - larger and slower for red giants with irregular variation
       const pulseFrequency = this.isRedGiant ? 0.3 : 0.5
@@ -690,7 +686,7 @@ export class Star {
       let pulse: number
       if (this.isRedGiant) {
         // Irregular pulsing for red giant - add chaos
-        this.irregularPulseOffset += (Math.random() - 0.5) * 0.02
+        this.irregularPulseOffset += (Random.next() - 0.5) * 0.02
         this.irregularPulseOffset *= 0.98 // Decay for stability
         const irregularPulse = Math.sin(this.time * pulseFrequency + this.irregularPulseOffset) * pulseAmplitude
         const secondaryPulse = Math.sin(this.time * 0.15) * 0.02 // Slower secondary breathing
@@ -726,6 +722,11 @@ export class Star {
         material.transparent = true
         const opacityProgress = Math.max(0, (expansionProgress - 0.3) / 0.7) // Start at 30% expansion
         material.opacity = THREE.MathUtils.lerp(1.0, 0.7, opacityProgress) // More transparent to show inner layers
+      } else if (this.accretionHeating > 0) {
+        // Accreting companion burns hotter - shift toward blue-white
+        material.color.lerpColors(new THREE.Color(0xffff88), new THREE.Color(0xcce0ff), this.accretionHeating)
+        material.emissive.lerpColors(new THREE.Color(0xffff44), new THREE.Color(0x88aaff), this.accretionHeating)
+        this.starLight.color.copy(material.color)
       }
 
       // Pulsing light intensity - dimmer for red giants (cooler surface)
@@ -934,7 +935,7 @@ export class Star {
         const distanceRatio = (distance / this.currentRadius) / 28.0 // 0-1 over max distance
 
         // Fade in size growth with expansion (0 at start -> 19.0 at full expansion = 20x size)
-        const currentExpansionProgress = Math.min(this.expansionTime / this.expansionDuration, 1.0)
+        const currentExpansionProgress = this.physics.getExpansionProgress()
         const sizeGrowth = 19.0 * currentExpansionProgress
 
         sizes[i] = baseSize * (1.0 + distanceRatio * sizeGrowth)
@@ -950,8 +951,8 @@ export class Star {
       // DON'T reset during supernova - let them fly away forever
       const maxDistance = this.isRedGiant ? 28 : 15 // Red giants: wisps travel much further
       if (!this.isSupernova && distance > this.currentRadius * maxDistance) { // Scale with current star size
-        const theta = Math.random() * Math.PI * 2
-        const phi = Math.acos(2 * Math.random() - 1)
+        const theta = Random.next() * Math.PI * 2
+        const phi = Math.acos(2 * Random.next() - 1)
 
         // Spawn at current star surface
         const spawnRadius = this.currentRadius
@@ -962,7 +963,7 @@ export class Star {
         // Red giants have much slower, gentle stellar wind (visible wisps near surface)
         const baseSpeed = this.isRedGiant ? 0.01 : 0.03
         const speedVariation = this.isRedGiant ? 0.02 : 0.08
-        const speed = baseSpeed + Math.random() * speedVariation
+        const speed = baseSpeed + Random.next() * speedVariation
 
         velocities[i3] = (positions[i3] / spawnRadius) * speed
         velocities[i3 + 1] = (positions[i3 + 1] / spawnRadius) * speed
@@ -1002,15 +1003,15 @@ export class Star {
 
         // Reset particles that go too far (shorter travel than base particles)
         if (distance > this.currentRadius * 10) { // Streaks don't travel as far
-          const theta = Math.random() * Math.PI * 2
-          const phi = Math.acos(2 * Math.random() - 1)
+          const theta = Random.next() * Math.PI * 2
+          const phi = Math.acos(2 * Random.next() - 1)
 
           const spawnRadius = this.currentRadius
           streakPositions[i3] = spawnRadius * Math.sin(phi) * Math.cos(theta)
           streakPositions[i3 + 1] = spawnRadius * Math.sin(phi) * Math.sin(theta)
           streakPositions[i3 + 2] = spawnRadius * Math.cos(phi)
 
-          const speed = 0.08 + Math.random() * 0.12
+          const speed = 0.08 + Random.next() * 0.12
           streakVelocities[i3] = (streakPositions[i3] / spawnRadius) * speed
           streakVelocities[i3 + 1] = (streakPositions[i3 + 1] / spawnRadius) * speed
           streakVelocities[i3 + 2] = (streakPositions[i3 + 2] / spawnRadius) * speed
@@ -1062,13 +1063,8 @@ export class Star {
     }
   }
 
-  public startRedGiantExpansion(): void {
-    if (this.isRedGiant) return // Already expanding
-
-    this.isRedGiant = true
-    this.expansionTime = 0
-    this.expansionStartRadius = this.currentRadius
-
+  public startRedGiantExpansion(redGiantRadius?: number): void {
+    this.physics.startRedGiantExpansion(redGiantRadius)
   }
 
   public isInRedGiantPhase(): boolean {
@@ -1076,8 +1072,36 @@ export class Star {
   }
 
   public getExpansionProgress(): number {
-    if (!this.isRedGiant) return 0
-    return Math.min(this.expansionTime / this.expansionDuration, 1.0)
+    return this.physics.getExpansionProgress()
+  }
+
+  public getRedGiantRadius(): number {
+    return this.physics.getRedGiantRadius()
+  }
+
+  public getRadius(): number {
+    return this.currentRadius
+  }
+
+  public setPosition(position: THREE.Vector3): void {
+    this.group.position.copy(position)
+  }
+
+  public getPosition(): THREE.Vector3 {
+    return this.group.position
+  }
+
+  /**
+   * Binary companion gaining mass from its partner: a more massive main
+   * sequence star is larger and hotter (massRatio = current / initial mass)
+   */
+  public setAccretedMassRatio(massRatio: number): void {
+    this.physics.setAccretedMassRatio(massRatio)
+    this.accretionHeating = THREE.MathUtils.clamp(massRatio - 1, 0, 1)
+  }
+
+  private get isRedGiant(): boolean {
+    return this.physics.isRedGiant()
   }
 
   public startCollapse(): void {
@@ -1097,16 +1121,7 @@ export class Star {
     // Trigger core collapse simultaneously (physically accurate)
     this.startCollapse()
 
-    // Hide red giant volumetric layers (set opacity AND visibility to prevent rendering interference)
-    const innerMaterial = this.redGiantInnerLayer.material as THREE.MeshBasicMaterial
-    const midMaterial = this.redGiantMidLayer.material as THREE.MeshBasicMaterial
-    const outerMaterial = this.redGiantOuterLayer.material as THREE.MeshBasicMaterial
-    innerMaterial.opacity = 0
-    midMaterial.opacity = 0
-    outerMaterial.opacity = 0
-    this.redGiantInnerLayer.visible = false
-    this.redGiantMidLayer.visible = false
-    this.redGiantOuterLayer.visible = false
+    this.hideRedGiantLayers()
 
     // Create dramatic scene-filling flash
     this.supernovaFlash = new SupernovaFlash(this.scene)
@@ -1123,7 +1138,7 @@ export class Star {
       const z = this.surfacePositions[i3 + 2]
 
       const distance = Math.sqrt(x * x + y * y + z * z) || 1
-      const explosionSpeed = 0.5 + Math.random() * 0.3 // Very fast
+      const explosionSpeed = 0.5 + Random.next() * 0.3 // Very fast
 
       // Blast outward from center
       this.surfaceVelocities[i3] = (x / distance) * explosionSpeed
@@ -1132,6 +1147,31 @@ export class Star {
     }
   }
 
+  /**
+   * Low-mass ending: the envelope drifts away (rendered by the planetary nebula)
+   * and the star shrinks down to its exposed core
+   */
+  public shedEnvelope(): void {
+    if (this.isShedding) return
+
+    this.isShedding = true
+    this.startCollapse()
+    this.hideRedGiantLayers()
+  }
+
+  private hideRedGiantLayers(): void {
+    // Hide red giant volumetric layers (set opacity AND visibility to prevent rendering interference)
+    const innerMaterial = this.redGiantInnerLayer.material as THREE.MeshBasicMaterial
+    const midMaterial = this.redGiantMidLayer.material as THREE.MeshBasicMaterial
+    const outerMaterial = this.redGiantOuterLayer.material as THREE.MeshBasicMaterial
+    innerMaterial.opacity = 0
+    midMaterial.opacity = 0
+    outerMaterial.opacity = 0
+    this.redGiantInnerLayer.visible = false
+    this.redGiantMidLayer.visible = false
+    this.redGiantOuterLayer.visible = false
+  }
+
   public isInSupernovaPhase(): boolean {
     return this.isSupernova
   }
@@ -1142,17 +1182,7 @@ export class Star {
 
   public dispose(): void {
     // Remove all meshes from scene
-    this.scene.remove(this.star)
-    this.scene.remove(this.starLight)
-    this.scene.remove(this.shockwave)
-    this.scene.remove(this.surfaceTexture)
-    this.scene.remove(this.corona)
-    this.scene.remove(this.surfaceParticles)
-    this.scene.remove(this.streakParticles)
-    this.scene.remove(this.heroBeams)
-    this.scene.remove(this.redGiantInnerLayer)
-    this.scene.remove(this.redGiantMidLayer)
-    this.scene.remove(this.redGiantOuterLayer)
+    this.scene.remove(this.group)
 
     // Dispose geometries and materials
     this.star.geometry.dispose()
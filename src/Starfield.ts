@@ -1,4 +1,5 @@
 import * as THREE from 'three'
+import { Random } from './utils/Random'
 
 export class Starfield {
   private stars: THREE.Points
@@ -16,16 +17,16 @@ export class Starfield {
       const i3 = i * 3
 
       // Random position in a large sphere
-      const radius = 300 + Math.random() * 200
-      const theta = Math.random() * Math.PI * 2
-      const phi = Math.acos(2 * Math.random() - 1)
+      const radius = 300 + Random.next() * 200
+      const theta = Random.next() * Math.PI * 2
+      const phi = Math.acos(2 * Random.next() - 1)
 
       positions[i3] = radius * Math.sin(phi) * Math.cos(theta)
       positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
       positions[i3 + 2] = radius * Math.cos(phi)
 
       // Star colors - most white, some slightly colored
-      const colorType = Math.random()
+      const colorType = Random.next()
       if (colorType < 0.7) {
         // White stars
         colors[i3] = 1.0
@@ -44,7 +45,7 @@ export class Starfield {
       }
 
       // Random sizes - most small, some larger
-      sizes[i] = Math.random() < 0.9 ? 0.5 + Math.random() * 0.5 : 1.0 + Math.random() * 1.5
+      sizes[i] = Random.next() < 0.9 ? 0.5 + Random.next() * 0.5 : 1.0 + Random.next() * 1.5
     }
 
     this.geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
@@ -0,0 +1,96 @@
+import * as THREE from 'three'
+import { SimulationPhase } from './AudioManager'
+import { PhaseDescriptor, WHITE_DWARF_PHASE, NEUTRON_STAR_PHASE, TYPE_IA_SUPERNOVA_PHASE } from './PhaseTimeline'
+
+/**
+ * StellarProfile - Lifecycle parameters derived from a star's initial mass
+ *
+ * Masses are in solar masses. The end state follows the usual thresholds:
+ * below ~8 M☉ a white dwarf, up to ~20 M☉ a neutron star, above that a black
+ * hole. Timings are compressed for the demo: heavier stars burn faster.
+ */
+
+export type RemnantType = 'white-dwarf' | 'neutron-star' | 'black-hole'
+
+export interface StellarProfile {
+  mass: number // Initial mass (M☉)
+  remnant: RemnantType
+  mainSequenceDuration: number // Seconds
+  redGiantDuration: number // Seconds
+  redGiantRadius: number // Scene units at full expansion
+  expansionDuration: number // Seconds of the red giant phase spent expanding
+  whiteDwarfMass: number // Core left behind if the star ends as a white dwarf (M☉)
+}
+
+export const MIN_STELLAR_MASS = 0.5
+export const MAX_STELLAR_MASS = 40
+export const DEFAULT_STELLAR_MASS = 25 // Reproduces the original black hole lifecycle
+
+export const WHITE_DWARF_MASS_LIMIT = 8
+export const NEUTRON_STAR_MASS_LIMIT = 20
+
+export const REMNANT_LABELS: Record<RemnantType, string> = {
+  'white-dwarf': 'White dwarf',
+  'neutron-star': 'Neutron star',
+  'black-hole': 'Black hole',
+}
+
+export function getRemnantType(mass: number): RemnantType {
+  if (mass < WHITE_DWARF_MASS_LIMIT) return 'white-dwarf'
+  if (mass < NEUTRON_STAR_MASS_LIMIT) return 'neutron-star'
+  return 'black-hole'
+}
+
+export function createStellarProfile(mass: number): StellarProfile {
+  const clampedMass = THREE.MathUtils.clamp(mass, MIN_STELLAR_MASS, MAX_STELLAR_MASS)
+  // Relative to the default star, so the default mass keeps the original timings
+  const relativeMass = clampedMass / DEFAULT_STELLAR_MASS
+
+  const redGiantDuration = THREE.MathUtils.clamp(45 * Math.pow(relativeMass, -0.2), 35, 75)
+
+  return {
+    mass: clampedMass,
+    remnant: getRemnantType(clampedMass),
+    // Real lifetimes scale roughly as M^-2.5; flattened so light stars don't stall the demo
+    mainSequenceDuration: THREE.MathUtils.clamp(30 * Math.pow(relativeMass, -0.35), 20, 90),
+    redGiantDuration,
+    // Supergiants swell further; a Sun-like star stops short of the outer planets
+    redGiantRadius: 12 + 13 * Math.sqrt(relativeMass),
+    expansionDuration: redGiantDuration * (24 / 45),
+    // Linear initial-final mass relation fitted to white dwarfs in open clusters
+    whiteDwarfMass: 0.109 * clampedMass + 0.394,
+  }
+}
+
+// Phases only stars that die in a core collapse go through
+const CORE_COLLAPSE_PHASES = [SimulationPhase.SUPERNOVA, SimulationPhase.BLACK_HOLE]
+
+/**
+ * Copy of the descriptor list retimed for the given profile, with the ending
+ * swapped for the profile's remnant: a planetary nebula when the star is too
+ * light to explode, a neutron star when it explodes but can't form a black hole.
+ * In a binary the white dwarf goes on to a Type Ia supernova.
+ */
+export function applyStellarProfile(
+  descriptors: PhaseDescriptor[],
+  profile: StellarProfile,
+  binary: boolean = false
+): PhaseDescriptor[] {
+  const whiteDwarfEnding = binary ? [WHITE_DWARF_PHASE, TYPE_IA_SUPERNOVA_PHASE] : [WHITE_DWARF_PHASE]
+  const lifecycle = profile.remnant === 'white-dwarf'
+    ? [...descriptors.filter((d) => !CORE_COLLAPSE_PHASES.includes(d.phase)), ...whiteDwarfEnding]
+    : descriptors
+
+  return lifecycle.map((descriptor) => {
+    switch (descriptor.phase) {
+      case SimulationPhase.BLACK_HOLE:
+        return profile.remnant === 'neutron-star' ? NEUTRON_STAR_PHASE : descriptor
+      case SimulationPhase.MAIN_SEQUENCE:
+        return { ...descriptor, duration: profile.mainSequenceDuration }
+      case SimulationPhase.RED_GIANT:
+        return { ...descriptor, duration: profile.redGiantDuration }
+      default:
+        return descriptor
+    }
+  })
+}
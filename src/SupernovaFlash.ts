@@ -1,8 +1,27 @@
 import * as THREE from 'three'
+import { Random } from './utils/Random'
+
+export interface SupernovaFlashOptions {
+  duration?: number
+  peakIntensity?: number // Flash light intensity at its brightest
+  coreScale?: [number, number] // Core sprite size at the start and end of the flash
+  colors?: [number, number, number] // Peak, middle and late tint
+}
+
+/** Thermonuclear flash: brighter and longer than core collapse, cooling through nickel-56 yellows */
+export const TYPE_IA_FLASH: SupernovaFlashOptions = {
+  duration: 4.5,
+  peakIntensity: 6000,
+  coreScale: [120, 360],
+  colors: [0xffffff, 0xfff0b0, 0xffa040],
+}
 
 export class SupernovaFlash {
-  private readonly duration = 3.0 // Longer, more dramatic flash
+  private readonly duration: number
   private readonly peakTime = 0.3 // Peak brightness at 30%
+  private readonly peakIntensity: number
+  private readonly coreScale: [number, number]
+  private readonly colors: THREE.Color[]
 
   private time = 0
   private scene: THREE.Scene
@@ -24,9 +43,14 @@ export class SupernovaFlash {
   private flashLight: THREE.PointLight
   private disposed = false
 
-  constructor(scene: THREE.Scene) {
+  constructor(scene: THREE.Scene, options: SupernovaFlashOptions = {}) {
     this.scene = scene
     this.group = new THREE.Group()
+    this.duration = options.duration ?? 3.0 // Longer, more dramatic flash
+    this.peakIntensity = options.peakIntensity ?? 3000
+    this.coreScale = options.coreScale ?? [80, 250]
+    // Default: white → blue → purple
+    this.colors = (options.colors ?? [0xffffff, 0x4488ff, 0x8844ff]).map((hex) => new THREE.Color(hex))
 
     // Create multiple shockwave rings at different scales and speeds
     const ringGeometry = new THREE.RingGeometry(1, 1.3, 64)
@@ -62,9 +86,9 @@ export class SupernovaFlash {
       this.particlePositions[i3 + 2] = 0
 
       // Random velocities in all directions
-      const theta = Math.random() * Math.PI * 2
-      const phi = Math.acos(2 * Math.random() - 1)
-      const speed = 0.5 + Math.random() * 1.5
+      const theta = Random.next() * Math.PI * 2
+      const phi = Math.acos(2 * Random.next() - 1)
+      const speed = 0.5 + Random.next() * 1.5
 
       this.particleVelocities[i3] = Math.sin(phi) * Math.cos(theta) * speed
       this.particleVelocities[i3 + 1] = Math.sin(phi) * Math.sin(theta) * speed
@@ -95,11 +119,11 @@ export class SupernovaFlash {
     })
 
     this.coreSprite = new THREE.Sprite(spriteMaterial)
-    this.coreSprite.scale.set(80, 80, 80) // Massive sprite
+    this.coreSprite.scale.setScalar(this.coreScale[0]) // Massive sprite
     this.group.add(this.coreSprite)
 
     // Insanely bright light - even more intense
-    this.flashLight = new THREE.PointLight(0xffffff, 3000, 1500)
+    this.flashLight = new THREE.PointLight(0xffffff, this.peakIntensity, 1500)
     this.group.add(this.flashLight)
 
     this.scene.add(this.group)
@@ -143,32 +167,20 @@ export class SupernovaFlash {
     this.burstGeometry.attributes.position.needsUpdate = true
 
     // Expand sprite dramatically
-    const spriteScale = THREE.MathUtils.lerp(80, 250, progress)
+    const spriteScale = THREE.MathUtils.lerp(this.coreScale[0], this.coreScale[1], progress)
     this.coreSprite.scale.set(spriteScale, spriteScale, spriteScale)
 
     const spriteMaterial = this.coreSprite.material as THREE.SpriteMaterial
 
-    // Color progression: white → blue → purple
+    // Color progression: peak → middle → late tint
+    const [peakColor, middleColor, lateColor] = this.colors
     let color: THREE.Color
     if (progress < 0.3) {
-      // White peak
-      color = new THREE.Color(0xffffff)
+      color = peakColor.clone()
     } else if (progress < 0.6) {
-      // White → blue
-      const blueProgress = (progress - 0.3) / 0.3
-      color = new THREE.Color().lerpColors(
-        new THREE.Color(0xffffff),
-        new THREE.Color(0x4488ff),
-        blueProgress
-      )
+      color = new THREE.Color().lerpColors(peakColor, middleColor, (progress - 0.3) / 0.3)
     } else {
-      // Blue → purple
-      const purpleProgress = (progress - 0.6) / 0.4
-      color = new THREE.Color().lerpColors(
-        new THREE.Color(0x4488ff),
-        new THREE.Color(0x8844ff),
-        purpleProgress
-      )
+      color = new THREE.Color().lerpColors(middleColor, lateColor, (progress - 0.6) / 0.4)
     }
 
     // Apply color to all elements
@@ -185,13 +197,13 @@ export class SupernovaFlash {
       const riseProgress = this.time / this.peakTime
       spriteMaterial.opacity = THREE.MathUtils.lerp(0, 1.0, riseProgress)
       this.burstMaterial.opacity = THREE.MathUtils.lerp(0, 1.0, riseProgress)
-      this.flashLight.intensity = THREE.MathUtils.lerp(0, 3000, riseProgress)
+      this.flashLight.intensity = THREE.MathUtils.lerp(0, this.peakIntensity, riseProgress)
     } else {
       // Fading out
       const fadeProgress = (this.time - this.peakTime) / (this.duration - this.peakTime)
       spriteMaterial.opacity = THREE.MathUtils.lerp(1.0, 0, fadeProgress)
       this.burstMaterial.opacity = THREE.MathUtils.lerp(1.0, 0, fadeProgress)
-      this.flashLight.intensity = THREE.MathUtils.lerp(3000, 0, fadeProgress)
+      this.flashLight.intensity = THREE.MathUtils.lerp(this.peakIntensity, 0, fadeProgress)
     }
 
     if (this.time >= this.duration) {
@@ -1,4 +1,58 @@
 import * as THREE from 'three'
+import { Random } from './utils/Random'
+import { SupernovaRemnantPhysics } from './physics/SupernovaRemnantPhysics'
+import {
+  ParticleBackendOptions,
+  MAIN_THREAD_BACKEND,
+  SupernovaRemnantPhysicsView,
+  SupernovaRemnantPhysicsWorker,
+} from './physics/ParticleWorkerBackend'
+import { SupernovaRemnantPhysicsGpu, readPositionsFromTexture } from './GpuParticlePhysics'
+
+type ShellColor = { r: number; g: number; b: number }
+
+const OUTER_SHELL_SAMPLES = 64 // Particles sampled to measure the outer shell
+
+export interface RemnantShellOptions {
+  particleCount?: number
+  shellCount?: number
+  expansionSpeed?: number
+  shellColors?: ShellColor[]
+  opacity?: number
+  fadeStart?: number // Seconds before the shells start fading (Infinity = never)
+  fadeDuration?: number
+}
+
+/** Slow, long-lived shells shed by a low-mass red giant (oxygen core, hydrogen/nitrogen rim) */
+export const PLANETARY_NEBULA_SHELLS: RemnantShellOptions = {
+  particleCount: 5000,
+  expansionSpeed: 0.03,
+  shellColors: [
+    { r: 0.3, g: 0.95, b: 0.85 }, // Teal (oxygen III)
+    { r: 0.5, g: 0.6, b: 1.0 }, // Blue (helium)
+    { r: 1.0, g: 0.3, b: 0.4 }, // Red (hydrogen-alpha, nitrogen II)
+  ],
+  opacity: 0.5,
+  fadeStart: Infinity,
+}
+
+/**
+ * Debris of a white dwarf blown apart by a Type Ia supernova: no hydrogen,
+ * fast iron-group and intermediate-mass ejecta, and nothing left at the centre
+ */
+export const TYPE_IA_REMNANT_SHELLS: RemnantShellOptions = {
+  particleCount: 10000,
+  shellCount: 3,
+  expansionSpeed: 0.25,
+  shellColors: [
+    { r: 1.0, g: 0.65, b: 0.25 }, // Amber (iron, cobalt from nickel-56 decay)
+    { r: 1.0, g: 0.9, b: 0.4 }, // Yellow (silicon, sulfur)
+    { r: 0.6, g: 0.85, b: 1.0 }, // Pale blue (calcium, unburnt oxygen)
+  ],
+  opacity: 0.85,
+  fadeStart: 12.0,
+  fadeDuration: 18.0,
+}
 
 export class SupernovaRemnant {
   private scene: THREE.Scene
@@ -6,98 +60,113 @@ export class SupernovaRemnant {
   private shellGeometries: THREE.BufferGeometry[] = []
   private shellMaterials: THREE.PointsMaterial[] = []
 
-  private particleCount: number = 8000
+  private particleCount: number
   private time: number = 0
-  private expansionSpeed: number = 0.15
+  public readonly usesWorker: boolean
+  public readonly usesGpu: boolean
 
   // Multiple shell layers for depth
-  private shellCount: number = 3
-
-  // Accretion mode properties
-  private isBeingAccreted: boolean = false
-  private blackHolePosition: THREE.Vector3 = new THREE.Vector3(0, 0, 0)
-  private accretionStrength: number = 0
-  private eventHorizonRadius: number = 5.0
-
-  // Particle consumption tracking
-  private consumedParticles: Set<number> = new Set()
-  private onParticleConsumed?: (mass: number) => void
-
-  constructor(scene: THREE.Scene, initialRadius: number = 25) {
+  private shellCount: number
+  private shellColors: ShellColor[]
+  private opacity: number
+  private fadeStart: number
+  private fadeDuration: number
+
+  // Expansion and accretion physics (positions are shared with the shell geometries), here, in a worker or on the GPU
+  private physics: SupernovaRemnantPhysicsView
+
+  constructor(
+    scene: THREE.Scene,
+    initialRadius: number = 25,
+    options: RemnantShellOptions = {},
+    backend: ParticleBackendOptions = MAIN_THREAD_BACKEND
+  ) {
     this.scene = scene
+    this.particleCount = Math.round((options.particleCount ?? 8000) * backend.particleScale)
+    this.usesGpu = backend.gpuRenderer !== null
+    this.usesWorker = backend.useWorker && !this.usesGpu
+    this.shellCount = options.shellCount ?? 3
+    this.opacity = options.opacity ?? 0.7
+    this.fadeStart = options.fadeStart ?? 8.0 // Start fading after 8 seconds
+    this.fadeDuration = options.fadeDuration ?? 12.0 // Fade over 12 seconds
+    // Different shell colors for visual variety
+    this.shellColors = options.shellColors ?? [
+      { r: 1.0, g: 0.3, b: 0.2 }, // Red (hydrogen)
+      { r: 0.2, g: 0.8, b: 1.0 }, // Blue (oxygen)
+      { r: 1.0, g: 0.7, b: 0.2 }, // Yellow (sulfur)
+    ]
+    // More particles share the same mass, so accretion grows the black hole just as fast
+    const particleMass = 0.0001 / backend.particleScale
+    if (backend.gpuRenderer !== null) {
+      this.physics = new SupernovaRemnantPhysicsGpu(
+        backend.gpuRenderer,
+        initialRadius,
+        this.particleCount,
+        this.shellCount,
+        options.expansionSpeed,
+        particleMass
+      )
+    } else {
+      this.physics = backend.useWorker
+        ? new SupernovaRemnantPhysicsWorker(
+            initialRadius,
+            this.particleCount,
+            this.shellCount,
+            options.expansionSpeed,
+            particleMass
+          )
+        : new SupernovaRemnantPhysics(initialRadius, this.particleCount, this.shellCount, options.expansionSpeed, particleMass)
+    }
 
     // Create multiple expanding shells with different colors
     for (let shellIndex = 0; shellIndex < this.shellCount; shellIndex++) {
-      this.createShell(shellIndex, initialRadius)
+      this.createShell(shellIndex)
     }
   }
 
-  private createShell(shellIndex: number, initialRadius: number): void {
+  private createShell(shellIndex: number): void {
     const geometry = new THREE.BufferGeometry()
-    const positions = new Float32Array(this.particleCount * 3)
-    const velocities = new Float32Array(this.particleCount * 3)
     const colors = new Float32Array(this.particleCount * 3)
     const sizes = new Float32Array(this.particleCount)
 
-    // Different shell colors for visual variety
-    const shellColors = [
-      { r: 1.0, g: 0.3, b: 0.2 }, // Red (hydrogen)
-      { r: 0.2, g: 0.8, b: 1.0 }, // Blue (oxygen)
-      { r: 1.0, g: 0.7, b: 0.2 }, // Yellow (sulfur)
-    ]
-    const baseColor = shellColors[shellIndex % shellColors.length]
+    const baseColor = this.shellColors[shellIndex % this.shellColors.length]
 
     for (let i = 0; i < this.particleCount; i++) {
       const i3 = i * 3
 
-      // Random direction on sphere
-      const theta = Math.random() * Math.PI * 2
-      const phi = Math.acos(2 * Math.random() - 1)
-
-      const dirX = Math.sin(phi) * Math.cos(theta)
-      const dirY = Math.sin(phi) * Math.sin(theta)
-      const dirZ = Math.cos(phi)
-
-      // Start at initial radius with some variation
-      const startRadius = initialRadius * (0.9 + Math.random() * 0.3)
-      positions[i3] = dirX * startRadius
-      positions[i3 + 1] = dirY * startRadius
-      positions[i3 + 2] = dirZ * startRadius
-
-      // Velocity - expanding outward with variation
-      const speed = this.expansionSpeed * (0.7 + Math.random() * 0.6) * (1 + shellIndex * 0.3)
-      velocities[i3] = dirX * speed
-      velocities[i3 + 1] = dirY * speed
-      velocities[i3 + 2] = dirZ * speed
-
       // Color with variation
-      const colorVariation = 0.7 + Math.random() * 0.3
+      const colorVariation = 0.7 + Random.next() * 0.3
       colors[i3] = baseColor.r * colorVariation
       colors[i3 + 1] = baseColor.g * colorVariation
       colors[i3 + 2] = baseColor.b * colorVariation
 
       // Size variation
-      sizes[i] = 0.3 + Math.random() * 0.5
+      sizes[i] = 0.3 + Random.next() * 0.5
     }
 
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+    geometry.setAttribute('position', new THREE.BufferAttribute(this.physics.shellPositions[shellIndex], 3))
     geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
     geometry.setAttribute('size', new THREE.BufferAttribute(sizes, 1))
-
-    // Store velocities for animation
-    ;(geometry as any).velocities = velocities
+    if (this.physics instanceof SupernovaRemnantPhysicsGpu) {
+      geometry.setAttribute('reference', this.physics.createReferenceAttribute(shellIndex))
+    }
 
     const material = new THREE.PointsMaterial({
       size: 0.6,
       vertexColors: true,
       transparent: true,
-      opacity: 0.7,
+      opacity: this.opacity,
       blending: THREE.AdditiveBlending,
       depthWrite: false,
       sizeAttenuation: true,
     })
+    if (this.physics instanceof SupernovaRemnantPhysicsGpu) {
+      readPositionsFromTexture(material, this.physics.positionTexture)
+    }
 
     const shell = new THREE.Points(geometry, material)
+    // Worker positions start parked and GPU positions never reach the geometry, either of which breaks the bounding sphere
+    shell.frustumCulled = !this.usesWorker && !this.usesGpu
 
     this.shells.push(shell)
     this.shellGeometries.push(geometry)
@@ -107,115 +176,24 @@ export class SupernovaRemnant {
 
   public update(deltaTime: number): void {
     this.time += deltaTime
+    this.physics.update(deltaTime)
 
     // Update each shell
     this.shells.forEach((shell, shellIndex) => {
       const geometry = this.shellGeometries[shellIndex]
       const material = this.shellMaterials[shellIndex]
-      const positions = geometry.attributes.position.array as Float32Array
-      const velocities = (geometry as any).velocities as Float32Array
-
-      // Update positions
-      for (let i = 0; i < this.particleCount; i++) {
-        const i3 = i * 3
-
-        // Move particles outward
-        positions[i3] += velocities[i3]
-        positions[i3 + 1] += velocities[i3 + 1]
-        positions[i3 + 2] += velocities[i3 + 2]
-
-        // Decelerate slightly (energy loss)
-        velocities[i3] *= 0.998
-        velocities[i3 + 1] *= 0.998
-        velocities[i3 + 2] *= 0.998
-
-        // Add turbulence
-        positions[i3] += (Math.random() - 0.5) * 0.05
-        positions[i3 + 1] += (Math.random() - 0.5) * 0.05
-        positions[i3 + 2] += (Math.random() - 0.5) * 0.05
-
-        // Apply gravitational attraction if accretion mode is enabled
-        if (this.isBeingAccreted) {
-          // Calculate vector to black hole
-          const dx = this.blackHolePosition.x - positions[i3]
-          const dy = this.blackHolePosition.y - positions[i3 + 1]
-          const dz = this.blackHolePosition.z - positions[i3 + 2]
-          const distanceSquared = dx * dx + dy * dy + dz * dz
-          const distance = Math.sqrt(distanceSquared)
-
-          // Check if particle reached event horizon (consumed by black hole)
-          const particleIndex = shellIndex * this.particleCount + i
-          if (distance < this.eventHorizonRadius && !this.consumedParticles.has(particleIndex)) {
-            this.consumedParticles.add(particleIndex)
-
-            // Notify black hole of mass consumption
-            if (this.onParticleConsumed) {
-              this.onParticleConsumed(0.0001) // Each particle = 0.0001 mass units
-            }
-
-            // Make particle invisible (move far away)
-            positions[i3] = 10000
-            positions[i3 + 1] = 10000
-            positions[i3 + 2] = 10000
-
-            // Zero out velocity
-            velocities[i3] = 0
-            velocities[i3 + 1] = 0
-            velocities[i3 + 2] = 0
-          }
-
-          // Only apply gravity within accretion radius and if not consumed
-          if (distance < 100 && distance > 0.1 && !this.consumedParticles.has(particleIndex)) {
-            // Gravitational acceleration (simplified inverse-square law)
-            const acceleration = this.accretionStrength / distanceSquared
-
-            // Normalize radial direction
-            const radialX = dx / distance
-            const radialY = dy / distance
-            const radialZ = dz / distance
-
-            // Apply radial force (toward black hole)
-            const ax = radialX * acceleration
-            const ay = radialY * acceleration
-            const az = radialZ * acceleration
-
-            velocities[i3] += ax
-            velocities[i3 + 1] += ay
-            velocities[i3 + 2] += az
-
-            // Add tangential velocity for spiral motion (angular momentum)
-            // Cross product: tangent = radial × up(0,1,0)
-            const tangentX = radialY * 0 - radialZ * 1  // = -radialZ
-            const tangentY = radialZ * 0 - radialX * 0  // = 0
-            const tangentZ = radialX * 1 - radialY * 0  // = radialX
-
-            // Normalize tangent vector
-            const tangentLength = Math.sqrt(tangentX * tangentX + tangentY * tangentY + tangentZ * tangentZ)
-
-            if (tangentLength > 0.001) {
-              const txNorm = tangentX / tangentLength
-              const tyNorm = tangentY / tangentLength
-              const tzNorm = tangentZ / tangentLength
-
-              // Orbital velocity (Keplerian: v ∝ sqrt(1/r))
-              // Scale by 0.5 for balance between spiral and infall
-              const orbitalSpeed = Math.sqrt(this.accretionStrength / distance) * 0.5
-
-              velocities[i3] += txNorm * orbitalSpeed
-              velocities[i3 + 1] += tyNorm * orbitalSpeed
-              velocities[i3 + 2] += tzNorm * orbitalSpeed
-            }
-          }
-        }
-      }
 
-      geometry.attributes.position.needsUpdate = true
+      // On the GPU, points read the simulation texture instead
+      if (!this.usesGpu) {
+        const positions = geometry.getAttribute('position') as THREE.BufferAttribute
+        positions.array = this.physics.shellPositions[shellIndex] // Worker frames land in alternating buffers
+        positions.needsUpdate = true
+      }
 
       // Fade out over time
-      const fadeStart = 8.0 // Start fading after 8 seconds
-      if (this.time > fadeStart) {
-        const fadeProgress = (this.time - fadeStart) / 12.0 // Fade over 12 seconds
-        material.opacity = Math.max(0.7 * (1 - fadeProgress), 0)
+      if (this.time > this.fadeStart) {
+        const fadeProgress = (this.time - this.fadeStart) / this.fadeDuration
+        material.opacity = Math.max(this.opacity * (1 - fadeProgress), 0)
       }
 
       // Slow rotation for visual effect
@@ -225,26 +203,66 @@ export class SupernovaRemnant {
   }
 
   public enableAccretion(blackHolePosition: THREE.Vector3, strength: number, horizonRadius: number): void {
-    this.isBeingAccreted = true
-    this.blackHolePosition.copy(blackHolePosition)
-    this.accretionStrength = strength
-    this.eventHorizonRadius = horizonRadius
+    this.physics.enableAccretion(blackHolePosition, strength, horizonRadius)
   }
 
   public setConsumptionCallback(callback: (mass: number) => void): void {
-    this.onParticleConsumed = callback
+    this.physics.setConsumptionCallback(callback)
   }
 
   public updateEventHorizonRadius(newRadius: number): void {
-    this.eventHorizonRadius = newRadius
+    this.physics.updateEventHorizonRadius(newRadius)
   }
 
   public getActiveParticleCount(): number {
-    // Count non-consumed particles across all shells
-    return this.particleCount * this.shellCount - this.consumedParticles.size
+    return this.physics.getActiveParticleCount()
+  }
+
+  /**
+   * Keep shell positions current on the CPU while something watches the outer
+   * shell: GPU shells otherwise only read back once the black hole accretes
+   */
+  public startTrackingShell(): void {
+    if (this.physics instanceof SupernovaRemnantPhysicsGpu) {
+      this.physics.setPositionReadback(true)
+    }
+  }
+
+  public stopTrackingShell(): void {
+    if (this.physics instanceof SupernovaRemnantPhysicsGpu) {
+      this.physics.setPositionReadback(false)
+    }
+  }
+
+  /**
+   * Median distance of the outermost (fastest) shell from the centre, from a
+   * sample of its particles (call startTrackingShell first on the GPU)
+   * @returns null until a worker delivers its first positions, 0 once the shell is all swallowed
+   */
+  public getOuterShellRadius(): number | null {
+    if (this.physics instanceof SupernovaRemnantPhysicsWorker && !this.physics.hasPositions()) {
+      return null
+    }
+
+    const positions = this.physics.shellPositions[this.shellCount - 1]
+    const stride = Math.max(1, Math.floor(this.particleCount / OUTER_SHELL_SAMPLES))
+    const distances: number[] = []
+    for (let i = 0; i < this.particleCount; i += stride) {
+      const i3 = i * 3
+      const distance = Math.hypot(positions[i3], positions[i3 + 1], positions[i3 + 2])
+      if (distance < 5000) distances.push(distance) // Swallowed particles are parked at 10000
+    }
+    if (distances.length === 0) return 0
+
+    distances.sort((a, b) => a - b)
+    return distances[Math.floor(distances.length / 2)]
   }
 
   public dispose(): void {
+    if (this.physics instanceof SupernovaRemnantPhysicsWorker || this.physics instanceof SupernovaRemnantPhysicsGpu) {
+      this.physics.dispose()
+    }
+
     this.shells.forEach((shell) => {
       this.scene.remove(shell)
     })
@@ -0,0 +1,91 @@
+import * as THREE from 'three'
+import { TidalDisruptionPhysics } from './physics/TidalDisruptionPhysics'
+
+const STAR_RADIUS = 3.0
+
+/**
+ * TidalDisruption - A star wandering into the black hole and being torn into a stream
+ * The star is a glowing sphere stretched along the tidal axis; after break-up
+ * the debris is a point cloud sharing the physics positions (like AccretionSource)
+ */
+export class TidalDisruption {
+  private scene: THREE.Scene
+  public star: THREE.Mesh
+  private starMaterial: THREE.MeshBasicMaterial
+  public particles: THREE.Points // Public for debug toggles
+  private geometry: THREE.BufferGeometry
+  private material: THREE.PointsMaterial
+  private readonly stretchAxis = new THREE.Vector3()
+
+  // Parabolic approach, break-up and fallback (positions are shared with the geometry)
+  private physics: TidalDisruptionPhysics
+
+  constructor(scene: THREE.Scene, particleCount?: number) {
+    this.scene = scene
+    this.physics = new TidalDisruptionPhysics(particleCount)
+
+    this.starMaterial = new THREE.MeshBasicMaterial({ color: 0xffe2b0 }) // Sun-like dwarf
+    this.star = new THREE.Mesh(new THREE.SphereGeometry(STAR_RADIUS, 32, 32), this.starMaterial)
+    this.star.position.copy(this.physics.starPosition)
+    this.scene.add(this.star)
+
+    this.geometry = new THREE.BufferGeometry()
+    this.geometry.setAttribute('position', new THREE.BufferAttribute(this.physics.positions, 3))
+
+    this.material = new THREE.PointsMaterial({
+      size: 0.7,
+      color: 0xffb070, // Stellar gas heated by the tidal squeeze
+      transparent: true,
+      opacity: 0.8,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      sizeAttenuation: true,
+    })
+
+    this.particles = new THREE.Points(this.geometry, this.material)
+    this.particles.frustumCulled = false // Parked particles would break the bounding sphere
+    this.particles.renderOrder = 2
+    this.scene.add(this.particles)
+  }
+
+  public update(deltaTime: number): void {
+    this.physics.update(deltaTime)
+    this.geometry.attributes.position.needsUpdate = true
+
+    if (this.physics.isDisrupted()) {
+      this.star.visible = false
+      return
+    }
+
+    // Spaghettification: elongate toward the hole, thin sideways (volume kept roughly constant)
+    const stretch = 1 + this.physics.getTidalStretch() * 3
+    this.star.position.copy(this.physics.starPosition)
+    this.star.quaternion.setFromUnitVectors(new THREE.Vector3(1, 0, 0), this.physics.getStretchAxis(this.stretchAxis))
+    this.star.scale.set(stretch, 1 / Math.sqrt(stretch), 1 / Math.sqrt(stretch))
+  }
+
+  public setConsumptionCallback(callback: (mass: number) => void): void {
+    this.physics.setConsumptionCallback(callback)
+  }
+
+  public getFlareLevel(): number {
+    return this.physics.getFlareLevel()
+  }
+
+  public isFinished(): boolean {
+    return this.physics.isFinished()
+  }
+
+  public getActiveParticleCount(): number {
+    return this.physics.getActiveParticleCount()
+  }
+
+  public dispose(): void {
+    this.scene.remove(this.star)
+    this.star.geometry.dispose()
+    this.starMaterial.dispose()
+    this.scene.remove(this.particles)
+    this.geometry.dispose()
+    this.material.dispose()
+  }
+}
@@ -0,0 +1,187 @@
+import { ConfigField, NumberField } from './SimulationConfig'
+
+/**
+ * TweakPanel - Inspector generated from a field schema (lil-gui style)
+ *
+ * Fields are keyed by dotted path; the first segment picks the folder, so a
+ * new schema entry shows up with the right control and no DOM changes:
+ * number → slider or text box (plus an "auto" box when nullable), boolean → checkbox,
+ * choice → select. Values are read and written through a TweakSource.
+ * Fields marked `restart` commit on release rather than while dragging,
+ * since applying them rebuilds the simulation.
+ */
+
+export interface TweakSource {
+  get(path: string): unknown
+  /** One edit, or a whole folder at once on reset */
+  set(changes: Record<string, unknown>): void
+}
+
+interface TweakControl {
+  path: string
+  refresh(): void
+}
+
+const FOLDER_FOR_ROOT_FIELDS = 'general'
+
+export class TweakPanel {
+  private element: HTMLElement
+  private folders = new Map<string, HTMLElement>()
+  private controls: TweakControl[] = []
+  private fields: Record<string, ConfigField>
+  private source: TweakSource
+
+  constructor(container: HTMLElement, fields: Record<string, ConfigField>, source: TweakSource) {
+    this.fields = fields
+    this.source = source
+    this.element = document.createElement('div')
+    this.element.className = 'tweak-panel'
+    container.appendChild(this.element)
+
+    Object.entries(fields).forEach(([path, field]) => this.addControl(path, field))
+  }
+
+  /** Re-read every value (after the source changed some other way) */
+  refresh(): void {
+    this.controls.forEach((control) => control.refresh())
+  }
+
+  /** Plain button under the folders */
+  addButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button')
+    button.className = 'tweak-button'
+    button.textContent = label
+    button.addEventListener('click', onClick)
+    this.element.appendChild(button)
+    return button
+  }
+
+  dispose(): void {
+    this.element.remove()
+    this.folders.clear()
+    this.controls = []
+  }
+
+  private getFolderName(path: string): string {
+    return path.includes('.') ? path.split('.')[0] : FOLDER_FOR_ROOT_FIELDS
+  }
+
+  private getFolder(path: string): HTMLElement {
+    const name = this.getFolderName(path)
+    const folder = this.folders.get(name)
+    if (folder) return folder
+
+    const details = document.createElement('details')
+    details.className = 'tweak-folder'
+    const summary = document.createElement('summary')
+    summary.textContent = `--- ${toTitle(name)} ---`
+    details.appendChild(summary)
+
+    // Reset the folder's fields to their defaults
+    const reset = document.createElement('button')
+    reset.className = 'tweak-reset'
+    reset.textContent = 'RESET'
+    reset.addEventListener('click', (event) => {
+      event.preventDefault()
+      const folderControls = this.controls.filter((control) => this.getFolderName(control.path) === name)
+      this.source.set(Object.fromEntries(folderControls.map((control) => [control.path, this.fields[control.path].default])))
+      folderControls.forEach((control) => control.refresh())
+    })
+    summary.appendChild(reset)
+
+    this.element.appendChild(details)
+    this.folders.set(name, details)
+    return details
+  }
+
+  private addControl(path: string, field: ConfigField): void {
+    const row = document.createElement('div')
+    row.className = 'tweak-row'
+    const name = document.createElement('span')
+    name.textContent = field.restart ? `${field.label} ↻` : field.label
+    if (field.restart) row.title = 'Restarts the simulation'
+    row.appendChild(name)
+
+    switch (field.type) {
+      case 'number':
+        this.controls.push(this.addNumber(row, path, field))
+        break
+      case 'boolean': {
+        const input = document.createElement('input')
+        input.type = 'checkbox'
+        input.addEventListener('change', () => this.source.set({ [path]: input.checked }))
+        row.appendChild(input)
+        this.controls.push({ path, refresh: () => (input.checked = this.source.get(path) === true) })
+        break
+      }
+      case 'choice': {
+        const select = document.createElement('select')
+        field.options.forEach((value) => {
+          const option = document.createElement('option')
+          option.value = option.textContent = value
+          select.appendChild(option)
+        })
+        select.addEventListener('change', () => this.source.set({ [path]: select.value }))
+        row.appendChild(select)
+        this.controls.push({ path, refresh: () => (select.value = String(this.source.get(path))) })
+        break
+      }
+    }
+
+    this.getFolder(path).appendChild(row)
+    this.controls[this.controls.length - 1].refresh()
+  }
+
+  private addNumber(row: HTMLElement, path: string, field: NumberField): TweakControl {
+    const readout = document.createElement('span')
+    readout.className = 'tweak-value'
+    // Ranges too fine to drag through (seeds) get a text box instead
+    const slider = document.createElement('input')
+    const typed = (field.max - field.min) / field.step > 10000
+    slider.type = typed ? 'number' : 'range'
+    slider.className = typed ? 'tweak-number' : 'debug-slider'
+    slider.min = String(field.min)
+    slider.max = String(field.max)
+    slider.step = String(field.step)
+    const decimals = Math.max(0, Math.ceil(-Math.log10(field.step)))
+
+    // Nullable: "auto" leaves the value to be worked out (see SimulationConfig)
+    let auto: HTMLInputElement | null = null
+    if (field.nullable) {
+      auto = document.createElement('input')
+      auto.type = 'checkbox'
+      auto.title = 'Auto'
+      auto.addEventListener('change', () => {
+        this.source.set({ [path]: auto!.checked ? null : parseFloat(slider.value) })
+        refresh()
+      })
+    }
+
+    const refresh = () => {
+      const value = this.source.get(path)
+      const isAuto = value === null
+      if (auto) auto.checked = isAuto
+      slider.disabled = isAuto
+      if (typeof value === 'number') slider.value = String(value)
+      readout.textContent = isAuto ? 'auto' : Number(slider.value).toFixed(decimals)
+    }
+
+    slider.addEventListener('input', () => {
+      readout.textContent = Number(slider.value).toFixed(decimals)
+      if (!field.restart) this.source.set({ [path]: parseFloat(slider.value) })
+    })
+    if (field.restart) {
+      slider.addEventListener('change', () => this.source.set({ [path]: parseFloat(slider.value) }))
+    }
+
+    row.appendChild(readout)
+    if (auto) row.appendChild(auto)
+    row.appendChild(slider)
+    return { path, refresh }
+  }
+}
+
+/** 'blackHole' → 'BLACK HOLE' */
+function toTitle(name: string): string {
+  return name.replace(/([a-z])([A-Z])/g, '$1 $2').toUpperCase()
+}
@@ -0,0 +1,94 @@
+export type EasingFunction = (t: number) => number
+
+/** Common easing curves, mapping linear progress 0-1 to eased progress */
+export const Easing = {
+  linear: (t: number) => t,
+  easeInQuad: (t: number) => t * t,
+  easeOutQuad: (t: number) => 1 - (1 - t) * (1 - t),
+  easeInOutQuad: (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+} satisfies Record<string, EasingFunction>
+
+export interface TweenOptions {
+  duration: number // Seconds of simulation time
+  easing?: EasingFunction
+  delay?: number
+  onUpdate: (easedProgress: number, elapsed: number) => void
+  onComplete?: () => void
+}
+
+/** Handle to a scheduled tween */
+export class Tween {
+  private elapsed: number = 0
+  private finished: boolean = false
+  private options: TweenOptions
+
+  constructor(options: TweenOptions) {
+    this.options = options
+    this.elapsed = -(options.delay ?? 0)
+  }
+
+  /** Advance by deltaTime; returns false once the tween is finished or cancelled */
+  public step(deltaTime: number): boolean {
+    if (this.finished) return false
+
+    this.elapsed += deltaTime
+    if (this.elapsed < 0) return true
+
+    const duration = this.options.duration
+    const progress = duration > 0 ? Math.min(this.elapsed / duration, 1.0) : 1.0
+    const easing = this.options.easing ?? Easing.linear
+    this.options.onUpdate(easing(progress), this.elapsed)
+
+    if (progress >= 1.0) {
+      this.finished = true
+      this.options.onComplete?.()
+      return false
+    }
+    return true
+  }
+
+  /** Stop without running onComplete */
+  public cancel(): void {
+    this.finished = true
+  }
+
+  public isActive(): boolean {
+    return !this.finished
+  }
+}
+
+/**
+ * TweenScheduler - Time-based animations driven by simulation time
+ *
+ * Stepped from the fixed simulation step, so tweens respect pause, time
+ * scale and seeking instead of running on wall-clock intervals.
+ */
+export class TweenScheduler {
+  private tweens: Tween[] = []
+
+  public add(options: TweenOptions): Tween {
+    const tween = new Tween(options)
+    this.tweens.push(tween)
+    return tween
+  }
+
+  public update(deltaTime: number): void {
+    // Snapshot so callbacks can schedule new tweens (they start next step)
+    const current = this.tweens
+    this.tweens = []
+    const stillActive = current.filter((tween) => tween.step(deltaTime))
+    this.tweens = stillActive.concat(this.tweens)
+  }
+
+  /** Cancel every pending tween (completion callbacks are not run) */
+  public cancelAll(): void {
+    this.tweens.forEach((tween) => tween.cancel())
+    this.tweens = []
+  }
+
+  public getActiveCount(): number {
+    return this.tweens.length
+  }
+}
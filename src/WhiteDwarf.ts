@@ -0,0 +1,107 @@
+import * as THREE from 'three'
+import { WhiteDwarfPhysics } from './physics/WhiteDwarfPhysics'
+
+const HOT_COLOR = new THREE.Color(0xb4ccff) // Blue-white, ~100,000 K
+const COOL_COLOR = new THREE.Color(0xfff1dc) // Yellow-white, ~6,000 K
+
+export class WhiteDwarf {
+  private scene: THREE.Scene
+  private group: THREE.Group
+  private core: THREE.Mesh
+  private halo: THREE.Mesh
+  private light: THREE.PointLight
+  private opacity: number = 1.0
+
+  // Cooling (temperature drives color and brightness)
+  private physics: WhiteDwarfPhysics
+
+  constructor(scene: THREE.Scene, mass?: number) {
+    this.scene = scene
+    this.physics = new WhiteDwarfPhysics(mass)
+    this.group = new THREE.Group()
+
+    const coreGeometry = new THREE.SphereGeometry(this.physics.radius, 48, 48)
+    const coreMaterial = new THREE.MeshBasicMaterial({
+      color: HOT_COLOR.clone(),
+      transparent: true,
+    })
+    this.core = new THREE.Mesh(coreGeometry, coreMaterial)
+    this.group.add(this.core)
+
+    // Soft glow so the tiny core still reads at nebula-scale camera distances
+    const haloGeometry = new THREE.SphereGeometry(this.physics.radius * 3, 48, 48)
+    const haloMaterial = new THREE.MeshBasicMaterial({
+      color: HOT_COLOR.clone(),
+      transparent: true,
+      opacity: 0.35,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      side: THREE.BackSide,
+    })
+    this.halo = new THREE.Mesh(haloGeometry, haloMaterial)
+    this.group.add(this.halo)
+
+    this.light = new THREE.PointLight(HOT_COLOR.getHex(), 6, 80, 2)
+    this.group.add(this.light)
+
+    this.scene.add(this.group)
+    this.applyCooling()
+  }
+
+  public update(deltaTime: number): void {
+    this.physics.update(deltaTime)
+    // Shrinks as it gains mass
+    this.group.scale.setScalar(this.physics.getRadius() / this.physics.radius)
+    this.applyCooling()
+  }
+
+  private applyCooling(): void {
+    const temperature = this.physics.getTemperature()
+    // 0 = freshly exposed core, 1 = cooled to a yellow-white ember
+    const cooled = THREE.MathUtils.clamp((40000 - temperature) / (40000 - 6000), 0, 1)
+    const brightness = temperature / this.physics.initialTemperature
+
+    const coreMaterial = this.core.material as THREE.MeshBasicMaterial
+    const haloMaterial = this.halo.material as THREE.MeshBasicMaterial
+    coreMaterial.color.copy(HOT_COLOR).lerp(COOL_COLOR, cooled)
+    coreMaterial.opacity = this.opacity
+    haloMaterial.color.copy(coreMaterial.color)
+    haloMaterial.opacity = THREE.MathUtils.lerp(0.15, 0.35, brightness) * this.opacity
+
+    this.light.color.copy(coreMaterial.color)
+    this.light.intensity = THREE.MathUtils.lerp(2, 6, brightness) * this.opacity
+  }
+
+  public setOpacity(opacity: number): void {
+    this.opacity = opacity
+    this.applyCooling()
+  }
+
+  public getTemperature(): number {
+    return this.physics.getTemperature()
+  }
+
+  public accrete(mass: number): void {
+    this.physics.accrete(mass)
+  }
+
+  public getMass(): number {
+    return this.physics.getMass()
+  }
+
+  public getRadius(): number {
+    return this.physics.getRadius()
+  }
+
+  public isOverChandrasekharLimit(): boolean {
+    return this.physics.isOverChandrasekharLimit()
+  }
+
+  public dispose(): void {
+    this.scene.remove(this.group)
+    this.core.geometry.dispose()
+    ;(this.core.material as THREE.Material).dispose()
+    this.halo.geometry.dispose()
+    ;(this.halo.material as THREE.Material).dispose()
+  }
+}
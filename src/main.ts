@@ -7,15 +7,80 @@ import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPa
 import { Nebula } from './Nebula'
 import { Star } from './Star'
 import { IgnitionBurst } from './IgnitionBurst'
-import { PlanetSystem } from './PlanetSystem'
+import { PlanetSystem, PLANET_CONFIGS } from './PlanetSystem'
 import { BlackHole } from './BlackHole'
-import { SupernovaRemnant } from './SupernovaRemnant'
+import { SupernovaRemnant, PLANETARY_NEBULA_SHELLS, TYPE_IA_REMNANT_SHELLS } from './SupernovaRemnant'
+import { SupernovaFlash, TYPE_IA_FLASH } from './SupernovaFlash'
+import { WhiteDwarf } from './WhiteDwarf'
+import { NeutronStar } from './NeutronStar'
 import { AccretionSource } from './AccretionSource'
+import { TidalDisruption } from './TidalDisruption'
+import { ACCRETION_SOURCE_POSITIONS } from './physics/AccretionSourcePhysics'
+import { MassTransferStream } from './MassTransferStream'
+import {
+  BinaryOrbitPhysics,
+  COMPANION_STAR,
+  COMPANION_EXPANSION_DELAY,
+  ROCHE_OVERFLOW_FACTOR,
+} from './physics/BinaryOrbitPhysics'
+import { STREAM_PARTICLE_MASS_FRACTION, WHITE_DWARF_FILL_PARTICLES } from './physics/MassTransferStreamPhysics'
+import { CHANDRASEKHAR_LIMIT } from './physics/WhiteDwarfPhysics'
+import { ParticleBackendOptions, isParticleWorkerSupported } from './physics/ParticleWorkerBackend'
+import { isGpuParticleSupported } from './GpuParticlePhysics'
 import { FilmGrainPass } from './FilmGrainPass'
 import { VignettePass } from './VignettePass'
 import { GravitationalLensingPass } from './GravitationalLensingPass'
 import { Starfield } from './Starfield'
 import { AudioManager, SimulationPhase } from './AudioManager'
+import { PhaseTimeline, PhaseDescriptor, DEFAULT_PHASE_TIMELINE } from './PhaseTimeline'
+import { CameraDirector, parseCameraShots } from './CameraDirector'
+import { CameraBookmarks, CameraBookmark, CAMERA_PRESETS } from './CameraBookmarks'
+import { FollowCamera, FollowTarget, followPlanet, followAccretionChunk, followOuterShell } from './FollowCamera'
+import { CameraShake, IGNITION_TRAUMA, ACCRETION_TRAUMA_PER_MASS } from './CameraShake'
+import { FlyCamera } from './FlyCamera'
+import cameraShots from './cameraShots.json'
+import {
+  StellarProfile,
+  createStellarProfile,
+  applyStellarProfile,
+  getRemnantType,
+  DEFAULT_STELLAR_MASS,
+  REMNANT_LABELS,
+} from './StellarProfile'
+import { Random } from './utils/Random'
+import { isTypingTarget } from './utils/Keyboard'
+import { RenderInterpolator } from './RenderInterpolator'
+import { TweenScheduler, Easing } from './TweenScheduler'
+import {
+  QualityLevel,
+  QUALITY_PRESETS,
+  AdaptiveQuality,
+  parseQuality,
+  lowerQuality,
+  relievesImmediately,
+} from './QualitySettings'
+import {
+  SimulationConfig,
+  SIMULATION_CONFIG_SCHEMA,
+  CONFIG_PATHS,
+  createDefaultConfig,
+  configFromUrl,
+  configFromJson,
+  createConfiguredProfile,
+  applyConfigOverrides,
+  getConfigValue,
+  isConfigPath,
+} from './SimulationConfig'
+import { TweakPanel } from './TweakPanel'
+import { registerLifecycleHandlers } from './LifecycleHandlers'
+
+/** Where a seek is replaying to, and how far it has got */
+interface SeekReplay {
+  phase: SimulationPhase
+  progress: number // Target progress within the nebula collapse
+  elapsed: number // Target seconds into a later phase
+  steps: number
+}
 
 class SunSimulator {
   private scene: THREE.Scene
@@ -35,30 +100,63 @@ class SunSimulator {
   private ignitionBurst: IgnitionBurst | null = null
   private planetSystem: PlanetSystem | null = null
   private blackHole: BlackHole | null = null
+  // Expanding ejecta shells: the supernova remnant, or the planetary nebula for light stars
   private supernovaRemnant: SupernovaRemnant | null = null
+  private whiteDwarf: WhiteDwarf | null = null
+  private neutronStar: NeutronStar | null = null
   private accretionSources: AccretionSource[] = []
+  private tidalDisruption: TidalDisruption | null = null
+  // Binary mode: a companion fed by the red giant once it overflows its Roche lobe
+  private binaryMode: boolean = false
+  // Self-gravity mode: the nebula collapses under its own (Barnes-Hut) gravity and fragments
+  private selfGravity: boolean = false
+  // Particle backend: heavy particle systems run in workers when the page is cross-origin isolated
+  private particleWorkers: boolean = false
+  private gpuParticles: boolean = false
+  private particleScale: number = 1 // Multiplier on particle counts (?particles=)
+  // Quality preset; in auto mode it steps down while frames run over budget
+  private qualityLevel: QualityLevel = 'high'
+  private autoQuality: boolean = false
+  private adaptiveQuality: AdaptiveQuality = new AdaptiveQuality()
+  private binaryOrbit: BinaryOrbitPhysics | null = null
+  private companion: Star | null = null
+  private massTransferStream: MassTransferStream | null = null
+  // Type Ia: the white dwarf is destroyed, so the explosion belongs to the simulator rather than a Star
+  private typeIaFlash: SupernovaFlash | null = null
+  private typeIaEjecta: SupernovaRemnant | null = null
   private starfield: Starfield | null = null
   private audioManager: AudioManager
   private clock: THREE.Clock
-  private currentPhase: SimulationPhase = SimulationPhase.NEBULA_COLLAPSE
-  private transitionProgress: number = 0
+  private timeline: PhaseTimeline
+  private stellarProfile: StellarProfile = createStellarProfile(DEFAULT_STELLAR_MASS)
+  // Shareable settings (URL or JSON file); the fields above mirror it for the running simulation
+  private config: SimulationConfig = createDefaultConfig()
+  private tweakPanel: TweakPanel | null = null
   private transitionDuration: number = 3.0
   private phaseElement: HTMLElement | null = null
   private debugRadiusElement: HTMLElement | null = null
   private lastPhaseText = ''
   private lastDebugText = ''
-  private mainSequenceTimer: number = 0
-  private mainSequenceDuration: number = 30.0 // 30 seconds in main sequence before red giant
-  private redGiantTimer: number = 0
-  private redGiantDuration: number = 45.0 // 45 seconds total: 24s expansion + 21s stable red giant before supernova
-  private supernovaTimer: number = 0
-  private supernovaDuration: number = 8.0 // 8 seconds for supernova before black hole
-  private cameraBasePosition: THREE.Vector3 = new THREE.Vector3(0, 0, 60) // Phase 1: Zoomed out 20% from 50
   private isPaused: boolean = true // Start paused until user clicks "Begin Simulation"
   private timeScale: number = 1.0
   private simulationStarted: boolean = false // Track if simulation has started
-  private isCameraLocked: boolean = true // Start locked during nebula
-  private blackHoleCameraTransitioned: boolean = false // Track if initial black hole camera move is done
+  private cameraDirector: CameraDirector
+  private followCamera: FollowCamera
+  private flyCamera: FlyCamera
+  private cameraBookmarks: CameraBookmarks = new CameraBookmarks()
+  private cameraShake: CameraShake = new CameraShake()
+  private tweens: TweenScheduler = new TweenScheduler()
+  private isSeeking: boolean = false // Replaying to a seek target (audio suppressed)
+  private isScrubbing: boolean = false // User is dragging the seek bar
+  private readonly fixedStep: number = 1 / 60 // Simulation step (seconds of sim time)
+  private readonly maxSubSteps: number = 10 // Per-frame cap on simulation steps
+  private readonly maxFrameDelta: number = 0.25 // Ignore real-time gaps longer than this
+  private accumulator: number = 0 // Unsimulated time carried between frames
+  private interpolator: RenderInterpolator = new RenderInterpolator()
+  private readonly maxSeekSteps: number = 60 * 60 * 5 // Safety cap: 5 simulated minutes
+  private readonly seekFrameBudget: number = 12 // Milliseconds of replay per frame
+  // Seek in progress: the replay runs a slice per frame so the tab stays responsive
+  private seekReplay: SeekReplay | null = null
 
   // Debug state for toggling visual elements
   private debugState = {
@@ -78,11 +176,7 @@ class SunSimulator {
     vignette: true,
     showDebugOverlay: false,
     // Bloom controls
-    bloomStrength: 0.8,
-    bloomThreshold: 0.85,
-    bloomRadius: 0.4,
-    eventHorizonGlow: 2.0,
-    overrideBloom: false, // Flag to override dynamic bloom during supernova
+    overrideBloom: false, // Bloom tweaked away from its defaults: skip the dynamic per-phase bloom
   }
 
   // Debug overlay elements
@@ -136,7 +230,6 @@ class SunSimulator {
       alpha: false
     })
     this.renderer.setSize(window.innerWidth, window.innerHeight)
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
 
     // Set up post-processing with bloom
     this.composer = new EffectComposer(this.renderer)
@@ -178,6 +271,18 @@ class SunSimulator {
     this.controls.minDistance = 10
     this.controls.maxDistance = 200
 
+    // Keyframed shots per phase; grabbing the camera takes over, C hands it back
+    this.cameraDirector = new CameraDirector(this.camera, this.controls.target, parseCameraShots(cameraShots))
+    this.followCamera = new FollowCamera(this.camera, this.controls.target, this.controls)
+    this.controls.addEventListener('start', () => {
+      this.followCamera.stop()
+      this.cameraDirector.takeOver()
+      this.updateCameraButton()
+    })
+    // Free flight (P) replaces the orbit controls while it is on
+    this.flyCamera = new FlyCamera(this.camera, this.renderer.domElement)
+    this.flyCamera.setSpeedCallback(() => this.updateCameraButton())
+
     // Set up lights
     this.setupLights()
 
@@ -199,21 +304,24 @@ class SunSimulator {
       }
     })
 
+    // Settings from the URL (?seed=, ?binary, ?star.mass=10, ... see SimulationConfig). This seeds
+    // the shared random source, so it has to happen before anything draws from it
+    const { config, errors } = configFromUrl(new URLSearchParams(window.location.search))
+    errors.forEach((error) => console.warn(`[CONFIG] ${error}`))
+    this.applyConfig(config)
+
     // Create starfield background
     this.starfield = new Starfield(this.scene)
 
-    // Create nebula
-    this.nebula = new Nebula(this.scene)
+    // Lifecycle: phase data comes from the timeline, behaviour from registered handlers
+    this.timeline = new PhaseTimeline(applyStellarProfile(DEFAULT_PHASE_TIMELINE, this.stellarProfile, this.binaryMode))
+    this.registerPhaseHandlers()
+    this.timeline.onPhaseChange(this.onPhaseChange.bind(this))
+    this.timeline.start() // Creates the nebula
 
     // Handle window resize
     window.addEventListener('resize', this.onWindowResize.bind(this))
 
-    // Update phase info
-    this.updatePhaseInfo(
-      'Phase 1: Nebula Collapse',
-      'A vast cloud of gas and dust collapses under gravity. Matter spirals inward, heating up as a protostar begins to form.'
-    )
-
     // Set up interactive controls
     this.setupControls()
 
@@ -288,16 +396,17 @@ class SunSimulator {
   }
 
   private updateDebugStats(): void {
-    if (!this.debugState.showDebugOverlay) return
-
-    // Calculate FPS
+    // Calculate FPS (always: auto quality watches it too)
     const now = performance.now()
     if (this.lastFrameTime > 0) {
       const deltaMs = now - this.lastFrameTime
       this.fps = Math.round(1000 / deltaMs)
+      this.updateAutoQuality(deltaMs / 1000)
     }
     this.lastFrameTime = now
 
+    if (!this.debugState.showDebugOverlay) return
+
     // Update FPS
     if (this.debugFps) {
       this.debugFps.textContent = this.fps.toString()
@@ -305,7 +414,7 @@ class SunSimulator {
 
     // Update phase
     if (this.debugPhase) {
-      this.debugPhase.textContent = this.currentPhase
+      this.debugPhase.textContent = this.timeline.getCurrentPhase() ?? '--'
     }
 
     // Update black hole stats
@@ -345,6 +454,47 @@ class SunSimulator {
     }
   }
 
+  /**
+   * Apply a quality preset. Pixel ratio and post passes change now (passes
+   * the user switched off stay off); particle counts and geometry detail apply
+   * to whatever is built next
+   */
+  public setQuality(level: QualityLevel): void {
+    const preset = QUALITY_PRESETS[level]
+    this.qualityLevel = level
+
+    const pixelRatio = Math.min(window.devicePixelRatio, preset.maxPixelRatio)
+    this.renderer.setPixelRatio(pixelRatio)
+    this.composer.setPixelRatio(pixelRatio)
+
+    this.applyDebugState()
+
+    const qualityControl = document.getElementById('quality-control') as HTMLSelectElement | null
+    if (qualityControl) {
+      qualityControl.value = this.autoQuality ? 'auto' : level
+    }
+    const debugQuality = document.getElementById('debug-quality')
+    if (debugQuality) {
+      debugQuality.textContent = this.autoQuality ? `${level} (auto)` : level
+    }
+  }
+
+  private updateAutoQuality(frameTime: number): void {
+    // Only judge frames that simulate: the start screen and pauses say nothing about load
+    if (!this.autoQuality || this.isPaused || !this.simulationStarted) {
+      this.adaptiveQuality.reset()
+      return
+    }
+
+    if (this.adaptiveQuality.sample(frameTime)) {
+      // Only step when it helps now: the live particle systems keep their counts
+      const lower = lowerQuality(this.qualityLevel)
+      if (lower && relievesImmediately(this.qualityLevel, lower, window.devicePixelRatio, this.debugState)) {
+        this.setQuality(lower)
+      }
+    }
+  }
+
   private applyDebugState(): void {
     // Lights
     this.ambientLight.intensity = this.debugState.ambientLight ? 0.5 : 0
@@ -359,10 +509,20 @@ class SunSimulator {
       this.blackHole.lensingRing.visible = this.debugState.lensingRing
     }
 
+    // Pulsar beams share the jets toggle
+    if (this.neutronStar) {
+      this.neutronStar.beams.forEach(beam => {
+        beam.visible = this.debugState.jets
+      })
+    }
+
     // Accretion sources
     this.accretionSources.forEach(source => {
       source.particles.visible = this.debugState.accretionSources
     })
+    if (this.tidalDisruption) {
+      this.tidalDisruption.particles.visible = this.debugState.accretionSources
+    }
 
     // Supernova remnant
     if (this.supernovaRemnant) {
@@ -370,6 +530,11 @@ class SunSimulator {
         shell.visible = this.debugState.supernovaRemnant
       })
     }
+    if (this.typeIaEjecta) {
+      this.typeIaEjecta.shells.forEach(shell => {
+        shell.visible = this.debugState.supernovaRemnant
+      })
+    }
 
     // Red giant volumetric layers
     if (this.star) {
@@ -381,14 +546,59 @@ class SunSimulator {
       this.star.surfaceParticles.visible = this.debugState.stellarWind
       this.star.surfaceTexture.visible = this.debugState.surfaceTexture
     }
+    if (this.companion) {
+      this.companion.surfaceParticles.visible = this.debugState.stellarWind
+      this.companion.surfaceTexture.visible = this.debugState.surfaceTexture
+    }
 
-    // Post-processing
-    this.bloomPass.enabled = this.debugState.bloom
-    this.filmGrainPass.enabled = this.debugState.filmGrain
-    this.vignettePass.enabled = this.debugState.vignette
+    // Post-processing: the quality preset decides which passes may run
+    const preset = QUALITY_PRESETS[this.qualityLevel]
+    this.bloomPass.enabled = this.debugState.bloom && preset.bloom
+    this.filmGrainPass.enabled = this.debugState.filmGrain && preset.filmGrain
+    this.vignettePass.enabled = this.debugState.vignette && preset.vignette
   }
 
   private setupControls(): void {
+    // Initial mass (start screen), applied on release since it rebuilds the nebula
+    const massControl = document.getElementById('mass-control') as HTMLInputElement
+    if (massControl) {
+      massControl.value = this.stellarProfile.mass.toString()
+      this.updateMassDisplay(this.stellarProfile.mass)
+      massControl.addEventListener('input', () => {
+        this.updateMassDisplay(parseFloat(massControl.value))
+      })
+      massControl.addEventListener('change', () => {
+        this.setStellarMass(parseFloat(massControl.value))
+      })
+    }
+
+    const binaryControl = document.getElementById('binary-control') as HTMLInputElement
+    if (binaryControl) {
+      binaryControl.checked = this.binaryMode
+      binaryControl.addEventListener('change', () => {
+        this.setBinaryMode(binaryControl.checked)
+      })
+    }
+
+    // Quality preset (or auto)
+    const qualityControl = document.getElementById('quality-control') as HTMLSelectElement
+    if (qualityControl) {
+      qualityControl.value = this.autoQuality ? 'auto' : this.qualityLevel
+      qualityControl.addEventListener('change', () => {
+        const quality = parseQuality(qualityControl.value)
+        if (quality === null) return
+        this.updateConfig({ 'rendering.quality': quality })
+      })
+    }
+
+    const selfGravityControl = document.getElementById('self-gravity-control') as HTMLInputElement
+    if (selfGravityControl) {
+      selfGravityControl.checked = this.selfGravity
+      selfGravityControl.addEventListener('change', () => {
+        this.setSelfGravity(selfGravityControl.checked)
+      })
+    }
+
     // Start button
     const startBtn = document.getElementById('btn-start')
     const startScreen = document.getElementById('start-screen')
@@ -443,11 +653,124 @@ class SunSimulator {
       })
     }
 
+    // Load a shared setup (JSON file)
+    const loadConfigBtn = document.getElementById('btn-load-config')
+    const configFileInput = document.getElementById('config-file') as HTMLInputElement
+    const configStatus = document.getElementById('config-status')
+    if (loadConfigBtn && configFileInput) {
+      loadConfigBtn.addEventListener('click', () => configFileInput.click())
+      configFileInput.addEventListener('change', async () => {
+        const file = configFileInput.files?.[0]
+        configFileInput.value = '' // Same file again should load again
+        if (!file) return
+
+        const errors = await this.loadConfigFile(file)
+        if (configStatus) {
+          configStatus.textContent = errors.length === 0
+            ? `Loaded ${file.name}`
+            : `Loaded ${file.name}, skipped ${errors.length} setting${errors.length === 1 ? '' : 's'} (see console)`
+        }
+      })
+    }
+
+    // Viewpoints: built-in presets and saved bookmarks
+    const viewpointControl = document.getElementById('viewpoint-control') as HTMLSelectElement | null
+    if (viewpointControl) {
+      this.updateViewpointList()
+      viewpointControl.addEventListener('change', () => {
+        const [kind, key] = viewpointControl.value.split(':')
+        viewpointControl.value = ''
+        if (kind === 'preset') {
+          this.goToViewpoint(CAMERA_PRESETS[Number(key)])
+        } else if (kind === 'slot') {
+          this.restoreCameraBookmark(Number(key))
+        }
+      })
+    }
+    const exportViewsBtn = document.getElementById('btn-export-views')
+    if (exportViewsBtn) {
+      exportViewsBtn.addEventListener('click', () => {
+        this.downloadJson('camera-bookmarks.json', this.cameraBookmarks.toJson())
+      })
+    }
+
+    // Follow modes: a planet, an infalling chunk or the outer remnant shell
+    const followControl = document.getElementById('follow-control') as HTMLSelectElement | null
+    if (followControl) {
+      const addOption = (value: string, label: string) => {
+        const option = document.createElement('option')
+        option.value = value
+        option.textContent = label
+        followControl.appendChild(option)
+      }
+      PLANET_CONFIGS.forEach((planet, index) => addOption(`planet:${index}`, planet.name))
+      addOption('chunk', 'Infalling chunk')
+      addOption('shell', 'Outer remnant shell')
+
+      followControl.addEventListener('change', () => {
+        const [mode, index] = followControl.value.split(':')
+        if (mode === '') {
+          if (this.followCamera.getSubject()) this.stopFollowing()
+          return
+        }
+
+        const following =
+          mode === 'planet' ? this.followPlanet(Number(index))
+          : mode === 'chunk' ? this.followAccretionChunk()
+          : this.followRemnantShell()
+        if (!following) {
+          const label = followControl.selectedOptions[0]?.textContent
+          console.info(`[CAMERA] Nothing to follow in this phase: ${label}`)
+          followControl.value = ''
+        }
+      })
+    }
+
+    // Camera button: hand the camera back to the director, or take it
+    const cameraBtn = document.getElementById('btn-camera')
+    if (cameraBtn) {
+      cameraBtn.addEventListener('click', () => {
+        this.toggleCameraControl()
+      })
+    }
+
+    // Tidal disruption button (only does anything once the black hole has formed)
+    const tdeBtn = document.getElementById('btn-tde')
+    if (tdeBtn) {
+      tdeBtn.addEventListener('click', () => {
+        this.triggerTidalDisruption()
+      })
+    }
+
     // Reset button
     const resetBtn = document.getElementById('btn-reset')
     if (resetBtn) {
       resetBtn.addEventListener('click', () => {
-        window.location.reload()
+        this.reset()
+      })
+    }
+
+    // Seek bar (position across the whole lifecycle, applied on release)
+    const seekControl = document.getElementById('seek-control') as HTMLInputElement
+    const seekDisplay = document.getElementById('seek-display')
+    if (seekControl && seekDisplay) {
+      seekControl.addEventListener('input', () => {
+        this.isScrubbing = true
+        const target = this.timeline.fromGlobalPosition(parseFloat(seekControl.value))
+        const title = this.timeline.getDescriptor(target.phase)?.title ?? target.phase
+        seekDisplay.textContent = this.canSeek(target.phase)
+          ? `${title} (${(target.progress * 100).toFixed(0)}%)`
+          : `${title} (not seekable with self-gravity)`
+      })
+      seekControl.addEventListener('change', () => {
+        const target = this.timeline.fromGlobalPosition(parseFloat(seekControl.value))
+        this.isScrubbing = false
+        seekDisplay.textContent = 'Seeking…'
+        if (!this.seek(target.phase, target.progress)) {
+          // Refused: put the bar back where the simulation is
+          seekDisplay.textContent = ''
+          this.updateSeekBar()
+        }
       })
     }
 
@@ -496,6 +819,26 @@ class SunSimulator {
 
     // Keyboard shortcuts
     window.addEventListener('keydown', (e) => {
+      // Typing a value in the tweak panel isn't a shortcut
+      if (isTypingTarget(e.target)) return
+
+      // Camera bookmarks: Shift+digit flies to a view, Ctrl+Shift+digit saves one
+      // (e.code, since Shift turns the digit keys into symbols)
+      const bookmarkSlot = /^(Digit|Numpad)([1-9])$/.exec(e.code)
+      if (bookmarkSlot && e.shiftKey) {
+        e.preventDefault()
+        const slot = Number(bookmarkSlot[2])
+        if (e.ctrlKey || e.metaKey) {
+          this.saveCameraBookmark(slot)
+        } else {
+          this.restoreCameraBookmark(slot)
+        }
+        return
+      }
+
+      // While flying, WASD/QE/Shift steer (so A and D don't toggle debug views)
+      if (this.flyCamera.handlesKey(e.code)) return
+
       switch (e.key.toLowerCase()) {
         case ' ':
           e.preventDefault()
@@ -505,7 +848,16 @@ class SunSimulator {
           }
           break
         case 'r':
-          window.location.reload()
+          this.reset()
+          break
+        case 't':
+          this.triggerTidalDisruption()
+          break
+        case 'c':
+          this.toggleCameraControl()
+          break
+        case 'p':
+          this.setFlyMode(!this.flyCamera.isEnabled())
           break
         case 'f':
           if (!document.fullscreenElement) {
@@ -604,168 +956,65 @@ class SunSimulator {
       }
     })
 
-    // Bloom control sliders
-    const bloomStrengthSlider = document.getElementById('debug-bloom-strength') as HTMLInputElement
-    const bloomStrengthVal = document.getElementById('debug-bloom-strength-val')
-    if (bloomStrengthSlider && bloomStrengthVal) {
-      bloomStrengthSlider.addEventListener('input', () => {
-        this.debugState.bloomStrength = parseFloat(bloomStrengthSlider.value)
-        this.debugState.overrideBloom = true
-        bloomStrengthVal.textContent = this.debugState.bloomStrength.toFixed(2)
-        this.bloomPass.strength = this.debugState.bloomStrength
-      })
-    }
-
-    const bloomThresholdSlider = document.getElementById('debug-bloom-threshold') as HTMLInputElement
-    const bloomThresholdVal = document.getElementById('debug-bloom-threshold-val')
-    if (bloomThresholdSlider && bloomThresholdVal) {
-      bloomThresholdSlider.addEventListener('input', () => {
-        this.debugState.bloomThreshold = parseFloat(bloomThresholdSlider.value)
-        bloomThresholdVal.textContent = this.debugState.bloomThreshold.toFixed(2)
-        this.bloomPass.threshold = this.debugState.bloomThreshold
-      })
-    }
-
-    const bloomRadiusSlider = document.getElementById('debug-bloom-radius') as HTMLInputElement
-    const bloomRadiusVal = document.getElementById('debug-bloom-radius-val')
-    if (bloomRadiusSlider && bloomRadiusVal) {
-      bloomRadiusSlider.addEventListener('input', () => {
-        this.debugState.bloomRadius = parseFloat(bloomRadiusSlider.value)
-        bloomRadiusVal.textContent = this.debugState.bloomRadius.toFixed(2)
-        this.bloomPass.radius = this.debugState.bloomRadius
-      })
-    }
-
-    const ehGlowSlider = document.getElementById('debug-eh-glow') as HTMLInputElement
-    const ehGlowVal = document.getElementById('debug-eh-glow-val')
-    if (ehGlowSlider && ehGlowVal) {
-      ehGlowSlider.addEventListener('input', () => {
-        this.debugState.eventHorizonGlow = parseFloat(ehGlowSlider.value)
-        ehGlowVal.textContent = this.debugState.eventHorizonGlow.toFixed(2)
-        // Apply to black hole if it exists
-        if (this.blackHole) {
-          (this.blackHole.eventHorizon.material as THREE.ShaderMaterial).uniforms.glowIntensity.value = this.debugState.eventHorizonGlow
-        }
-      })
-    }
-
-    const lensingStrengthSlider = document.getElementById('debug-lensing-strength') as HTMLInputElement
-    const lensingStrengthVal = document.getElementById('debug-lensing-strength-val')
-    if (lensingStrengthSlider && lensingStrengthVal) {
-      lensingStrengthSlider.addEventListener('input', () => {
-        const strength = parseFloat(lensingStrengthSlider.value)
-        lensingStrengthVal.textContent = strength.toFixed(2)
-        // Apply to lensing pass
-        this.lensingPass.setLensingStrength(strength)
-      })
-    }
-
-    // Reset bloom controls button
-    const bloomResetBtn = document.getElementById('debug-bloom-reset')
-    if (bloomResetBtn) {
-      bloomResetBtn.addEventListener('click', () => {
-        // Reset to defaults
-        this.debugState.bloomStrength = 0.8
-        this.debugState.bloomThreshold = 0.85
-        this.debugState.bloomRadius = 0.4
-        this.debugState.eventHorizonGlow = 2.0
-        this.debugState.overrideBloom = false
-
-        // Update sliders and displays
-        if (bloomStrengthSlider && bloomStrengthVal) {
-          bloomStrengthSlider.value = '0.8'
-          bloomStrengthVal.textContent = '0.80'
-        }
-        if (bloomThresholdSlider && bloomThresholdVal) {
-          bloomThresholdSlider.value = '0.85'
-          bloomThresholdVal.textContent = '0.85'
-        }
-        if (bloomRadiusSlider && bloomRadiusVal) {
-          bloomRadiusSlider.value = '0.4'
-          bloomRadiusVal.textContent = '0.40'
-        }
-        if (ehGlowSlider && ehGlowVal) {
-          ehGlowSlider.value = '2.0'
-          ehGlowVal.textContent = '2.00'
-        }
-        if (lensingStrengthSlider && lensingStrengthVal) {
-          lensingStrengthSlider.value = '0.8'
-          lensingStrengthVal.textContent = '0.80'
-        }
-
-        // Apply to bloom pass
-        this.bloomPass.strength = 0.8
-        this.bloomPass.threshold = 0.85
-        this.bloomPass.radius = 0.4
-
-        // Apply to lensing pass
-        this.lensingPass.setLensingStrength(0.8)
-
-        // Apply to black hole if it exists
-        if (this.blackHole) {
-          (this.blackHole.eventHorizon.material as THREE.ShaderMaterial).uniforms.glowIntensity.value = 2.0
-        }
-
+    // Tweak panel: one control per config setting, generated from the schema
+    const tweakContainer = document.getElementById('tweak-panel')
+    if (tweakContainer) {
+      this.tweakPanel = new TweakPanel(tweakContainer, SIMULATION_CONFIG_SCHEMA, {
+        get: (path) => (isConfigPath(path) ? getConfigValue(this.config, path) : undefined),
+        set: (changes) => this.updateConfig(changes),
       })
+      this.tweakPanel.addButton('EXPORT JSON', () => this.exportConfig())
     }
   }
 
   private animate(): void {
     requestAnimationFrame(this.animate.bind(this))
 
-    // Get delta time and apply time scale
-    let deltaTime = this.clock.getDelta()
+    // Real time since last frame, clamped so a stalled tab doesn't trigger a burst of steps
+    const frameDelta = Math.min(this.clock.getDelta(), this.maxFrameDelta)
 
-    // Apply pause and time scale
-    if (this.isPaused) {
-      deltaTime = 0
+    if (this.flyCamera.isEnabled()) {
+      // Free flight, kept out of the event horizon
+      if (this.blackHole) {
+        this.flyCamera.setHorizon(this.blackHole.getPosition(), this.blackHole.getEventHorizonRadius())
+      } else {
+        this.flyCamera.clearHorizon()
+      }
+      this.flyCamera.update(frameDelta)
     } else {
-      deltaTime *= this.timeScale
-    }
-
-    // Update controls
-    this.controls.update()
-
-    // Update camera base position for transitions
-    // When camera is free, track the actual camera position for smooth lock transitions
-    if (!this.isCameraLocked) {
-      this.cameraBasePosition.copy(this.camera.position)
-    }
+      // Update controls
+      this.controls.update()
 
-    // Apply camera shake during supernova (only when locked)
-    if (this.star && this.isCameraLocked) {
-      const shakeIntensity = this.star.getCameraShakeIntensity()
-      if (shakeIntensity > 0) {
-        // Apply shake offset
-        const shakeAmount = 0.5 * shakeIntensity // Max shake of 0.5 units
-        this.camera.position.x = this.cameraBasePosition.x + (Math.random() - 0.5) * shakeAmount
-        this.camera.position.y = this.cameraBasePosition.y + (Math.random() - 0.5) * shakeAmount
-        this.camera.position.z = this.cameraBasePosition.z + (Math.random() - 0.5) * shakeAmount * 0.3
+      // Move the camera with a followed object, or along the phase's shot (unless the user has it)
+      if (this.followCamera.getSubject()) {
+        if (!this.followCamera.update(frameDelta)) this.stopFollowing()
       } else {
-        // Reset to base position when no shake (only when locked)
-        this.camera.position.copy(this.cameraBasePosition)
+        this.cameraDirector.update(this.timeline.getProgress(), frameDelta)
       }
     }
 
-    // Update current phase
-    this.updatePhaseLogic(deltaTime)
-    if (this.ignitionBurst) {
-      this.ignitionBurst.update(deltaTime)
-      if (!this.ignitionBurst.active) {
-        this.ignitionBurst = null
-      }
+    // Advance the simulation in fixed steps (pause and time scale applied inside), or carry on seeking
+    if (this.seekReplay) {
+      this.continueSeek()
+    } else {
+      this.advanceSimulation(frameDelta)
     }
+    this.updateSeekBar()
+
+    // An exploding star's flash holds the shake up; other events add trauma as they happen
+    if (!this.isPaused) this.cameraShake.sustain(this.getCameraShakeIntensity())
+    this.cameraShake.update(frameDelta)
 
     // Dynamic bloom intensity based on star phase (unless manually overridden)
-    if (this.star && !this.debugState.overrideBloom) {
-      const shakeIntensity = this.star.getCameraShakeIntensity()
+    if ((this.star || this.typeIaFlash) && !this.debugState.overrideBloom) {
+      const shakeIntensity = this.getCameraShakeIntensity()
 
       if (shakeIntensity > 0) {
         // Supernova: bloom gets INSANE (0.8 base → 3.5 peak)
         this.bloomPass.strength = THREE.MathUtils.lerp(0.8, 3.5, shakeIntensity)
         this.bloomPass.radius = 0.4 // Reset radius for supernova
         this.bloomPass.threshold = 0.85 // Reset threshold for supernova
-      } else if (this.star.isInRedGiantPhase()) {
+      } else if (this.star?.isInRedGiantPhase()) {
         // Red giant: soft, diffuse ember glow - larger radius, lower threshold
         const expansionProgress = this.star.getExpansionProgress()
         // Strength stays strong (ember still glows!) - slight increase as it expands
@@ -785,8 +1034,556 @@ class SunSimulator {
     // Update debug stats if overlay is visible
     this.updateDebugStats()
 
-    // Render scene with post-processing
+    // Render scene with post-processing, blended between the last two simulation steps
+    this.interpolator.apply(this.accumulator / this.fixedStep)
+    this.cameraShake.apply(this.camera)
     this.composer.render()
+    this.cameraShake.restore(this.camera)
+    this.interpolator.restore()
+  }
+
+  /** Shake from whichever explosion is running (core collapse lives in Star, Type Ia here) */
+  private getCameraShakeIntensity(): number {
+    const starShake = this.star ? this.star.getCameraShakeIntensity() : 0
+    const typeIaShake = this.typeIaFlash ? this.typeIaFlash.getShakeIntensity() : 0
+    return Math.max(starShake, typeIaShake)
+  }
+
+  /**
+   * Fixed-timestep accumulator: physics always advances in fixedStep increments,
+   * so it behaves the same at any frame rate or speed multiplier
+   */
+  private advanceSimulation(frameDelta: number): void {
+    if (!this.isPaused && this.simulationStarted) {
+      this.accumulator += frameDelta * this.timeScale
+    }
+
+    const steps = Math.min(Math.floor(this.accumulator / this.fixedStep), this.maxSubSteps)
+    for (let i = 0; i < steps; i++) {
+      // Only the last step's starting state is needed to interpolate this frame
+      if (i === steps - 1) {
+        this.interpolator.capture(this.getInterpolatedAttributes(), this.getInterpolatedObjects())
+      }
+      this.stepSimulation(this.fixedStep)
+      this.accumulator -= this.fixedStep
+    }
+
+    // Too far behind (e.g. 5x speed on a slow frame): drop the backlog rather than spiral
+    if (this.accumulator >= this.fixedStep) {
+      this.accumulator %= this.fixedStep
+    }
+  }
+
+  private getInterpolatedAttributes(): THREE.BufferAttribute[] {
+    // Worker-backed particles are skipped (their buffers change hands between steps), as are GPU ones
+    const points: THREE.Points[] = []
+    if (this.nebula && !this.nebula.usesWorker && !this.nebula.usesGpu) points.push(this.nebula['particles'])
+    if (this.star) points.push(this.star.surfaceParticles, this.star.streakParticles)
+    if (this.companion) points.push(this.companion.surfaceParticles, this.companion.streakParticles)
+    if (this.massTransferStream) points.push(this.massTransferStream.particles)
+    ;[this.typeIaEjecta, this.supernovaRemnant].forEach((remnant) => {
+      if (remnant && !remnant.usesWorker && !remnant.usesGpu) points.push(...remnant.shells)
+    })
+    this.accretionSources.forEach((source) => {
+      if (!source.usesWorker) points.push(source.particles)
+    })
+    if (this.tidalDisruption) points.push(this.tidalDisruption.particles)
+
+    return points.map((p) => p.geometry.attributes.position as THREE.BufferAttribute)
+  }
+
+  private getInterpolatedObjects(): THREE.Object3D[] {
+    const objects: THREE.Object3D[] = []
+    if (this.planetSystem) {
+      objects.push(...this.planetSystem['planets'])
+      this.planetSystem['atmospheres'].forEach((atmosphere) => {
+        if (atmosphere) objects.push(atmosphere)
+      })
+    }
+    if (this.supernovaRemnant) objects.push(...this.supernovaRemnant.shells)
+    if (this.typeIaEjecta) objects.push(...this.typeIaEjecta.shells)
+    if (this.star) objects.push(this.star['group'])
+    if (this.companion) objects.push(this.companion['group'])
+    if (this.tidalDisruption) objects.push(this.tidalDisruption.star)
+    return objects
+  }
+
+  /**
+   * Where new particle systems run. A seek replay can't wait for workers or
+   * GPU readbacks, so whatever it builds stays on this thread
+   */
+  private getParticleBackend(): ParticleBackendOptions {
+    return {
+      useWorker: this.particleWorkers && !this.isSeeking,
+      particleScale: this.particleScale * QUALITY_PRESETS[this.qualityLevel].particleScale,
+      gpuRenderer: this.gpuParticles && !this.isSeeking ? this.renderer : null,
+    }
+  }
+
+  private stepSimulation(deltaTime: number): void {
+    this.updatePhaseLogic(deltaTime)
+    this.tweens.update(deltaTime)
+    if (this.ignitionBurst) {
+      this.ignitionBurst.update(deltaTime)
+      if (!this.ignitionBurst.active) {
+        this.ignitionBurst = null
+      }
+    }
+  }
+
+  /**
+   * Jump to a moment in the lifecycle, rebuilding every subsystem from scratch.
+   * Works in both directions: state is torn down and replayed at a fixed step
+   * up to the target, a slice per frame (the timeline shows it fast-forwarding).
+   * A seek into the nebula replays the collapse as it ran. Later phases replay
+   * from ignition with the protostar at its default radius, skipping the
+   * nebula's draws from the seeded stream: seeking to the same moment always
+   * lands in the same state, but not exactly the one a run from the start
+   * would have reached. Seeks into a self-gravity collapse are refused (see
+   * canSeek); returns whether the seek started.
+   */
+  public seek(phase: SimulationPhase, progressWithinPhase: number): boolean {
+    if (!this.simulationStarted) return false
+
+    const targetIndex = this.timeline.indexOf(phase)
+    if (targetIndex < 0) {
+      throw new Error(`Cannot seek to phase not in timeline: ${phase}`)
+    }
+    if (!this.canSeek(phase)) {
+      console.warn('[SEEK] The self-gravity collapse can\'t be replayed; seek to a later phase instead')
+      return false
+    }
+    const progress = THREE.MathUtils.clamp(progressWithinPhase, 0, 1)
+
+    this.isSeeking = true
+    this.disposeSubsystems()
+    // Restart the seeded stream so the replay is reproducible
+    Random.setSeed(Random.getSeed())
+
+    if (phase === SimulationPhase.NEBULA_COLLAPSE) {
+      // Collapse is emergent, so replay until the cloud reaches the target progress
+      this.timeline.start(SimulationPhase.NEBULA_COLLAPSE)
+      this.seekReplay = { phase, progress, elapsed: 0, steps: 0 }
+    } else {
+      this.timeline.start(SimulationPhase.MAIN_SEQUENCE)
+      const elapsed = progress * this.timeline.getSpan(this.timeline.getDescriptors()[targetIndex])
+      this.seekReplay = { phase, progress, elapsed, steps: 0 }
+    }
+    this.continueSeek()
+    return true
+  }
+
+  /**
+   * The self-gravity solver answers from a worker a frame or more later, so a
+   * replay (many steps within one frame) can't reproduce the collapse
+   */
+  private canSeek(phase: SimulationPhase): boolean {
+    return !(this.selfGravity && phase === SimulationPhase.NEBULA_COLLAPSE)
+  }
+
+  /** Replay toward the seek target for this frame's budget, finishing once it is reached */
+  private continueSeek(): void {
+    const replay = this.seekReplay
+    if (!replay) return
+
+    const deadline = performance.now() + this.seekFrameBudget
+    do {
+      if (this.reachedSeekTarget(replay) || replay.steps >= this.maxSeekSteps) {
+        this.finishSeek()
+        return
+      }
+      this.stepSimulation(this.fixedStep)
+      replay.steps++
+    } while (performance.now() < deadline)
+  }
+
+  private reachedSeekTarget(replay: SeekReplay): boolean {
+    const current = this.timeline.getCurrentPhase()
+    if (!current) return true
+    if (replay.phase === SimulationPhase.NEBULA_COLLAPSE) {
+      return current !== replay.phase || this.timeline.getProgress() >= replay.progress
+    }
+
+    const currentIndex = this.timeline.indexOf(current)
+    const targetIndex = this.timeline.indexOf(replay.phase)
+    return currentIndex > targetIndex || (currentIndex === targetIndex && this.timeline.getElapsed() >= replay.elapsed)
+  }
+
+  private finishSeek(): void {
+    this.seekReplay = null
+    this.isSeeking = false
+    const seekDisplay = document.getElementById('seek-display')
+    if (seekDisplay) seekDisplay.textContent = ''
+    this.applyDebugState()
+
+    // Replay ran silently, so crossfade straight into the landing phase
+    const landedPhase = this.timeline.getCurrentPhase()
+    if (landedPhase) {
+      this.audioManager.transitionToPhase(landedPhase, 1.0)
+    }
+
+    // Avoid a large delta from the time spent replaying
+    this.accumulator = 0
+    this.clock.getDelta()
+  }
+
+  /**
+   * Restart the lifecycle from a fresh nebula without reloading the page,
+   * so decoded audio and the start-screen state survive
+   */
+  public reset(): void {
+    // Abandon a seek that is still replaying
+    this.seekReplay = null
+    this.isSeeking = false
+    this.disposeSubsystems()
+    // Same seed, same run
+    Random.setSeed(Random.getSeed())
+    this.accumulator = 0
+
+    // Re-entering the first phase creates the nebula and restores its camera and text
+    this.timeline.start()
+    this.applyDebugState()
+
+    if (this.simulationStarted) {
+      this.audioManager.transitionToPhase(SimulationPhase.NEBULA_COLLAPSE, 1.0)
+    }
+
+    this.clock.getDelta()
+  }
+
+  /**
+   * Take on a whole config: seed, lifecycle, tunables and rendering. Systems
+   * pick the tunables up as they are built, so callers restart afterwards
+   */
+  private applyConfig(config: SimulationConfig): void {
+    this.config = config
+
+    // No seed means a fresh one; either way the config records the seed in use, so it can be shared
+    Random.setSeed(config.seed ?? Random.generateSeed())
+    config.seed = Random.getSeed()
+    const debugSeed = document.getElementById('debug-seed')
+    if (debugSeed) {
+      debugSeed.textContent = Random.getSeed().toString()
+    }
+
+    this.stellarProfile = createConfiguredProfile(config)
+    this.binaryMode = config.star.binary
+    this.selfGravity = config.nebula.selfGravity
+    this.transitionDuration = config.timers.transitionDuration
+
+    this.applyParticleBackend()
+    this.applyQualitySetting()
+    this.applyViewSettings(true)
+    this.applyBlackHoleSpin()
+
+    // Start screen controls
+    const massControl = document.getElementById('mass-control') as HTMLInputElement | null
+    if (massControl) {
+      massControl.value = this.stellarProfile.mass.toString()
+      this.updateMassDisplay(this.stellarProfile.mass)
+    }
+    const binaryControl = document.getElementById('binary-control') as HTMLInputElement | null
+    if (binaryControl) binaryControl.checked = this.binaryMode
+    const selfGravityControl = document.getElementById('self-gravity-control') as HTMLInputElement | null
+    if (selfGravityControl) selfGravityControl.checked = this.selfGravity
+
+    this.tweakPanel?.refresh()
+  }
+
+  /**
+   * Apply edits from the tweak panel. Settings marked `restart` rebuild the
+   * lifecycle; the rest take effect on the running simulation
+   */
+  private updateConfig(changes: Record<string, unknown>): void {
+    const { config, errors } = applyConfigOverrides(this.config, changes)
+    errors.forEach((error) => console.warn(`[CONFIG] ${error}`))
+
+    const changed = CONFIG_PATHS.filter((path) => getConfigValue(config, path) !== getConfigValue(this.config, path))
+    if (changed.length === 0) {
+      this.tweakPanel?.refresh() // Put rejected values back
+      return
+    }
+
+    if (changed.some((path) => SIMULATION_CONFIG_SCHEMA[path].restart)) {
+      this.applyConfig(config)
+      this.timeline.setDescriptors(applyStellarProfile(DEFAULT_PHASE_TIMELINE, this.stellarProfile, this.binaryMode))
+      this.reset()
+      return
+    }
+
+    this.config = config
+    if (changed.includes('rendering.quality')) this.applyQualitySetting()
+    if (changed.some((path) => path.startsWith('rendering.') && path !== 'rendering.quality')) {
+      // Particle systems pick these up when they are next built
+      this.applyParticleBackend()
+    }
+    if (changed.includes('blackHole.spin')) this.applyBlackHoleSpin()
+    if (changed.some((path) => path.startsWith('view.'))) {
+      this.applyViewSettings(changed.includes('view.eventHorizonGlow'))
+    }
+  }
+
+  private applyParticleBackend(): void {
+    const { rendering } = this.config
+    this.particleScale = rendering.particleScale
+    this.particleWorkers = isParticleWorkerSupported() && rendering.workers
+    this.gpuParticles = isGpuParticleSupported(this.renderer) && rendering.gpu
+    const debugBackend = document.getElementById('debug-particle-backend')
+    if (debugBackend) {
+      const backends = [this.gpuParticles && 'GPU', this.particleWorkers ? 'workers' : 'main thread'].filter(Boolean)
+      debugBackend.textContent = `${backends.join(' + ')} ×${this.particleScale}`
+    }
+  }
+
+  private applyQualitySetting(): void {
+    const quality = this.config.rendering.quality
+    this.autoQuality = quality === 'auto'
+    this.adaptiveQuality.reset()
+    this.setQuality(quality === 'auto' ? this.qualityLevel : quality)
+  }
+
+  /**
+   * Bloom, horizon glow and lensing. Bloom left at its defaults stays dynamic
+   * (it swells at the supernova); any other value pins it
+   */
+  private applyViewSettings(applyGlow: boolean): void {
+    const { view } = this.config
+    const bloomPaths = ['view.bloomStrength', 'view.bloomThreshold', 'view.bloomRadius'] as const
+    this.debugState.overrideBloom = bloomPaths.some(
+      (path) => getConfigValue(this.config, path) !== SIMULATION_CONFIG_SCHEMA[path].default
+    )
+    this.bloomPass.strength = view.bloomStrength
+    this.bloomPass.threshold = view.bloomThreshold
+    this.bloomPass.radius = view.bloomRadius
+    this.lensingPass.setLensingStrength(view.lensingStrength)
+
+    // The horizon glows at its own pace while the hole forms, so only an edit overrides it
+    if (applyGlow && this.blackHole) {
+      (this.blackHole.eventHorizon.material as THREE.ShaderMaterial).uniforms.glowIntensity.value = view.eventHorizonGlow
+    }
+  }
+
+  /** Download the current settings; Load Setup reads them back */
+  private exportConfig(): void {
+    this.downloadJson(`sun-simulator-${this.config.seed}.json`, JSON.stringify(this.config, null, 2))
+  }
+
+  private downloadJson(filename: string, json: string): void {
+    const blob = new Blob([json], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  /** Bookmark the current view in a slot (Ctrl+Shift+1-9) */
+  private saveCameraBookmark(slot: number): void {
+    this.cameraBookmarks.save(slot, {
+      name: `View ${slot}`,
+      position: this.camera.position.toArray(),
+      target: this.getViewTarget().toArray(),
+      fov: this.camera.fov,
+    })
+    this.updateViewpointList()
+    this.setViewpointStatus(`Saved view ${slot}`)
+  }
+
+  /** Fly to a bookmark (Shift+1-9) */
+  private restoreCameraBookmark(slot: number): void {
+    const bookmark = this.cameraBookmarks.get(slot)
+    if (!bookmark) {
+      this.setViewpointStatus(`View ${slot} is empty (Ctrl+Shift+${slot} saves it)`)
+      return
+    }
+    this.goToViewpoint(bookmark)
+  }
+
+  /** Ease to a viewpoint and leave the camera with the user there */
+  private goToViewpoint(bookmark: CameraBookmark): void {
+    this.leaveFlyMode()
+    this.cameraDirector.flyTo({
+      position: new THREE.Vector3(...bookmark.position),
+      target: new THREE.Vector3(...bookmark.target),
+      fov: bookmark.fov,
+    })
+    this.updateCameraButton()
+    this.setViewpointStatus(bookmark.name)
+  }
+
+  /** Presets, then saved slots, in the viewpoint select */
+  private updateViewpointList(): void {
+    const select = document.getElementById('viewpoint-control') as HTMLSelectElement | null
+    if (!select) return
+
+    select.innerHTML = '<option value="">Go to view…</option>'
+    const addOption = (value: string, label: string) => {
+      const option = document.createElement('option')
+      option.value = value
+      option.textContent = label
+      select.appendChild(option)
+    }
+    CAMERA_PRESETS.forEach((preset, index) => addOption(`preset:${index}`, preset.name))
+    this.cameraBookmarks.getSaved().forEach(({ slot, bookmark }) => addOption(`slot:${slot}`, `${slot}: ${bookmark.name}`))
+  }
+
+  private setViewpointStatus(text: string): void {
+    const status = document.getElementById('viewpoint-status')
+    if (status) status.textContent = text
+  }
+
+  /**
+   * Load settings from an uploaded JSON file on top of the current ones and
+   * restart. Settings that don't validate are reported and left as they were
+   */
+  public async loadConfigFile(file: File): Promise<string[]> {
+    const { config, errors } = configFromJson(await file.text(), this.config)
+    errors.forEach((error) => console.warn(`[CONFIG] ${file.name}: ${error}`))
+
+    this.applyConfig(config)
+    this.timeline.setDescriptors(applyStellarProfile(DEFAULT_PHASE_TIMELINE, this.stellarProfile, this.binaryMode))
+    this.reset()
+    return errors
+  }
+
+  /**
+   * Choose the star's initial mass; retimes the lifecycle and restarts it
+   */
+  public setStellarMass(mass: number): void {
+    this.config.star.mass = mass
+    this.stellarProfile = createConfiguredProfile(this.config)
+    this.timeline.setDescriptors(applyStellarProfile(DEFAULT_PHASE_TIMELINE, this.stellarProfile, this.binaryMode))
+    this.reset()
+    this.tweakPanel?.refresh()
+  }
+
+  /**
+   * Toggle the binary companion; restarts the lifecycle
+   */
+  public setBinaryMode(enabled: boolean): void {
+    this.binaryMode = enabled
+    this.config.star.binary = enabled
+    this.timeline.setDescriptors(applyStellarProfile(DEFAULT_PHASE_TIMELINE, this.stellarProfile, this.binaryMode))
+    this.reset()
+    this.tweakPanel?.refresh()
+  }
+
+  /**
+   * Toggle nebula self-gravity; restarts the lifecycle
+   */
+  public setSelfGravity(enabled: boolean): void {
+    this.selfGravity = enabled
+    this.config.nebula.selfGravity = enabled
+    this.reset()
+    this.tweakPanel?.refresh()
+  }
+
+  private updateMassDisplay(mass: number): void {
+    const massDisplay = document.getElementById('mass-display')
+    if (!massDisplay) return
+
+    massDisplay.textContent = `${mass.toFixed(1)} M☉ · ${REMNANT_LABELS[getRemnantType(mass)]}`
+  }
+
+  private disposeSubsystems(): void {
+    this.tweens.cancelAll()
+    this.followCamera.stop() // The director takes the camera when the lifecycle restarts
+    this.cameraShake.reset()
+    this.disposeNebula()
+
+    if (this.star) {
+      this.star.dispose()
+      this.star = null
+    }
+    if (this.ignitionBurst) {
+      this.ignitionBurst.dispose()
+      this.ignitionBurst = null
+    }
+    if (this.planetSystem) {
+      this.planetSystem.dispose()
+      this.planetSystem = null
+    }
+    if (this.blackHole) {
+      this.blackHole.dispose()
+      this.blackHole = null
+    }
+    if (this.supernovaRemnant) {
+      this.supernovaRemnant.dispose()
+      this.supernovaRemnant = null
+    }
+    if (this.whiteDwarf) {
+      this.whiteDwarf.dispose()
+      this.whiteDwarf = null
+    }
+    if (this.neutronStar) {
+      this.neutronStar.dispose()
+      this.neutronStar = null
+    }
+    this.accretionSources.forEach((source) => source.dispose())
+    this.accretionSources = []
+    if (this.tidalDisruption) {
+      this.tidalDisruption.dispose()
+      this.tidalDisruption = null
+    }
+    if (this.companion) {
+      this.companion.dispose()
+      this.companion = null
+    }
+    if (this.massTransferStream) {
+      this.massTransferStream.dispose()
+      this.massTransferStream = null
+    }
+    this.binaryOrbit = null
+    if (this.typeIaFlash) {
+      this.typeIaFlash.dispose()
+      this.typeIaFlash = null
+    }
+    if (this.typeIaEjecta) {
+      this.typeIaEjecta.dispose()
+      this.typeIaEjecta = null
+    }
+    this.interpolator.clear()
+
+    // Undo scene changes made by the later phases
+    this.lensingPass.setEnabled(false)
+    this.pointLight.visible = true
+    if (!this.debugState.overrideBloom) {
+      this.bloomPass.strength = 0.8
+      this.bloomPass.radius = 0.4
+      this.bloomPass.threshold = 0.85
+    }
+  }
+
+  private disposeNebula(): void {
+    if (!this.nebula) return
+
+    this.scene.remove(this.nebula['particles'])
+    this.scene.remove(this.nebula['protostar'])
+    this.scene.remove(this.nebula['protostarLight'])
+    this.nebula.dispose()
+    this.nebula = null
+  }
+
+  private playSoundEffect(name: string, volume: number): void {
+    // Seeking replays phase entries that shouldn't be heard
+    if (this.isSeeking) return
+    this.audioManager.playSoundEffect(name, volume)
+  }
+
+  private addCameraTrauma(amount: number): void {
+    // Seeking replays events that shouldn't be felt
+    if (this.isSeeking) return
+    this.cameraShake.addTrauma(amount)
+  }
+
+  private updateSeekBar(): void {
+    if (this.isScrubbing) return
+
+    const seekControl = document.getElementById('seek-control') as HTMLInputElement | null
+    if (seekControl) {
+      seekControl.value = this.timeline.getGlobalPosition().toFixed(3)
+    }
   }
 
   private updatePhaseLogic(deltaTime: number): void {
@@ -806,123 +1603,47 @@ class SunSimulator {
       this.planetSystem.update(deltaTime, currentStarRadius)
     }
 
+    this.updateBinary(deltaTime)
+
     // Update supernova remnant if it exists
     if (this.supernovaRemnant) {
       this.supernovaRemnant.update(deltaTime)
     }
 
-    switch (this.currentPhase) {
-      case SimulationPhase.NEBULA_COLLAPSE:
-        if (this.nebula) {
-          this.nebula.update(deltaTime)
-
-          const avgRadius = this.nebula.getAverageRadius()
-          const collapseProgress = this.nebula.getCollapseProgress()
-
-          this.updateNebulaTelemetry(avgRadius, collapseProgress)
-
-          if (collapseProgress >= 0.92) {
-            this.startTransitionToMainSequence()
-          }
-        }
-        break
-
-      case SimulationPhase.MAIN_SEQUENCE:
-        if (this.star) {
-          this.star.update(deltaTime)
-
-          // Track main sequence duration and trigger red giant expansion
-          this.mainSequenceTimer += deltaTime
-          if (this.mainSequenceTimer >= this.mainSequenceDuration && !this.star.isInRedGiantPhase()) {
-            this.startRedGiantExpansion()
-          }
-        }
-        break
+    // Run the current phase (handlers registered in registerPhaseHandlers)
+    this.timeline.update(deltaTime)
 
-      case SimulationPhase.RED_GIANT:
-        if (this.star) {
-          this.star.update(deltaTime)
-
-          // Zoom camera out as red giant expands (half the expansion rate)
-          const expansionProgress = this.star.getExpansionProgress()
-          // Zoom from 40 (phase 2 position) to ~90 as star expands
-          // Star expands by ~6x, so camera zooms out proportionally (half the expansion)
-          const targetZ = 40 + (50 * expansionProgress)
-          this.camera.position.z = THREE.MathUtils.lerp(this.camera.position.z, targetZ, 0.02)
-          this.cameraBasePosition.z = this.camera.position.z
-
-          // Track red giant duration and trigger supernova
-          this.redGiantTimer += deltaTime
-          if (this.redGiantTimer >= this.redGiantDuration && !this.star.isInSupernovaPhase()) {
-            this.startSupernova()
-          }
-        }
-        break
-
-      case SimulationPhase.SUPERNOVA:
-        if (this.star) {
-          this.star.update(deltaTime)
-
-          // Track supernova duration
-          this.supernovaTimer += deltaTime
-
-          // Update black hole (present from t=0) - STAGED FORMATION
-          if (this.blackHole) {
-            this.blackHole.update(deltaTime)
-
-            // Update lensing pass with black hole position and radius
-            this.lensingPass.setBlackHolePosition(this.blackHole.getPosition())
-            this.lensingPass.setSchwarzschildRadius(this.blackHole.getEventHorizonRadius())
-
-            // Enable lensing as black hole forms (fade in with formation)
-            this.lensingPass.setEnabled(true)
-
-            const t = this.supernovaTimer
-
-            // Calculate each element's opacity based on its formation timeline
-            // Stage 1: Black hole scales during core collapse (t=0-1.5s)
-            let bhScale = 0
-            if (t <= 1.5) {
-              bhScale = t / 1.5 // Gradual growth over 1.5s
-            } else {
-              bhScale = 1.0
-            }
-            this.blackHole.setScale(bhScale)
-
-            // Stage 2: Event horizon snaps visible when core reaches singularity (t=1.2s)
-            let horizonOpacity = 0
-            if (t >= 1.2) {
-              horizonOpacity = 1.0 // INSTANT appearance
-            }
-            this.blackHole.setEventHorizonOpacity(horizonOpacity)
-
-            // Stage 3: Accretion disk forms gradually (t=2-4.5s)
-            let diskOpacity = 0
-            if (t >= 2.0 && t <= 4.5) {
-              diskOpacity = (t - 2.0) / 2.5 // 0→1 over 2.5s
-            } else if (t > 4.5) {
-              diskOpacity = 1.0
-            }
-            this.blackHole.setAccretionDiskOpacity(diskOpacity)
-
-            // Stage 4: Jets emerge last (t=3.5-7.5s) - slower, more gradual
-            let jetOpacity = 0
-            if (t >= 3.5 && t <= 7.5) {
-              jetOpacity = (t - 3.5) / 4.0 // 0→1 over 4 seconds (slower)
-            } else if (t > 7.5) {
-              jetOpacity = 1.0
-            }
-            this.blackHole.setJetOpacity(jetOpacity)
-          }
+  }
 
-          // Transition to black hole phase when supernova ends
-          if (this.supernovaTimer >= this.supernovaDuration) {
-            this.completeBlackHoleTransition()
-          }
+  private registerPhaseHandlers(): void {
+    registerLifecycleHandlers(this.timeline, {
+      startNebula: () => {
+        if (!this.nebula) {
+          this.nebula = new Nebula(this.scene, this.selfGravity, this.getParticleBackend(), this.config.nebula)
         }
-        break
-
-      case SimulationPhase.BLACK_HOLE:
+      },
+      updateNebula: (deltaTime) => {
+        if (!this.nebula) return
+        this.nebula.update(deltaTime)
+        this.updateNebulaTelemetry(this.nebula.getAverageRadius(), this.nebula.getCollapseProgress())
+      },
+      getCollapseProgress: () => this.nebula?.getCollapseProgress() ?? 0,
+
+      ignite: () => this.startTransitionToMainSequence(),
+      updateStar: (deltaTime) => this.star?.update(deltaTime),
+      startRedGiant: () => this.startRedGiantExpansion(),
+      endRedGiant: () => this.recentreBinary(),
+
+      startSupernova: () => this.startSupernova(),
+      updateSupernova: (deltaTime, elapsed) => {
+        if (!this.star) return
+        this.star.update(deltaTime)
+        this.updateBlackHoleFormation(deltaTime, elapsed)
+        this.updateNeutronStarFormation(deltaTime, elapsed)
+      },
+
+      startBlackHole: () => this.completeBlackHoleTransition(),
+      updateBlackHole: (deltaTime) => {
         if (this.blackHole) {
           this.blackHole.update(deltaTime)
           // Black hole should already be at full opacity from supernova overlap fade-in
@@ -930,24 +1651,7 @@ class SunSimulator {
 
           // Update lensing pass with black hole position and radius
           this.lensingPass.setBlackHolePosition(this.blackHole.getPosition())
-          this.lensingPass.setSchwarzschildRadius(this.blackHole.getEventHorizonRadius())
-        }
-
-        // Smoothly move camera to elevated position ONCE at start of phase, then free camera
-        if (!this.blackHoleCameraTransitioned) {
-          const targetY = 8
-          const targetZ = 95
-          this.camera.position.y = THREE.MathUtils.lerp(this.camera.position.y, targetY, 0.02)
-          this.camera.position.z = THREE.MathUtils.lerp(this.camera.position.z, targetZ, 0.02)
-          this.cameraBasePosition.copy(this.camera.position)
-          this.controls.update()
-
-          // Check if camera is close enough to target (within 1 unit) to consider transition complete
-          const distanceToTarget = Math.abs(this.camera.position.y - targetY) + Math.abs(this.camera.position.z - targetZ)
-          if (distanceToTarget < 1.0) {
-            this.blackHoleCameraTransitioned = true
-            this.isCameraLocked = false // FREE CAMERA - user can explore
-          }
+          this.lensingPass.setSchwarzschildRadius(this.blackHole.getSchwarzschildRadius())
         }
 
         // Continue updating supernova remnant for accretion effect
@@ -956,94 +1660,471 @@ class SunSimulator {
         }
         // Update accretion sources (sporadic chunk spawners)
         this.accretionSources.forEach((source) => source.update(deltaTime))
-        break
+        this.updateTidalDisruption(deltaTime)
+      },
+
+      startNeutronStar: () => this.completeNeutronStarTransition(),
+      updateNeutronStar: (deltaTime) => this.neutronStar?.update(deltaTime, this.camera.position),
+
+      startWhiteDwarf: () => this.startPlanetaryNebula(),
+      updateWhiteDwarf: (deltaTime, elapsed) => {
+        this.star?.update(deltaTime)
+        this.whiteDwarf?.update(deltaTime)
+        this.updateWhiteDwarfAccretion(elapsed)
+      },
+      isOverChandrasekharLimit: () => this.whiteDwarf?.isOverChandrasekharLimit() ?? false,
+
+      startTypeIaSupernova: () => this.startTypeIaSupernova(),
+      updateTypeIaSupernova: (deltaTime) => {
+        if (this.typeIaFlash) {
+          this.typeIaFlash.update(deltaTime)
+          if (!this.typeIaFlash.active) {
+            this.typeIaFlash = null
+          }
+        }
+        this.typeIaEjecta?.update(deltaTime)
+      },
+    })
+  }
+
+  private onPhaseChange(current: PhaseDescriptor, previous: PhaseDescriptor | null): void {
+    // The opening soundscape is started by the Begin button once audio is unlocked
+    if (previous && !this.isSeeking) {
+      this.audioManager.transitionToPhase(current.phase, current.audioCrossfade)
+    }
+
+    this.lastDebugText = ''
+    if (this.debugRadiusElement) {
+      this.debugRadiusElement.textContent = ''
+    }
+    this.updatePhaseInfo(current.title, current.description)
+
+    // The red giant shot pulls back in giant radii, so it frames any mass
+    const subjectRadius = current.phase === SimulationPhase.RED_GIANT ? this.stellarProfile.redGiantRadius : 0
+    this.cameraDirector.play(current.phase, subjectRadius)
+    // A followed object keeps the camera across phases (a planet into the red giant), as does flying
+    if (this.followCamera.getSubject() || this.flyCamera.isEnabled()) {
+      this.cameraDirector.takeOver()
     }
+    this.updateCameraButton()
   }
 
-  private startRedGiantExpansion(): void {
+  /** Give the camera back to the director, or take it (the C key and camera button) */
+  private toggleCameraControl(): void {
+    if (this.flyCamera.isEnabled()) {
+      this.leaveFlyMode()
+      this.cameraDirector.handBack()
+    } else if (this.followCamera.getSubject()) {
+      this.followCamera.stop()
+      this.cameraDirector.handBack()
+    } else if (this.cameraDirector.isDriving()) {
+      this.cameraDirector.takeOver()
+    } else {
+      this.cameraDirector.handBack()
+    }
+    this.updateCameraButton()
+  }
+
+  private updateCameraButton(): void {
+    const subject = this.followCamera.getSubject()
+    const cameraBtn = document.getElementById('btn-camera')
+    if (cameraBtn) {
+      if (this.flyCamera.isEnabled()) {
+        cameraBtn.textContent = `🚀 Flying (${Math.round(this.flyCamera.getSpeed())} u/s)`
+      } else if (subject) {
+        cameraBtn.textContent = `🎯 ${subject.name}`
+      } else {
+        cameraBtn.textContent = this.cameraDirector.isDriving() ? '🎬 Directed Camera' : '🖐️ Free Camera'
+      }
+    }
+    const followControl = document.getElementById('follow-control') as HTMLSelectElement | null
+    if (followControl && !subject) {
+      followControl.value = ''
+    }
+  }
+
+  /**
+   * Ride along with a planet (index into PLANET_CONFIGS), e.g. to watch the
+   * red giant swallow it
+   * @returns false if there is no such planet right now
+   */
+  public followPlanet(index: number): boolean {
+    return this.startFollowing(this.planetSystem && followPlanet(this.planetSystem, index))
+  }
+
+  /**
+   * Follow the newest chunk falling from an accretion source (by default the
+   * first that has one) until the hole swallows it
+   */
+  public followAccretionChunk(sourceIndex?: number): boolean {
+    const sources = sourceIndex === undefined ? this.accretionSources : this.accretionSources.slice(sourceIndex, sourceIndex + 1)
+    for (const source of sources) {
+      if (this.startFollowing(followAccretionChunk(source))) return true
+    }
+    return false
+  }
+
+  /** Ride the outermost shell of the current remnant outward */
+  public followRemnantShell(): boolean {
+    const remnant = this.supernovaRemnant ?? this.typeIaEjecta
+    if (!remnant) return false
+
+    // Keep the current viewing direction, so the handoff is a glide rather than a swing
+    const direction = this.camera.position.clone().sub(this.getViewTarget())
+    if (direction.lengthSq() === 0) direction.set(0, 0, 1)
+    return this.startFollowing(followOuterShell(remnant, direction))
+  }
+
+  /** Stop following and hand over to orbit mode, easing the orbit target back to the centre */
+  public stopFollowing(): void {
+    this.followCamera.stop()
+    this.returnToOrbit()
+    this.updateCameraButton()
+  }
+
+  /**
+   * Switch between orbiting the centre and free flight (the P key). Leaving
+   * flight eases back into orbit range
+   */
+  public setFlyMode(enabled: boolean): void {
+    if (enabled === this.flyCamera.isEnabled()) return
+
+    if (enabled) {
+      this.followCamera.stop()
+      this.cameraDirector.takeOver()
+      this.controls.enabled = false
+      this.flyCamera.enable()
+    } else {
+      this.leaveFlyMode()
+      this.returnToOrbit()
+    }
+    this.updateCameraButton()
+  }
+
+  /** Hand the camera from free flight back to the orbit controls, where it is */
+  private leaveFlyMode(): void {
+    if (!this.flyCamera.isEnabled()) return
+
+    // Aim the orbit target where the camera looks, so easing out of flight doesn't swing the view
+    this.controls.target.copy(this.getViewTarget())
+    this.flyCamera.disable()
+    this.controls.enabled = true
+  }
+
+  /**
+   * What the camera is looking at. Flying leaves the orbit target behind, so
+   * then it is a point ahead of the camera, as far out as the centre is
+   */
+  private getViewTarget(): THREE.Vector3 {
+    if (!this.flyCamera.isEnabled()) return this.controls.target.clone()
+    const ahead = this.camera.getWorldDirection(new THREE.Vector3())
+    return ahead.multiplyScalar(Math.max(this.camera.position.length(), this.controls.minDistance)).add(this.camera.position)
+  }
+
+  /** Ease the camera into orbit range with the target back at the centre */
+  private returnToOrbit(): void {
+    const position = this.camera.position.clone().clampLength(this.controls.minDistance, this.controls.maxDistance)
+    this.cameraDirector.flyTo({ position, target: new THREE.Vector3(), fov: this.camera.fov })
+  }
+
+  private startFollowing(target: FollowTarget | null): boolean {
+    if (!target) return false
+
+    this.leaveFlyMode()
+    this.followCamera.follow(target)
+    this.cameraDirector.takeOver()
+    this.updateCameraButton()
+    return true
+  }
+
+  private updateBlackHoleFormation(deltaTime: number, t: number): void {
+    // Update black hole (present from t=0) - STAGED FORMATION
+    if (!this.blackHole) return
+
+    this.blackHole.update(deltaTime)
+
+    // Update lensing pass with black hole position and radius
+    this.lensingPass.setBlackHolePosition(this.blackHole.getPosition())
+    this.lensingPass.setSchwarzschildRadius(this.blackHole.getSchwarzschildRadius())
+
+    // Enable lensing as black hole forms (fade in with formation)
+    this.lensingPass.setEnabled(true)
+
+    // Calculate each element's opacity based on its formation timeline
+    // Stage 1: Black hole scales during core collapse (t=0-1.5s)
+    let bhScale = 0
+    if (t <= 1.5) {
+      bhScale = t / 1.5 // Gradual growth over 1.5s
+    } else {
+      bhScale = 1.0
+    }
+    this.blackHole.setScale(bhScale)
 
+    // Stage 2: Event horizon snaps visible when core reaches singularity (t=1.2s)
+    let horizonOpacity = 0
+    if (t >= 1.2) {
+      horizonOpacity = 1.0 // INSTANT appearance
+    }
+    this.blackHole.setEventHorizonOpacity(horizonOpacity)
+
+    // Stage 3: Accretion disk forms gradually (t=2-4.5s)
+    let diskOpacity = 0
+    if (t >= 2.0 && t <= 4.5) {
+      diskOpacity = (t - 2.0) / 2.5 // 0→1 over 2.5s
+    } else if (t > 4.5) {
+      diskOpacity = 1.0
+    }
+    this.blackHole.setAccretionDiskOpacity(diskOpacity)
+
+    // Stage 4: Jets emerge last (t=3.5-7.5s) - slower, more gradual
+    let jetOpacity = 0
+    if (t >= 3.5 && t <= 7.5) {
+      jetOpacity = (t - 3.5) / 4.0 // 0→1 over 4 seconds (slower)
+    } else if (t > 7.5) {
+      jetOpacity = 1.0
+    }
+    this.blackHole.setJetOpacity(jetOpacity)
+  }
+
+  private updateNeutronStarFormation(deltaTime: number, t: number): void {
+    if (!this.neutronStar) return
+
+    // Beams switch on once the core has collapsed (t=1.5s), over 2 seconds
+    this.neutronStar.setOpacity(THREE.MathUtils.clamp((t - 1.5) / 2.0, 0, 1))
+    this.neutronStar.update(deltaTime, this.camera.position)
+  }
+
+  private completeNeutronStarTransition(): void {
+    // Remove star (core has collapsed); the remnant shells keep expanding and fading
+    if (this.star) {
+      this.star.dispose()
+      this.star = null
+    }
+
+    if (this.neutronStar) {
+      this.neutronStar.setOpacity(1.0)
+      // Rhythmic tick each time a beam sweeps past the viewer
+      this.neutronStar.setPulseCallback((strength) => {
+        if (this.isSeeking || strength < 0.2 || !this.neutronStar) return
+        const position = this.neutronStar.getPosition()
+        this.audioManager.playSpatialSoundEffect('accretion-chunk', position.x, position.y, position.z)
+      })
+    }
+
+    // Remove planets
+    if (this.planetSystem) {
+      this.planetSystem.dispose()
+      this.planetSystem = null
+    }
+  }
+
+  private startRedGiantExpansion(): void {
     if (this.star) {
       this.star.startRedGiantExpansion()
     }
 
-    // Transition audio to red giant phase (slow, smooth crossfade)
-    this.audioManager.transitionToPhase(SimulationPhase.RED_GIANT, 7.0)
+    if (this.binaryOrbit) {
+      // Idle until the giant reaches its Roche lobe
+      const particleMass = this.stellarProfile.mass * STREAM_PARTICLE_MASS_FRACTION
+      this.massTransferStream = new MassTransferStream(this.scene, particleMass)
+      this.massTransferStream.setConsumptionCallback((mass) => {
+        if (!this.binaryOrbit) return
+        this.binaryOrbit.transferMass(mass)
+        this.companion?.setAccretedMassRatio(this.binaryOrbit.getCompanionMassRatio())
+      })
+    }
+  }
 
-    // Update phase
-    this.currentPhase = SimulationPhase.RED_GIANT
-    this.lastDebugText = ''
-    if (this.debugRadiusElement) {
-      this.debugRadiusElement.textContent = ''
+  private startBinary(): void {
+    this.binaryOrbit = new BinaryOrbitPhysics(this.stellarProfile.mass, this.stellarProfile.redGiantRadius)
+    // Smaller than the primary: R ∝ M^0.8 at 40% of its mass
+    this.companion = new Star(
+      this.scene,
+      COMPANION_STAR.mainSequenceRadius,
+      COMPANION_STAR,
+      QUALITY_PRESETS[this.qualityLevel].starSurfaceParticles
+    )
+    this.companion.setPosition(this.binaryOrbit.companionPosition)
+  }
+
+  private updateBinary(deltaTime: number): void {
+    if (!this.binaryOrbit) return
+
+    this.binaryOrbit.update(deltaTime)
+    this.star?.setPosition(this.binaryOrbit.primaryPosition)
+
+    if (this.companion) {
+      this.companion.setPosition(this.binaryOrbit.companionPosition)
+      this.companion.update(deltaTime)
+
+      // A runaway companion is let go once it has left the scene
+      if (this.binaryOrbit.companionPosition.length() > 600) {
+        this.companion.dispose()
+        this.companion = null
+      }
     }
-    this.updatePhaseInfo(
-      'Phase 3: Red Giant Expansion',
-      'Hydrogen depleted. The star swells to enormous size as it fuses helium in its core. Planets are engulfed.'
+
+    if (this.massTransferStream) {
+      // The primary feeds the companion as a red giant; later the companion feeds the white dwarf
+      const fromCompanion = this.massTransferStream.donor === 'companion'
+      const donor = fromCompanion ? this.companion : this.star
+      const accretorRadius = fromCompanion ? this.whiteDwarf?.getRadius() : this.companion?.getRadius()
+      if (donor && accretorRadius !== undefined) {
+        this.massTransferStream.update(deltaTime, this.binaryOrbit, donor.getRadius(), accretorRadius)
+      }
+    }
+  }
+
+  /**
+   * Binary white dwarf: the companion, aged by the mass it gained, swells in
+   * turn and spills back onto the white dwarf until it reaches the Chandrasekhar limit
+   */
+  private updateWhiteDwarfAccretion(elapsed: number): void {
+    if (!this.binaryOrbit || !this.companion || !this.whiteDwarf) return
+    if (elapsed < COMPANION_EXPANSION_DELAY || this.companion.isInRedGiantPhase()) return
+
+    const orbit = this.binaryOrbit
+    this.companion.startRedGiantExpansion(ROCHE_OVERFLOW_FACTOR * orbit.getRocheLobeRadius('companion'))
+
+    const particleMass = (CHANDRASEKHAR_LIMIT - this.whiteDwarf.getMass()) / WHITE_DWARF_FILL_PARTICLES
+    this.massTransferStream = new MassTransferStream(this.scene, particleMass, 'companion')
+    this.massTransferStream.setConsumptionCallback((mass) => {
+      orbit.transferMass(mass, 'companion')
+      this.whiteDwarf?.accrete(mass)
+    })
+  }
+
+  /**
+   * The white dwarf detonates: a brighter flash and fast iron-rich ejecta,
+   * with no compact remnant left behind. The companion is flung free.
+   */
+  private startTypeIaSupernova(): void {
+    this.playSoundEffect('explosion-flash', 1.0)
+
+    this.typeIaFlash = new SupernovaFlash(this.scene, TYPE_IA_FLASH)
+    this.typeIaEjecta = new SupernovaRemnant(
+      this.scene,
+      1.0,
+      TYPE_IA_REMNANT_SHELLS,
+      this.getParticleBackend()
     )
+
+    if (this.whiteDwarf) {
+      this.whiteDwarf.dispose()
+      this.whiteDwarf = null
+    }
+    if (this.massTransferStream) {
+      this.massTransferStream.dispose()
+      this.massTransferStream = null
+    }
+    this.binaryOrbit?.unbind()
   }
 
-  private startSupernova(): void {
+  /**
+   * The envelope is gone once the red giant ends: stop the stream and move the
+   * world so the dying primary sits at the origin, where the endings expect it.
+   * A supernova unbinds the pair; a white dwarf keeps its companion.
+   */
+  private recentreBinary(): void {
+    if (!this.binaryOrbit) return
+
+    if (this.massTransferStream) {
+      this.massTransferStream.dispose()
+      this.massTransferStream = null
+    }
+
+    const unbound = this.stellarProfile.remnant !== 'white-dwarf'
+    const offset = this.binaryOrbit.recentreOnPrimary(unbound, new THREE.Vector3())
+    if (!unbound) {
+      this.binaryOrbit.setPrimaryMass(this.stellarProfile.whiteDwarfMass)
+    }
+    this.star?.setPosition(this.binaryOrbit.primaryPosition)
+    this.companion?.setPosition(this.binaryOrbit.companionPosition)
+
+    this.camera.position.add(offset)
+    this.controls.target.add(offset)
+    this.controls.update()
+
+    // Don't blend across the jump
+    this.interpolator.clear()
+  }
+
+  private startPlanetaryNebula(): void {
+    const currentStarRadius = this.star ? this.star['currentRadius'] || 15.0 : 15.0
+
+    // Outer layers drift off as a slow shell (the global update expands it)
+    this.supernovaRemnant = new SupernovaRemnant(
+      this.scene,
+      currentStarRadius,
+      PLANETARY_NEBULA_SHELLS,
+      this.getParticleBackend()
+    )
+
+    // Exposed core fades in as the rest of the star shrinks away
+    this.whiteDwarf = new WhiteDwarf(this.scene, this.stellarProfile.whiteDwarfMass)
+    this.whiteDwarf.setOpacity(0)
+    this.star?.shedEnvelope()
+
+    this.tweens.add({
+      duration: 2.0,
+      easing: Easing.easeOutQuad,
+      onUpdate: (progress) => this.whiteDwarf?.setOpacity(progress),
+      onComplete: () => {
+        if (this.star) {
+          this.star.dispose()
+          this.star = null
+        }
+      }
+    })
+  }
 
+  private startSupernova(): void {
     // Play explosion sound effect immediately
-    this.audioManager.playSoundEffect('explosion-flash', 1.0)
+    this.playSoundEffect('explosion-flash', 1.0)
 
     if (this.star) {
       this.star.startSupernova()
 
       // Create supernova remnant
       const currentStarRadius = this.star['currentRadius'] || 25.0
-      this.supernovaRemnant = new SupernovaRemnant(this.scene, currentStarRadius)
+      this.supernovaRemnant = new SupernovaRemnant(this.scene, currentStarRadius, {}, this.getParticleBackend())
     }
 
-    // Transition audio to supernova (dramatic!)
-    this.audioManager.transitionToPhase(SimulationPhase.SUPERNOVA, 1.5)
-
-    // Create black hole immediately (physically accurate: forms during core collapse)
-    this.blackHole = new BlackHole(this.scene)
-    this.blackHole.setScale(0) // Start at singularity point
-    // Initialize all elements invisible - they'll appear in stages
-    this.blackHole.setEventHorizonOpacity(0)
-    this.blackHole.setAccretionDiskOpacity(0)
-    this.blackHole.setJetOpacity(0)
+    if (this.stellarProfile.remnant === 'neutron-star') {
+      // Collapse halts at neutron degeneracy - the pulsar fades in as the flash clears
+      this.neutronStar = new NeutronStar(this.scene)
+      this.neutronStar.setOpacity(0)
+    } else {
+      // Create black hole immediately (physically accurate: forms during core collapse)
+      this.blackHole = new BlackHole(
+        this.scene,
+        QUALITY_PRESETS[this.qualityLevel].eventHorizonSegments,
+        this.config.blackHole
+      )
+      this.blackHole.setSpin(this.config.blackHole.spin)
+      this.blackHole.setScale(0) // Start at singularity point
+      // Initialize all elements invisible - they'll appear in stages
+      this.blackHole.setEventHorizonOpacity(0)
+      this.blackHole.setAccretionDiskOpacity(0)
+      this.blackHole.setJetOpacity(0)
+    }
 
     // Hide planets during supernova
     if (this.planetSystem) {
       this.planetSystem.hide()
     }
-
-    // Update phase
-    this.currentPhase = SimulationPhase.SUPERNOVA
-    this.supernovaTimer = 0
-    this.isCameraLocked = true // LOCK CAMERA - dramatic supernova needs fixed viewpoint
-    // Reset camera to optimal viewing position for supernova (zoomed in 5% closer)
-    this.camera.position.set(0, 0, 76)
-    this.cameraBasePosition.set(0, 0, 76)
-    // Reset camera target to look at center
-    this.controls.target.set(0, 0, 0)
-    this.controls.update()
-    this.lastDebugText = ''
-    if (this.debugRadiusElement) {
-      this.debugRadiusElement.textContent = ''
-    }
-    this.updatePhaseInfo(
-      'Phase 4: SUPERNOVA!',
-      'Catastrophic core collapse! The star explodes with the energy of billions of suns, scattering heavy elements across the cosmos.'
-    )
   }
 
   private completeBlackHoleTransition(): void {
-
     // Black hole already exists and is fully formed (created at t=0, grown during t=0-2s)
-    // Now set up accretion and transition to BLACK_HOLE phase
-
-    // Transition audio to black hole phase (eerie!)
-    this.audioManager.transitionToPhase(SimulationPhase.BLACK_HOLE, 3.0)
+    // Now set up accretion; the timeline handles the audio crossfade and camera glide
 
     // Play gravitational rumble sound effect
-    this.audioManager.playSoundEffect('gravitational-rumble', 0.9)
+    this.playSoundEffect('gravitational-rumble', 0.9)
 
-    // Apply debug glow intensity if set
+    // Apply the tweaked glow intensity
     if (this.blackHole) {
-      (this.blackHole.eventHorizon.material as THREE.ShaderMaterial).uniforms.glowIntensity.value = this.debugState.eventHorizonGlow
+      (this.blackHole.eventHorizon.material as THREE.ShaderMaterial).uniforms.glowIntensity.value = this.config.view.eventHorizonGlow
     }
 
     // Enable gravitational lensing pass - warp spacetime!
@@ -1082,11 +2163,7 @@ class SunSimulator {
     }
 
     // Create accretion sources at various orbital positions (2x distance for longer spiral)
-    const sourcePositions = [
-      new THREE.Vector3(50, 30, 20),   // ~62 units from black hole
-      new THREE.Vector3(-44, -20, 36), // ~62 units from black hole
-      new THREE.Vector3(36, -40, -30), // ~62 units from black hole
-    ]
+    const sourcePositions = ACCRETION_SOURCE_POSITIONS.map(([x, y, z]) => new THREE.Vector3(x, y, z))
 
     sourcePositions.forEach((pos) => {
       const source = new AccretionSource(
@@ -1094,12 +2171,15 @@ class SunSimulator {
         pos,
         0xff5500,  // Hot orange (accreting stellar matter)
         0.15,      // Stronger gravitational pull (3x)
-        this.blackHole!.getEventHorizonRadius()  // Match actual event horizon size
+        this.blackHole!.getEventHorizonRadius(),  // Match actual event horizon size
+        this.getParticleBackend()
       )
+      source.setSpin(this.blackHole!.getSpin(), this.blackHole!.getEventHorizonRadius())
 
       // Wire up consumption callback to grow black hole
       if (this.blackHole) {
         source.setConsumptionCallback((mass) => {
+          this.addCameraTrauma(mass * ACCRETION_TRAUMA_PER_MASS)
           if (this.blackHole) {
             this.blackHole.addMass(mass)
 
@@ -1118,40 +2198,82 @@ class SunSimulator {
       this.planetSystem.dispose()
       this.planetSystem = null
     }
+  }
 
-    // Update phase
-    this.currentPhase = SimulationPhase.BLACK_HOLE
-    this.isCameraLocked = true // Temporarily locked during initial camera transition
-    this.blackHoleCameraTransitioned = false // Reset flag for smooth transition
-    // Phase 5: Camera will smoothly move in the update loop, then unlock
-    this.lastDebugText = ''
-    if (this.debugRadiusElement) {
-      this.debugRadiusElement.textContent = ''
+  /**
+   * Send a star on a parabolic orbit into the black hole. It is torn into a
+   * tidal stream; the bound half falls back and makes the disk and jets flare.
+   */
+  public triggerTidalDisruption(): void {
+    if (this.timeline.getCurrentPhase() !== SimulationPhase.BLACK_HOLE) return
+    if (!this.blackHole || this.tidalDisruption) return
+
+    this.playSoundEffect('gravitational-rumble', 0.6)
+    this.tidalDisruption = new TidalDisruption(this.scene)
+    this.tidalDisruption.setConsumptionCallback((mass) => {
+      if (this.blackHole) {
+        this.blackHole.addMass(mass)
+
+        const newRadius = this.blackHole.getEventHorizonRadius()
+        this.accretionSources.forEach(s => s.updateEventHorizonRadius(newRadius))
+        this.supernovaRemnant?.updateEventHorizonRadius(newRadius)
+      }
+    })
+    this.applyDebugState()
+  }
+
+  private updateTidalDisruption(deltaTime: number): void {
+    if (!this.tidalDisruption) return
+
+    this.tidalDisruption.update(deltaTime)
+    this.blackHole?.setFlare(this.tidalDisruption.getFlareLevel())
+
+    if (this.tidalDisruption.isFinished()) {
+      this.tidalDisruption.dispose()
+      this.tidalDisruption = null
+      this.blackHole?.setFlare(0)
     }
-    this.updatePhaseInfo(
-      'Phase 5: Black Hole',
-      'The core collapses into a singularity. Matter spirals into the accretion disk, warping spacetime itself. Nothing escapes.'
-    )
   }
 
-  private startTransitionToMainSequence(): void {
+  /** Spin setting: retune the hole and everything that captures matter at its horizon */
+  private applyBlackHoleSpin(): void {
+    if (!this.blackHole) return
+
+    this.blackHole.setSpin(this.config.blackHole.spin)
+    const spin = this.blackHole.getSpin()
+    const horizonRadius = this.blackHole.getEventHorizonRadius()
+    this.accretionSources.forEach((source) => source.setSpin(spin, horizonRadius))
+    this.supernovaRemnant?.updateEventHorizonRadius(horizonRadius)
+  }
 
+  private startTransitionToMainSequence(): void {
     // Get protostar's current size for smooth transition
     const protostarRadius = this.nebula ? this.nebula.getProtostarRadius() : 4.8
 
     // Create star at protostar's current size
-    this.star = new Star(this.scene, protostarRadius)
+    this.star = new Star(
+      this.scene,
+      protostarRadius,
+      {
+        redGiantRadius: this.stellarProfile.redGiantRadius,
+        expansionDuration: this.stellarProfile.expansionDuration,
+      },
+      QUALITY_PRESETS[this.qualityLevel].starSurfaceParticles
+    )
     this.ignitionBurst = new IgnitionBurst(this.scene)
 
-    // Transition audio to main sequence phase (fusion power!)
-    this.audioManager.transitionToPhase(SimulationPhase.MAIN_SEQUENCE, 3.0)
-
     // Play ignition burst sound effect
-    this.audioManager.playSoundEffect('ignition-burst', 0.8)
+    this.playSoundEffect('ignition-burst', 0.8)
+    this.addCameraTrauma(IGNITION_TRAUMA)
 
-    // Create planet system
-    this.planetSystem = new PlanetSystem(this.scene)
-    this.planetSystem.show()
+    if (this.binaryMode) {
+      // No planets: their orbits would cross the companion's
+      this.startBinary()
+    } else {
+      // Create planet system
+      this.planetSystem = new PlanetSystem(this.scene, this.tweens)
+      this.planetSystem.show()
+    }
 
     // Fade out and dispose of nebula over time
     if (this.nebula) {
@@ -1164,14 +2286,12 @@ class SunSimulator {
       // Make protostar material transparent for opacity fade
       protostarMaterial.transparent = true
 
-      // Start fade animation
-      this.transitionProgress = 0
-      const fadeInterval = setInterval(() => {
-        this.transitionProgress += 0.016
-
-        if (this.nebula && this.transitionProgress < this.transitionDuration) {
+      // Fade out over simulation time, then remove
+      this.tweens.add({
+        duration: this.transitionDuration,
+        onUpdate: (fadeProgress) => {
+          if (!this.nebula) return
           // Fade progress (0 = full opacity, 1 = invisible)
-          const fadeProgress = this.transitionProgress / this.transitionDuration
           const opacity = 1 - fadeProgress
 
           // Fade nebula particles
@@ -1186,36 +2306,13 @@ class SunSimulator {
 
           // Fade protostar light intensity
           protostarLight.intensity = initialLightIntensity * opacity
-        } else {
+        },
+        onComplete: () => {
           // Transition complete - now safe to remove
-          if (this.nebula) {
-            this.scene.remove(this.nebula['particles'])
-            this.scene.remove(this.nebula['protostar'])
-            this.scene.remove(this.nebula['protostarLight'])
-            this.nebula.dispose()
-            this.nebula = null
-          }
-          clearInterval(fadeInterval)
-        }
-      }, 16)
-    }
-
-    // Update phase
-    this.currentPhase = SimulationPhase.MAIN_SEQUENCE
-    this.isCameraLocked = false // FREE CAMERA - user can explore the star
-    // Phase 2: Zoom in closer to the main sequence star
-    this.camera.position.set(0, 0, 40)
-    this.cameraBasePosition.set(0, 0, 40)
-    this.controls.target.set(0, 0, 0)
-    this.controls.update()
-    this.lastDebugText = ''
-    if (this.debugRadiusElement) {
-      this.debugRadiusElement.textContent = ''
+          this.disposeNebula()
+        },
+      })
     }
-    this.updatePhaseInfo(
-      'Phase 2: Main Sequence Star',
-      'Fusion ignited! The star enters its stable life phase, burning hydrogen into helium for billions of years. Planets form in orbit.'
-    )
   }
 }
 
@@ -0,0 +1,272 @@
+import * as THREE from 'three'
+import { Random } from '../utils/Random'
+import { kerrHorizonFactor } from './BlackHolePhysics'
+
+/** Spawn points for the accretion sources fed into the black hole (~62 units out, for a long spiral) */
+export const ACCRETION_SOURCE_POSITIONS: [number, number, number][] = [
+  [50, 30, 20],
+  [-44, -20, 36],
+  [36, -40, -30],
+]
+
+const DEFAULT_PARTICLE_MASS = 0.0001
+const VISCOUS_DRAG = 0.05 // 1/s: viscosity bleeds ~5% of a chunk's speed a second, so it reaches the horizon in ~20 s
+const FRAME_DRAG_RATE = 3.0 // Lense-Thirring angular speed (rad/s) one Schwarzschild radius out, at a = 1
+
+/**
+ * AccretionSourcePhysics - Sporadic matter chunks falling into the black hole, without rendering
+ *
+ * Spawns chunks near a fixed orbital position and integrates them under the
+ * black hole's pull until they cross the event horizon or expire. Viscous
+ * drag bleeds off their orbital speed, so they spiral in rather than orbit.
+ */
+export class AccretionSourcePhysics {
+  public readonly particleCount: number
+  public readonly positions: Float32Array
+  private velocities: Float32Array
+  private lifetimes: Float32Array
+  private spawnPosition: THREE.Vector3
+  private spawnInterval: number = 0.5 // Much faster spawning
+  private spawnTimer: number = 0
+  private blackHolePosition: THREE.Vector3
+  private accretionStrength: number
+  private eventHorizonRadius: number
+  private spin: number = 0 // Black hole spin parameter a (drags infalling matter around +Y)
+  private onParticleConsumed?: (mass: number) => void
+  private totalConsumed: number = 0 // Track total particles consumed
+  private consumedMass: number = 0
+  private particleMass: number
+
+  constructor(
+    position: THREE.Vector3,
+    accretionStrength: number,
+    eventHorizonRadius: number,
+    particleCount: number = 1000,
+    particleMass: number = DEFAULT_PARTICLE_MASS // Lighter particles come in bigger chunks (same mass per chunk)
+  ) {
+    this.particleCount = particleCount
+    this.particleMass = particleMass
+    this.spawnPosition = position.clone()
+    this.blackHolePosition = new THREE.Vector3(0, 0, 0)
+    this.accretionStrength = accretionStrength
+    this.eventHorizonRadius = eventHorizonRadius
+
+    this.positions = new Float32Array(this.particleCount * 3)
+    this.velocities = new Float32Array(this.particleCount * 3)
+    this.lifetimes = new Float32Array(this.particleCount)
+
+    // Set all particles as inactive initially (lifetime = 0)
+    this.lifetimes.fill(0)
+    this.positions.fill(10000) // Move inactive particles far away
+  }
+
+  public update(deltaTime: number): void {
+    this.spawnTimer += deltaTime
+
+    // Spawn new chunk when timer expires
+    if (this.spawnTimer >= this.spawnInterval) {
+      this.spawnChunk()
+      this.spawnTimer = 0
+      // Randomize next interval (0.3-1.5 seconds for frequent dramatic effect)
+      this.spawnInterval = 0.3 + Random.next() * 1.2
+    }
+
+    // Update all active particles
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.lifetimes[i] <= 0) continue // Skip inactive particles
+
+      const i3 = i * 3
+
+      // Calculate vector to black hole
+      const dx = this.blackHolePosition.x - this.positions[i3]
+      const dy = this.blackHolePosition.y - this.positions[i3 + 1]
+      const dz = this.blackHolePosition.z - this.positions[i3 + 2]
+      const distanceSquared = dx * dx + dy * dy + dz * dz
+      const distance = Math.sqrt(distanceSquared)
+
+      // Deactivate if consumed (reached event horizon)
+      if (distance < this.eventHorizonRadius) {
+        // Notify black hole of mass consumption
+        this.consumedMass += this.particleMass
+        if (this.onParticleConsumed) {
+          this.onParticleConsumed(this.particleMass)
+        }
+
+        this.totalConsumed++
+        this.lifetimes[i] = 0
+        this.positions[i3] = 10000
+        this.positions[i3 + 1] = 10000
+        this.positions[i3 + 2] = 10000
+        this.velocities[i3] = 0
+        this.velocities[i3 + 1] = 0
+        this.velocities[i3 + 2] = 0
+        continue
+      }
+
+      // Apply gravitational attraction (same physics as SupernovaRemnant)
+      // Increased radius to 300 units to prevent particle escape
+      if (distance < 300 && distance > 0.1) {
+        const acceleration = this.accretionStrength / distanceSquared
+
+        // Normalize radial direction
+        const radialX = dx / distance
+        const radialY = dy / distance
+        const radialZ = dz / distance
+
+        // Apply radial force
+        const ax = radialX * acceleration
+        const ay = radialY * acceleration
+        const az = radialZ * acceleration
+
+        this.velocities[i3] += ax
+        this.velocities[i3 + 1] += ay
+        this.velocities[i3 + 2] += az
+
+        // REMOVED: Tangential velocity for spiral motion (will add back later)
+        // For now: ONLY gravitational infall to establish baseline
+      }
+
+      // Viscosity: the gas sheds angular momentum, so orbits decay into an inward spiral
+      const drag = Math.exp(-VISCOUS_DRAG * deltaTime)
+      this.velocities[i3] *= drag
+      this.velocities[i3 + 1] *= drag
+      this.velocities[i3 + 2] *= drag
+
+      if (this.spin > 0) {
+        this.applyFrameDragging(i3, distance, deltaTime)
+      }
+
+      // Update position
+      this.positions[i3] += this.velocities[i3]
+      this.positions[i3 + 1] += this.velocities[i3 + 1]
+      this.positions[i3 + 2] += this.velocities[i3 + 2]
+
+      // Age particles (deactivate after 30 seconds if not consumed)
+      this.lifetimes[i] -= deltaTime
+      if (this.lifetimes[i] <= 0) {
+        this.positions[i3] = 10000
+        this.positions[i3 + 1] = 10000
+        this.positions[i3 + 2] = 10000
+      }
+    }
+
+  }
+
+  private spawnChunk(): void {
+    // 50-100 particles per chunk at the default particle mass
+    const chunkSize = Math.round((50 + Math.floor(Random.next() * 50)) * (DEFAULT_PARTICLE_MASS / this.particleMass))
+    let spawned = 0
+
+    for (let i = 0; i < this.particleCount && spawned < chunkSize; i++) {
+      if (this.lifetimes[i] > 0) continue // Skip active particles
+
+      const i3 = i * 3
+
+      // Spawn at source position with random spherical offset
+      const offsetRadius = 5.0
+      const theta = Random.next() * Math.PI * 2
+      const phi = Math.acos(2 * Random.next() - 1)
+
+      this.positions[i3] = this.spawnPosition.x + Math.sin(phi) * Math.cos(theta) * offsetRadius
+      this.positions[i3 + 1] = this.spawnPosition.y + Math.sin(phi) * Math.sin(theta) * offsetRadius
+      this.positions[i3 + 2] = this.spawnPosition.z + Math.cos(phi) * offsetRadius
+
+      // Calculate initial velocity: ORBIT-FIRST approach for spiral motion
+      const dx = -this.spawnPosition.x
+      const dy = -this.spawnPosition.y
+      const dz = -this.spawnPosition.z
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz)
+
+      // TINY radial velocity (gentle inward drift only)
+      const radialSpeed = 0.01 + Random.next() * 0.01
+      const vx = (dx / dist) * radialSpeed
+      const vy = (dy / dist) * radialSpeed
+      const vz = (dz / dist) * radialSpeed
+
+      // Tangential velocity (perpendicular for orbital motion)
+      // Cross product: radial × up(0,1,0) = tangent
+      const radialX = dx / dist
+      const radialZ = dz / dist
+
+      const tangentX = -radialZ
+      const tangentY = 0
+      const tangentZ = radialX
+      const tangentLength = Math.sqrt(tangentX * tangentX + tangentZ * tangentZ)
+
+      // DOMINANT orbital velocity - particles orbit first, spiral later
+      // Keplerian velocity: v = sqrt(GM/r)
+      const orbitalSpeed = Math.sqrt(this.accretionStrength / dist) * 0.8
+
+      const tx = (tangentX / tangentLength) * orbitalSpeed
+      const ty = (tangentY / tangentLength) * orbitalSpeed
+      const tz = (tangentZ / tangentLength) * orbitalSpeed
+
+      // Combine: orbital velocity dominates, gentle inward drift
+      this.velocities[i3] = vx + tx + (Random.next() - 0.5) * 0.01
+      this.velocities[i3 + 1] = vy + ty + (Random.next() - 0.5) * 0.01
+      this.velocities[i3 + 2] = vz + tz + (Random.next() - 0.5) * 0.01
+
+      // Set lifetime (particles exist for 120 seconds to complete spiral orbits)
+      this.lifetimes[i] = 120.0
+
+      spawned++
+    }
+  }
+
+  /**
+   * A spinning hole twists spacetime around with it: rotate the particle (and
+   * its velocity) about the spin axis at the local frame-dragging rate, ω ∝ a/r³
+   */
+  private applyFrameDragging(i3: number, distance: number, deltaTime: number): void {
+    const schwarzschildRadius = this.eventHorizonRadius / kerrHorizonFactor(this.spin)
+    const ratio = schwarzschildRadius / distance
+    const angle = this.spin * FRAME_DRAG_RATE * ratio * ratio * ratio * deltaTime
+
+    // Counter-clockwise seen from +Y, the same sense the sources orbit in
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+
+    const x = this.positions[i3] - this.blackHolePosition.x
+    const z = this.positions[i3 + 2] - this.blackHolePosition.z
+    this.positions[i3] = this.blackHolePosition.x + x * cos + z * sin
+    this.positions[i3 + 2] = this.blackHolePosition.z - x * sin + z * cos
+
+    const vx = this.velocities[i3]
+    const vz = this.velocities[i3 + 2]
+    this.velocities[i3] = vx * cos + vz * sin
+    this.velocities[i3 + 2] = -vx * sin + vz * cos
+  }
+
+  public setConsumptionCallback(callback: (mass: number) => void): void {
+    this.onParticleConsumed = callback
+  }
+
+  public updateEventHorizonRadius(newRadius: number): void {
+    this.eventHorizonRadius = newRadius
+  }
+
+  /** Takes the horizon radius too, since spinning up shrinks it */
+  public setSpin(spin: number, eventHorizonRadius: number): void {
+    this.spin = spin
+    this.eventHorizonRadius = eventHorizonRadius
+  }
+
+  public getActiveParticleCount(): number {
+    // Count particles with lifetime > 0
+    let count = 0
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.lifetimes[i] > 0) {
+        count++
+      }
+    }
+    return count
+  }
+
+  public getTotalConsumed(): number {
+    return this.totalConsumed
+  }
+
+  public getConsumedMass(): number {
+    return this.consumedMass
+  }
+}
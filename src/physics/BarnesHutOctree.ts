@@ -0,0 +1,233 @@
+const NO_CHILD = -1
+const EMPTY = -1 // Node holds no single body
+const AGGREGATE = -2 // Leaf too small to split further; holds several bodies as one mass
+const MIN_HALF_SIZE = 1e-3 // Stops endless splitting of (nearly) coincident bodies
+
+export interface GravityParams {
+  /** G × total mass, shared equally between the bodies */
+  strength: number
+  /** Opening angle: cells smaller than theta × distance are treated as one mass */
+  theta: number
+  /** Plummer softening length, keeps close encounters finite */
+  softening: number
+}
+
+/**
+ * BarnesHutOctree - O(N log N) gravity between equal-mass bodies
+ *
+ * Nodes live in flat typed arrays that are reused between builds, so solving
+ * every step allocates nothing once the arrays have grown to fit. Children of
+ * a node are stored as 8 consecutive nodes starting at firstChild.
+ */
+export class BarnesHutOctree {
+  private capacity = 0
+  private nodeCount = 0
+  private centreX = new Float64Array(0)
+  private centreY = new Float64Array(0)
+  private centreZ = new Float64Array(0)
+  private halfSize = new Float64Array(0)
+  private mass = new Float64Array(0) // In bodies
+  private sumX = new Float64Array(0) // Mass-weighted position sums (centre of mass = sum / mass)
+  private sumY = new Float64Array(0)
+  private sumZ = new Float64Array(0)
+  private firstChild = new Int32Array(0)
+  private body = new Int32Array(0)
+  private stack = new Int32Array(1024)
+
+  /** Build the tree over `count` bodies and write each body's acceleration into `accelerations` */
+  public solve(positions: Float32Array, count: number, accelerations: Float32Array, params: GravityParams): void {
+    if (count === 0) return
+    this.build(positions, count)
+
+    const gravityPerBody = params.strength / count
+    const thetaSquared = params.theta * params.theta
+    const softeningSquared = params.softening * params.softening
+
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3
+      const x = positions[i3]
+      const y = positions[i3 + 1]
+      const z = positions[i3 + 2]
+      let ax = 0
+      let ay = 0
+      let az = 0
+
+      let top = 0
+      this.stack[top++] = 0
+      while (top > 0) {
+        const node = this.stack[--top]
+        const nodeMass = this.mass[node]
+        if (nodeMass === 0) continue
+
+        const dx = this.sumX[node] / nodeMass - x
+        const dy = this.sumY[node] / nodeMass - y
+        const dz = this.sumZ[node] / nodeMass - z
+        const distanceSquared = dx * dx + dy * dy + dz * dz
+        const child = this.firstChild[node]
+
+        if (child !== NO_CHILD) {
+          const size = this.halfSize[node] * 2
+          if (size * size >= thetaSquared * distanceSquared) {
+            // Too close to treat as one mass: open the cell
+            for (let c = 0; c < 8; c++) this.stack[top++] = child + c
+            continue
+          }
+        } else if (this.body[node] === i) {
+          continue // No self-force
+        }
+
+        const r2 = distanceSquared + softeningSquared
+        const factor = (nodeMass * gravityPerBody) / (r2 * Math.sqrt(r2))
+        ax += dx * factor
+        ay += dy * factor
+        az += dz * factor
+      }
+
+      accelerations[i3] = ax
+      accelerations[i3 + 1] = ay
+      accelerations[i3 + 2] = az
+    }
+  }
+
+  /** Number of nodes in the last build (for diagnostics) */
+  public getNodeCount(): number {
+    return this.nodeCount
+  }
+
+  private build(positions: Float32Array, count: number): void {
+    // Cubic root cell around all bodies
+    let minX = Infinity, minY = Infinity, minZ = Infinity
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3
+      minX = Math.min(minX, positions[i3])
+      minY = Math.min(minY, positions[i3 + 1])
+      minZ = Math.min(minZ, positions[i3 + 2])
+      maxX = Math.max(maxX, positions[i3])
+      maxY = Math.max(maxY, positions[i3 + 1])
+      maxZ = Math.max(maxZ, positions[i3 + 2])
+    }
+
+    this.ensureCapacity(count * 2 + 8)
+    this.nodeCount = 0
+    const rootHalf = Math.max(maxX - minX, maxY - minY, maxZ - minZ, MIN_HALF_SIZE) / 2 + MIN_HALF_SIZE
+    this.createNode((minX + maxX) / 2, (minY + maxY) / 2, (minZ + maxZ) / 2, rootHalf)
+
+    for (let i = 0; i < count; i++) {
+      this.insert(i, positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2])
+    }
+  }
+
+  private insert(index: number, x: number, y: number, z: number): void {
+    let node = 0
+
+    for (;;) {
+      const child = this.firstChild[node]
+
+      if (child !== NO_CHILD) {
+        // Internal: account for the body here, then descend
+        this.addMass(node, x, y, z)
+        node = child + this.octant(node, x, y, z)
+        continue
+      }
+
+      if (this.mass[node] === 0) {
+        this.body[node] = index
+        this.addMass(node, x, y, z)
+        return
+      }
+
+      if (this.halfSize[node] < MIN_HALF_SIZE) {
+        this.body[node] = AGGREGATE
+        this.addMass(node, x, y, z)
+        return
+      }
+
+      // Occupied leaf: split it and push the resident body down a level
+      const resident = this.body[node]
+      const residentMass = this.mass[node]
+      const rx = this.sumX[node] / residentMass
+      const ry = this.sumY[node] / residentMass
+      const rz = this.sumZ[node] / residentMass
+      this.subdivide(node)
+
+      const residentChild = this.firstChild[node] + this.octant(node, rx, ry, rz)
+      this.body[residentChild] = resident
+      this.mass[residentChild] = residentMass
+      this.sumX[residentChild] = this.sumX[node]
+      this.sumY[residentChild] = this.sumY[node]
+      this.sumZ[residentChild] = this.sumZ[node]
+      this.body[node] = EMPTY
+    }
+  }
+
+  private addMass(node: number, x: number, y: number, z: number): void {
+    this.mass[node] += 1
+    this.sumX[node] += x
+    this.sumY[node] += y
+    this.sumZ[node] += z
+  }
+
+  private octant(node: number, x: number, y: number, z: number): number {
+    return (x >= this.centreX[node] ? 1 : 0) | (y >= this.centreY[node] ? 2 : 0) | (z >= this.centreZ[node] ? 4 : 0)
+  }
+
+  private subdivide(node: number): void {
+    this.ensureCapacity(this.nodeCount + 8)
+    const half = this.halfSize[node] / 2
+    const first = this.nodeCount
+
+    for (let c = 0; c < 8; c++) {
+      this.createNode(
+        this.centreX[node] + (c & 1 ? half : -half),
+        this.centreY[node] + (c & 2 ? half : -half),
+        this.centreZ[node] + (c & 4 ? half : -half),
+        half
+      )
+    }
+    this.firstChild[node] = first
+  }
+
+  private createNode(x: number, y: number, z: number, halfSize: number): number {
+    const node = this.nodeCount++
+    this.centreX[node] = x
+    this.centreY[node] = y
+    this.centreZ[node] = z
+    this.halfSize[node] = halfSize
+    this.mass[node] = 0
+    this.sumX[node] = 0
+    this.sumY[node] = 0
+    this.sumZ[node] = 0
+    this.firstChild[node] = NO_CHILD
+    this.body[node] = EMPTY
+    return node
+  }
+
+  private ensureCapacity(required: number): void {
+    if (required <= this.capacity) return
+
+    const capacity = Math.max(required, this.capacity * 2)
+    const grow64 = (source: Float64Array) => {
+      const grown = new Float64Array(capacity)
+      grown.set(source.subarray(0, this.nodeCount))
+      return grown
+    }
+    const grow32 = (source: Int32Array) => {
+      const grown = new Int32Array(capacity)
+      grown.set(source.subarray(0, this.nodeCount))
+      return grown
+    }
+
+    this.centreX = grow64(this.centreX)
+    this.centreY = grow64(this.centreY)
+    this.centreZ = grow64(this.centreZ)
+    this.halfSize = grow64(this.halfSize)
+    this.mass = grow64(this.mass)
+    this.sumX = grow64(this.sumX)
+    this.sumY = grow64(this.sumY)
+    this.sumZ = grow64(this.sumZ)
+    this.firstChild = grow32(this.firstChild)
+    this.body = grow32(this.body)
+    this.capacity = capacity
+  }
+}
@@ -0,0 +1,203 @@
+import * as THREE from 'three'
+import { StarPhysicsOptions } from './StarPhysics'
+
+export const COMPANION_MASS_FRACTION = 0.4 // Companion starts at 40% of the primary's mass
+// Smaller than the primary (R ∝ M^0.8 at 40% of its mass); swells faster when its turn comes
+export const COMPANION_STAR: StarPhysicsOptions = { mainSequenceRadius: 2.0, expansionDuration: 16 }
+export const COMPANION_EXPANSION_DELAY = 4.0 // Seconds into the white dwarf phase before the companion swells
+export const ROCHE_OVERFLOW_FACTOR = 1.15 // Full red giant radius relative to its Roche lobe
+
+export type BinaryMember = 'primary' | 'companion'
+
+/**
+ * Eggleton's fit for the Roche lobe radius of a star, as a fraction of the
+ * separation (massRatio = this star's mass / the other star's mass)
+ */
+export function rocheLobeFraction(massRatio: number): number {
+  const q23 = Math.pow(massRatio, 2 / 3)
+  return (0.49 * q23) / (0.6 * q23 + Math.log(1 + Math.pow(massRatio, 1 / 3)))
+}
+
+/**
+ * BinaryOrbitPhysics - Two stars on circular orbits about their centre of mass
+ *
+ * The orbit lies in the XZ plane about a fixed centre of mass, placed so the
+ * primary starts at the origin where the nebula collapsed. The separation is
+ * chosen so the primary overflows its Roche lobe near the end of its red
+ * giant expansion. Once the primary dies the system is recentred on the
+ * remnant: the companion either keeps orbiting it or, if the supernova
+ * unbound the pair, flies off at its orbital speed.
+ */
+export class BinaryOrbitPhysics {
+  public readonly primaryPosition = new THREE.Vector3()
+  public readonly companionPosition = new THREE.Vector3()
+
+  private primaryMass: number
+  private companionMass: number
+  private readonly initialCompanionMass: number
+  private transferredMass: number = 0
+  private separation: number
+  private angularSpeed: number = (Math.PI * 2) / 40 // 40 second orbit (compressed for the demo)
+  private angle: number = 0
+  private readonly centre = new THREE.Vector3()
+
+  // After the primary dies the orbit is centred on it instead of the barycentre
+  private centredOnPrimary: boolean = false
+  private runaway: boolean = false
+  private readonly runawayVelocity = new THREE.Vector3()
+
+  constructor(primaryMass: number, primaryRedGiantRadius: number) {
+    this.primaryMass = primaryMass
+    this.companionMass = primaryMass * COMPANION_MASS_FRACTION
+    this.initialCompanionMass = this.companionMass
+
+    const lobeFraction = rocheLobeFraction(this.primaryMass / this.companionMass)
+    this.separation = primaryRedGiantRadius / (ROCHE_OVERFLOW_FACTOR * lobeFraction)
+
+    // At angle 0 the primary sits on the -X side of the centre
+    this.centre.set((this.separation * this.companionMass) / (this.primaryMass + this.companionMass), 0, 0)
+    this.updatePositions()
+  }
+
+  public update(deltaTime: number): void {
+    if (this.runaway) {
+      this.companionPosition.addScaledVector(this.runawayVelocity, deltaTime)
+      return
+    }
+    this.angle += this.angularSpeed * deltaTime
+    this.updatePositions()
+  }
+
+  private updatePositions(): void {
+    // Counter-clockwise seen from +Y, so velocity = ω × r with ω along +Y
+    const dirX = Math.cos(this.angle)
+    const dirZ = -Math.sin(this.angle)
+
+    if (this.centredOnPrimary) {
+      this.primaryPosition.copy(this.centre)
+      this.companionPosition.set(dirX * this.separation, 0, dirZ * this.separation).add(this.centre)
+      return
+    }
+
+    const totalMass = this.primaryMass + this.companionMass
+    const primaryDistance = (this.separation * this.companionMass) / totalMass
+    const companionDistance = (this.separation * this.primaryMass) / totalMass
+    this.primaryPosition.set(-dirX * primaryDistance, 0, -dirZ * primaryDistance).add(this.centre)
+    this.companionPosition.set(dirX * companionDistance, 0, dirZ * companionDistance).add(this.centre)
+  }
+
+  /** Velocity of a point co-rotating with the binary (units per second) */
+  public getOrbitalVelocity(point: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 {
+    if (this.runaway) {
+      return target.set(0, 0, 0)
+    }
+    const x = point.x - this.centre.x
+    const z = point.z - this.centre.z
+    return target.set(this.angularSpeed * z, 0, -this.angularSpeed * x)
+  }
+
+  /** Roche lobe radius of either star at the current mass ratio */
+  public getRocheLobeRadius(member: BinaryMember = 'primary'): number {
+    const massRatio = member === 'primary'
+      ? this.primaryMass / this.companionMass
+      : this.companionMass / this.primaryMass
+    return this.separation * rocheLobeFraction(massRatio)
+  }
+
+  /** How far a star overfills its Roche lobe: 0 = within it, 1 = full red giant overflow */
+  public getOverflow(radius: number, member: BinaryMember = 'primary'): number {
+    const excess = radius / this.getRocheLobeRadius(member) - 1
+    return THREE.MathUtils.clamp(excess / (ROCHE_OVERFLOW_FACTOR - 1), 0, 1)
+  }
+
+  public getPosition(member: BinaryMember): THREE.Vector3 {
+    return member === 'primary' ? this.primaryPosition : this.companionPosition
+  }
+
+  /** Inner Lagrange point, where overflowing gas leaves the primary */
+  public getL1Point(target: THREE.Vector3): THREE.Vector3 {
+    // Plavec & Kratochvil approximation of the L1 distance from the primary
+    const fraction = THREE.MathUtils.clamp(0.5 + 0.227 * Math.log10(this.primaryMass / this.companionMass), 0.1, 0.9)
+    return target.copy(this.primaryPosition).lerp(this.companionPosition, fraction)
+  }
+
+  /** Move mass from the donor onto the other star */
+  public transferMass(mass: number, donor: BinaryMember = 'primary'): void {
+    if (donor === 'primary') {
+      const transferable = Math.min(mass, this.primaryMass * 0.5)
+      this.primaryMass -= transferable
+      this.companionMass += transferable
+      this.transferredMass += transferable
+    } else {
+      const transferable = Math.min(mass, this.companionMass * 0.5)
+      this.companionMass -= transferable
+      this.primaryMass += transferable
+      this.transferredMass -= transferable
+    }
+  }
+
+  /** The primary's mass changes abruptly when it leaves a remnant */
+  public setPrimaryMass(mass: number): void {
+    this.primaryMass = mass
+  }
+
+  /**
+   * Shift the system so the primary (now a remnant) sits at the origin.
+   * Returns the offset that was applied, so callers can move the camera and
+   * anything else positioned in world space along with it.
+   */
+  public recentreOnPrimary(unbound: boolean, target: THREE.Vector3): THREE.Vector3 {
+    target.copy(this.primaryPosition).negate()
+
+    if (unbound) {
+      this.unbind()
+      this.companionPosition.add(target)
+      this.primaryPosition.set(0, 0, 0)
+    } else {
+      // The remnant stays put as the focus of the view and the companion circles it
+      this.centre.set(0, 0, 0)
+      this.centredOnPrimary = true
+      this.updatePositions()
+    }
+    return target
+  }
+
+  /**
+   * The primary is gone or lost most of its mass in an explosion: the companion
+   * leaves at the orbital speed it had relative to the primary (Blaauw kick)
+   */
+  public unbind(): void {
+    if (this.runaway) return
+
+    const relativeX = this.companionPosition.x - this.primaryPosition.x
+    const relativeZ = this.companionPosition.z - this.primaryPosition.z
+    this.runawayVelocity.set(this.angularSpeed * relativeZ, 0, -this.angularSpeed * relativeX)
+    this.runaway = true
+  }
+
+  public isRunaway(): boolean {
+    return this.runaway
+  }
+
+  public getSeparation(): number {
+    return this.separation
+  }
+
+  public getPrimaryMass(): number {
+    return this.primaryMass
+  }
+
+  public getCompanionMass(): number {
+    return this.companionMass
+  }
+
+  /** Companion mass relative to its starting mass */
+  public getCompanionMassRatio(): number {
+    return this.companionMass / this.initialCompanionMass
+  }
+
+  /** Net mass moved from the primary onto the companion */
+  public getTransferredMass(): number {
+    return this.transferredMass
+  }
+}
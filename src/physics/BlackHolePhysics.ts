@@ -0,0 +1,79 @@
+export const MAX_SPIN = 0.998 // Thorne limit: accreted photons keep a real hole just below maximal spin
+
+/*
+ * Kerr radii as multiples of the Schwarzschild radius (Rs = 2GM/c²), for a
+ * dimensionless spin a = Jc/GM² in [0, MAX_SPIN]. All reduce to the
+ * Schwarzschild values at a = 0.
+ */
+
+/** Outer event horizon r+ = (1 + √(1 - a²)) GM/c²: 1 Rs when still, 0.5 Rs at maximal spin */
+export function kerrHorizonFactor(spin: number): number {
+  return (1 + Math.sqrt(1 - spin * spin)) / 2
+}
+
+/** Innermost stable circular orbit (Bardeen, Press & Teukolsky 1972): 3 Rs when still */
+export function kerrIscoFactor(spin: number, prograde: boolean = true): number {
+  const z1 = 1 + Math.cbrt(1 - spin * spin) * (Math.cbrt(1 + spin) + Math.cbrt(1 - spin))
+  const z2 = Math.sqrt(3 * spin * spin + z1 * z1)
+  const root = Math.sqrt((3 - z1) * (3 + z1 + 2 * z2))
+  return (3 + z2 + (prograde ? -root : root)) / 2
+}
+
+/** Circular photon orbit in the equatorial plane: 1.5 Rs when still, split by spin */
+export function kerrPhotonOrbitFactor(spin: number, prograde: boolean = true): number {
+  return 1 + Math.cos((2 / 3) * Math.acos(prograde ? -spin : spin))
+}
+
+/**
+ * BlackHolePhysics - Black hole mass, spin and event horizon growth, without rendering
+ */
+export class BlackHolePhysics {
+  private currentMass: number = 1.0 // Initial mass in solar masses
+  private baseRadius: number // Initial Schwarzschild radius
+  private radius: number // Schwarzschild radius at the current mass
+  private readonly maxGrowth: number = 3.0 // Clamp growth to prevent excessive scaling
+  private spin: number = 0 // Dimensionless spin parameter a
+
+  constructor(baseRadius: number = 12.0) {
+    this.baseRadius = baseRadius
+    this.radius = baseRadius
+  }
+
+  public addMass(deltaMass: number): void {
+    this.currentMass += deltaMass
+
+    // Schwarzschild radius: Rs = 2GM/c² (simplified: Rs ∝ M)
+    const newRadius = this.baseRadius * this.currentMass
+    this.radius = Math.min(newRadius, this.baseRadius * this.maxGrowth)
+  }
+
+  public setSpin(spin: number): void {
+    this.spin = Math.min(Math.max(spin, 0), MAX_SPIN)
+  }
+
+  public getSpin(): number {
+    return this.spin
+  }
+
+  public getMass(): number {
+    return this.currentMass
+  }
+
+  public getBaseRadius(): number {
+    return this.baseRadius
+  }
+
+  /** Mass-only radius: sets the strength of lensing, which spin does not change */
+  public getSchwarzschildRadius(): number {
+    return this.radius
+  }
+
+  public getEventHorizonRadius(): number {
+    return this.radius * kerrHorizonFactor(this.spin)
+  }
+
+  /** Prograde ISCO, where a thin disk's inner edge sits */
+  public getIscoRadius(): number {
+    return this.radius * kerrIscoFactor(this.spin)
+  }
+}
@@ -0,0 +1,174 @@
+import * as THREE from 'three'
+import { Random } from '../utils/Random'
+import { BinaryOrbitPhysics, BinaryMember } from './BinaryOrbitPhysics'
+
+/** Mass of one stream particle, as a fraction of the donor's initial mass */
+export const STREAM_PARTICLE_MASS_FRACTION = 0.0001
+
+/** Particles a white dwarf has to catch to reach the Chandrasekhar limit, whatever its starting mass */
+export const WHITE_DWARF_FILL_PARTICLES = 2000
+
+/**
+ * MassTransferStreamPhysics - Gas pulled through L1 onto a binary companion, without rendering
+ *
+ * Same particle-pool approach as AccretionSourcePhysics, but fed continuously
+ * from a moving spawn point (the inner Lagrange point) and falling onto a
+ * moving target (the companion). Velocities are in units per second.
+ */
+export class MassTransferStreamPhysics {
+  public readonly particleCount: number
+  public readonly positions: Float32Array
+  private velocities: Float32Array
+  private lifetimes: Float32Array
+  private particleMass: number
+  private maxLifetime: number = 8.0
+
+  // Updated every step as the binary orbits
+  private source = new THREE.Vector3()
+  private sourceVelocity = new THREE.Vector3()
+  private target = new THREE.Vector3()
+  private targetVelocity = new THREE.Vector3()
+  private targetRadius: number = 2.0
+  private gravityStrength: number = 400 // Companion's GM in scene units³/s²
+
+  private spawnRate: number = 0 // Particles per second
+  private maxSpawnRate: number = 150 // At full Roche lobe overflow
+  private spawnAccumulator: number = 0
+
+  private onParticleConsumed?: (mass: number) => void
+  private consumedMass: number = 0
+
+  constructor(particleCount: number = 1500, particleMass: number = 0.0025) {
+    this.particleCount = particleCount
+    this.particleMass = particleMass
+
+    this.positions = new Float32Array(this.particleCount * 3)
+    this.velocities = new Float32Array(this.particleCount * 3)
+    this.lifetimes = new Float32Array(this.particleCount)
+    this.positions.fill(10000) // Inactive particles are parked far away
+  }
+
+  /** Follow the binary: feed from its L1 point onto the other star, as fast as the donor overflows */
+  public trackBinary(
+    orbit: BinaryOrbitPhysics,
+    donorRadius: number,
+    accretorRadius: number,
+    donor: BinaryMember = 'primary'
+  ): void {
+    orbit.getL1Point(this.source)
+    orbit.getOrbitalVelocity(this.source, this.sourceVelocity)
+    this.target.copy(orbit.getPosition(donor === 'primary' ? 'companion' : 'primary'))
+    orbit.getOrbitalVelocity(this.target, this.targetVelocity)
+    this.targetRadius = accretorRadius
+    this.spawnRate = this.maxSpawnRate * orbit.getOverflow(donorRadius, donor)
+  }
+
+  public update(deltaTime: number): void {
+    this.spawnAccumulator += this.spawnRate * deltaTime
+    const toSpawn = Math.floor(this.spawnAccumulator)
+    this.spawnAccumulator -= toSpawn
+    if (toSpawn > 0) {
+      this.spawnParticles(toSpawn)
+    }
+
+    // A little larger than the star so the stream visibly lands on its surface; compact
+    // accretors (white dwarfs) get a minimum, standing in for the disk they'd feed through
+    const captureRadius = Math.max(this.targetRadius * 1.2, 1.5)
+
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.lifetimes[i] <= 0) continue
+
+      const i3 = i * 3
+      const dx = this.target.x - this.positions[i3]
+      const dy = this.target.y - this.positions[i3 + 1]
+      const dz = this.target.z - this.positions[i3 + 2]
+      const distanceSquared = dx * dx + dy * dy + dz * dz
+      const distance = Math.sqrt(distanceSquared)
+
+      if (distance < captureRadius) {
+        this.consumedMass += this.particleMass
+        if (this.onParticleConsumed) {
+          this.onParticleConsumed(this.particleMass)
+        }
+        this.deactivate(i)
+        continue
+      }
+
+      // Softened point-mass gravity toward the companion
+      const acceleration = this.gravityStrength / (distanceSquared + 1)
+      this.velocities[i3] += (dx / distance) * acceleration * deltaTime
+      this.velocities[i3 + 1] += (dy / distance) * acceleration * deltaTime
+      this.velocities[i3 + 2] += (dz / distance) * acceleration * deltaTime
+
+      this.positions[i3] += this.velocities[i3] * deltaTime
+      this.positions[i3 + 1] += this.velocities[i3 + 1] * deltaTime
+      this.positions[i3 + 2] += this.velocities[i3 + 2] * deltaTime
+
+      // Gas that misses the companion disperses
+      this.lifetimes[i] -= deltaTime
+      if (this.lifetimes[i] <= 0) {
+        this.deactivate(i)
+      }
+    }
+  }
+
+  private spawnParticles(count: number): void {
+    let spawned = 0
+
+    for (let i = 0; i < this.particleCount && spawned < count; i++) {
+      if (this.lifetimes[i] > 0) continue
+
+      const i3 = i * 3
+      // Narrow nozzle around L1
+      const jitter = 0.6
+      this.positions[i3] = this.source.x + (Random.next() - 0.5) * jitter
+      this.positions[i3 + 1] = this.source.y + (Random.next() - 0.5) * jitter
+      this.positions[i3 + 2] = this.source.z + (Random.next() - 0.5) * jitter
+
+      // Mostly co-moving with the companion so the stream lands rather than orbiting it;
+      // the remaining lag behind the companion bends the stream into an arc
+      const towardX = this.target.x - this.source.x
+      const towardY = this.target.y - this.source.y
+      const towardZ = this.target.z - this.source.z
+      const towardLength = Math.sqrt(towardX * towardX + towardY * towardY + towardZ * towardZ) || 1
+      const pushSpeed = 2.0 + Random.next() * 1.0
+
+      this.velocities[i3] = THREE.MathUtils.lerp(this.sourceVelocity.x, this.targetVelocity.x, 0.7) +
+        (towardX / towardLength) * pushSpeed
+      this.velocities[i3 + 1] = THREE.MathUtils.lerp(this.sourceVelocity.y, this.targetVelocity.y, 0.7) +
+        (towardY / towardLength) * pushSpeed + (Random.next() - 0.5) * 0.3
+      this.velocities[i3 + 2] = THREE.MathUtils.lerp(this.sourceVelocity.z, this.targetVelocity.z, 0.7) +
+        (towardZ / towardLength) * pushSpeed
+
+      this.lifetimes[i] = this.maxLifetime
+      spawned++
+    }
+  }
+
+  private deactivate(index: number): void {
+    const i3 = index * 3
+    this.lifetimes[index] = 0
+    this.positions[i3] = 10000
+    this.positions[i3 + 1] = 10000
+    this.positions[i3 + 2] = 10000
+    this.velocities[i3] = 0
+    this.velocities[i3 + 1] = 0
+    this.velocities[i3 + 2] = 0
+  }
+
+  public setConsumptionCallback(callback: (mass: number) => void): void {
+    this.onParticleConsumed = callback
+  }
+
+  public getActiveParticleCount(): number {
+    let count = 0
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.lifetimes[i] > 0) count++
+    }
+    return count
+  }
+
+  public getConsumedMass(): number {
+    return this.consumedMass
+  }
+}
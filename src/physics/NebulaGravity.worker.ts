@@ -0,0 +1,14 @@
+import { BarnesHutOctree } from './BarnesHutOctree'
+import type { GravityRequest, GravityReply } from './NebulaGravitySolver'
+
+// Nebula self-gravity off the render thread (see WorkerGravitySolver).
+// The tree is kept between requests so its node arrays are only allocated once.
+const tree = new BarnesHutOctree()
+
+self.addEventListener('message', (event: MessageEvent<GravityRequest>) => {
+  const { positions, accelerations, params } = event.data
+  tree.solve(positions, positions.length / 3, accelerations, params)
+
+  const reply: GravityReply = { positions, accelerations }
+  self.postMessage(reply, { transfer: [positions.buffer, accelerations.buffer] })
+})
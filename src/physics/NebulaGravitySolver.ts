@@ -0,0 +1,92 @@
+import { BarnesHutOctree, GravityParams } from './BarnesHutOctree'
+
+/** Collapses the default cloud in about 15 s, a little slower than the scripted pull */
+export const NEBULA_SELF_GRAVITY: GravityParams = {
+  strength: 12.0,
+  theta: 0.6,
+  softening: 1.2,
+}
+
+/**
+ * Supplies the nebula's self-gravity. May lag behind: returns the most recent
+ * field it has (null until the first one is ready).
+ */
+export interface NebulaGravitySolver {
+  solve(positions: Float32Array): Float32Array | null
+  dispose(): void
+}
+
+/** Solves on the calling thread, every step (headless runs and tests) */
+export class SyncGravitySolver implements NebulaGravitySolver {
+  private tree = new BarnesHutOctree()
+  private accelerations: Float32Array | null = null
+
+  constructor(private params: GravityParams = NEBULA_SELF_GRAVITY) {}
+
+  public solve(positions: Float32Array): Float32Array {
+    if (!this.accelerations || this.accelerations.length !== positions.length) {
+      this.accelerations = new Float32Array(positions.length)
+    }
+    this.tree.solve(positions, positions.length / 3, this.accelerations, this.params)
+    return this.accelerations
+  }
+
+  public dispose(): void {
+    this.accelerations = null
+  }
+}
+
+/** Message to the gravity worker; both buffers are transferred and come back in the reply */
+export interface GravityRequest {
+  positions: Float32Array
+  accelerations: Float32Array
+  params: GravityParams
+}
+
+export type GravityReply = Omit<GravityRequest, 'params'>
+
+/**
+ * Solves in a Web Worker so the render thread never waits on the tree.
+ * Buffers ping-pong between the threads as transferables: one positions
+ * snapshot and one spare field are in flight, the latest field stays here.
+ */
+export class WorkerGravitySolver implements NebulaGravitySolver {
+  private worker: Worker
+  private inFlight: boolean = false
+  private snapshot: Float32Array | null = null // Positions buffer, while it's on this side
+  private spare: Float32Array | null = null
+  private latest: Float32Array | null = null
+
+  constructor(private params: GravityParams = NEBULA_SELF_GRAVITY) {
+    this.worker = new Worker(new URL('./NebulaGravity.worker.ts', import.meta.url), { type: 'module' })
+    this.worker.addEventListener('message', (event: MessageEvent<GravityReply>) => {
+      this.snapshot = event.data.positions
+      this.spare = this.latest
+      this.latest = event.data.accelerations
+      this.inFlight = false
+    })
+  }
+
+  public solve(positions: Float32Array): Float32Array | null {
+    if (this.inFlight) return this.latest
+
+    // Buffers are allocated on the first two requests, then only ever swapped
+    const snapshot = this.snapshot ?? new Float32Array(positions.length)
+    const accelerations = this.spare ?? new Float32Array(positions.length)
+    snapshot.set(positions)
+    this.snapshot = null
+    this.spare = null
+    this.inFlight = true
+
+    const request: GravityRequest = { positions: snapshot, accelerations, params: this.params }
+    this.worker.postMessage(request, [snapshot.buffer, accelerations.buffer])
+    return this.latest
+  }
+
+  public dispose(): void {
+    this.worker.terminate()
+    this.snapshot = null
+    this.spare = null
+    this.latest = null
+  }
+}
@@ -0,0 +1,439 @@
+import * as THREE from 'three'
+import { Random } from '../utils/Random'
+import { NebulaGravitySolver } from './NebulaGravitySolver'
+
+/** Collapse progress at which each ignition stage begins */
+export const IGNITION_STAGES = {
+  preIgnition: 0.85,
+  ignition: 0.9,
+  stabilization: 0.95,
+}
+export const PROTOSTAR_GEOMETRY_RADIUS = 0.5 // Base radius of the sphere geometry
+export const CAPTURE_RADIUS_MULTIPLIER = 1.15 // How much bigger than protostar visual size
+
+/** Collapse tunables (see SimulationConfig); anything omitted keeps its default */
+export interface NebulaPhysicsOptions {
+  collapseSpeed?: number
+  swirlStrength?: number
+  softening?: number
+}
+
+/** Per-step coefficients of the particle update (see NebulaPhysics.beginStep) */
+export interface NebulaStepCoefficients {
+  time: number
+  gravityScale: number // Frame factor, with the pre-ignition boost
+  collapseSpeed: number
+  softening: number
+  alignment: number // Fraction of tangential velocity removed per step
+  inwardBias: number
+  drag: number
+  swirl: number
+  diskPull: number
+  turbulence: number
+  maxVelocity: number
+  protostarRadius: number
+  captureRadius: number
+  capturing: boolean // False once the protostar reached critical mass
+}
+
+/**
+ * NebulaPhysics - Gravitational collapse of the nebula cloud, without rendering
+ *
+ * Owns the particle state (positions, velocities, stuck flags) and the
+ * protostar's physical size. Nebula renders it; HeadlessSimulation steps it
+ * directly.
+ *
+ * With a gravity solver the scripted central pull is replaced by the
+ * particles' mutual attraction, so the cloud fragments into filaments and
+ * clumps on its way in.
+ */
+export class NebulaPhysics {
+  public readonly particleCount: number
+  public readonly positions: Float32Array
+  public readonly velocities: Float32Array
+  public readonly stuck: Float32Array // 0 = free, 1 = stuck
+  private stuckRadius: Float32Array // radius at which particle stuck
+  private stuckTheta: Float32Array // angular position (theta)
+  private stuckPhi: Float32Array // angular position (phi)
+
+  private time = 0
+  private simulationSpeed = 0.035
+  private collapseSpeed = 9.5 // Increased for dramatic visible streaming
+  private swirlStrength = 0.001
+  private diskPullStrength = 0.0016
+  private turbulenceStrength = 0.00022
+  private baseDrag = 0.992
+  private softening = 1.2
+  private maxVelocity = 2.5 // Increased to allow faster streaming
+  private gravitySolver: NebulaGravitySolver | null
+
+  private averageRadius = 0
+  private collapseProgress = 0
+  private initialAverageRadius = 0
+  private targetAverageRadius = 6
+  private frameFactor = 0
+
+  public readonly protostarGeometryRadius = PROTOSTAR_GEOMETRY_RADIUS
+  private protostarBaseScale = 1.2
+  private protostarMaxScale = 12.0 // Max size during accretion (puffy protostar)
+  private protostarFinalScale = 9.6 // Final size after fusion ignition (contracts slightly)
+  private protostarScale = 1.2
+  public readonly captureRadiusMultiplier = CAPTURE_RADIUS_MULTIPLIER
+  private stuckParticleCount = 0
+
+  // Multi-stage ignition thresholds
+  public readonly preIgnitionThreshold = IGNITION_STAGES.preIgnition
+  public readonly ignitionThreshold = IGNITION_STAGES.ignition
+  public readonly stabilizationThreshold = IGNITION_STAGES.stabilization
+  private ignitionBurstTriggered = false // One-time particle ejection event
+
+  // Critical mass - star stops capturing particles to preserve nebula material
+  private readonly criticalMassThreshold = 0.65
+  private criticalMassReached = false
+
+  constructor(
+    particleCount: number = 20000,
+    gravitySolver: NebulaGravitySolver | null = null,
+    options: NebulaPhysicsOptions = {}
+  ) {
+    this.particleCount = particleCount
+    this.gravitySolver = gravitySolver
+    this.collapseSpeed = options.collapseSpeed ?? this.collapseSpeed
+    this.swirlStrength = options.swirlStrength ?? this.swirlStrength
+    this.softening = options.softening ?? this.softening
+    this.positions = new Float32Array(this.particleCount * 3)
+    this.velocities = new Float32Array(this.particleCount * 3)
+    this.stuck = new Float32Array(this.particleCount)
+    this.stuckRadius = new Float32Array(this.particleCount)
+    this.stuckTheta = new Float32Array(this.particleCount)
+    this.stuckPhi = new Float32Array(this.particleCount)
+
+    this.initializeParticles()
+
+    this.averageRadius = this.computeAverageRadius()
+    this.initialAverageRadius = this.averageRadius
+    this.collapseProgress = 0
+  }
+
+  private initializeParticles(): void {
+    for (let i = 0; i < this.particleCount; i++) {
+      const i3 = i * 3
+
+      // Create particles in a spherical distribution (nebula cloud)
+      const radius = 30 + Random.next() * 20
+      const theta = Random.next() * Math.PI * 2
+      const phi = Math.acos(2 * Random.next() - 1)
+
+      // Spherical to cartesian coordinates
+      this.positions[i3] = radius * Math.sin(phi) * Math.cos(theta)
+      this.positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
+      this.positions[i3 + 2] = radius * Math.cos(phi)
+
+      this.velocities[i3] = (Random.next() - 0.5) * 0.003
+      this.velocities[i3 + 1] = (Random.next() - 0.5) * 0.003
+      this.velocities[i3 + 2] = (Random.next() - 0.5) * 0.003
+    }
+  }
+
+  public update(deltaTime: number): void {
+    const step = this.beginStep(deltaTime)
+    const positions = this.positions
+    const velocities = this.velocities
+
+    let freeParticleDistance = 0
+    let freeParticleCount = 0
+
+    // Self-gravity field for the current positions (may be a step or two old from a worker)
+    const selfGravity = this.gravitySolver ? this.gravitySolver.solve(positions) : null
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const i3 = i * 3
+
+      const x = positions[i3]
+      const y = positions[i3 + 1]
+      const z = positions[i3 + 2]
+
+      const distance = Math.sqrt(x * x + y * y + z * z)
+
+      // Handle stuck particles (value = 1.0) - position them on the protostar surface
+      if (this.stuck[i] > 0.9) {
+        const theta = this.stuckTheta[i]
+        const phi = this.stuckPhi[i]
+        // Stuck particles ride on the surface as the protostar grows
+        const radius = step.protostarRadius * this.stuckRadius[i]
+
+        positions[i3] = radius * Math.sin(phi) * Math.cos(theta)
+        positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta)
+        positions[i3 + 2] = radius * Math.cos(phi)
+        continue // Skip physics for stuck particles
+      }
+
+      // Check if free particle should stick (only if critical mass not yet reached)
+      if (distance < step.captureRadius && this.stuck[i] < 0.5 && step.capturing) {
+        this.stuck[i] = 1
+        // Store as normalized radius factor - right at the surface with slight variation
+        this.stuckRadius[i] = 0.98 + Random.next() * 0.04
+
+        // Convert current position to spherical coordinates
+        if (distance > 0.001) {
+          this.stuckTheta[i] = Math.atan2(y, x)
+          this.stuckPhi[i] = Math.acos(THREE.MathUtils.clamp(z / distance, -1, 1))
+        } else {
+          // Random position if too close to center
+          this.stuckTheta[i] = Random.next() * Math.PI * 2
+          this.stuckPhi[i] = Math.acos(2 * Random.next() - 1)
+        }
+
+        this.stuckParticleCount++
+        continue
+      }
+
+      // Regular physics for free particles
+      freeParticleDistance += distance
+      freeParticleCount++
+
+      if (distance > 0.001) {
+        const invDistance = 1 / distance
+        const nx = x * invDistance
+        const ny = y * invDistance
+        const nz = z * invDistance
+
+        if (this.gravitySolver) {
+          // Free fall under the cloud's own gravity: no scripted steering toward the centre
+          if (selfGravity) {
+            velocities[i3] += selfGravity[i3] * step.gravityScale
+            velocities[i3 + 1] += selfGravity[i3 + 1] * step.gravityScale
+            velocities[i3 + 2] += selfGravity[i3 + 2] * step.gravityScale
+          }
+        } else {
+          const pull = (step.collapseSpeed * step.gravityScale) / Math.pow(distance + step.softening, 2)
+
+          velocities[i3] -= nx * pull
+          velocities[i3 + 1] -= ny * pull
+          velocities[i3 + 2] -= nz * pull
+
+          const radialVelocity =
+            velocities[i3] * nx + velocities[i3 + 1] * ny + velocities[i3 + 2] * nz
+
+          const tangentialX = velocities[i3] - radialVelocity * nx
+          const tangentialY = velocities[i3 + 1] - radialVelocity * ny
+          const tangentialZ = velocities[i3 + 2] - radialVelocity * nz
+          velocities[i3] -= tangentialX * step.alignment
+          velocities[i3 + 1] -= tangentialY * step.alignment
+          velocities[i3 + 2] -= tangentialZ * step.alignment
+
+          if (radialVelocity > -0.02) {
+            const correction = (radialVelocity + 0.02) * step.inwardBias
+            velocities[i3] -= nx * correction
+            velocities[i3 + 1] -= ny * correction
+            velocities[i3 + 2] -= nz * correction
+          }
+        }
+      }
+
+      velocities[i3] *= step.drag
+      velocities[i3 + 1] *= step.drag
+      velocities[i3 + 2] *= step.drag
+
+      // Encourage accretion disk (orbit around Y axis, fall toward equatorial plane).
+      // The swirl kick relies on the scripted tangential damping; self-gravity has none
+      if (!this.gravitySolver) {
+        velocities[i3] += -z * step.swirl
+        velocities[i3 + 2] += x * step.swirl
+      }
+      velocities[i3 + 1] -= y * step.diskPull
+
+      // Gentle turbulence for swirling wisps
+      velocities[i3] +=
+        (Math.sin(this.time * 0.35 + i * 0.21) + Math.cos(this.time * 0.6 + i * 0.13)) *
+        step.turbulence *
+        0.5
+      velocities[i3 + 1] += Math.sin(this.time * 0.27 + i * 0.37) * step.turbulence * 0.3
+      velocities[i3 + 2] +=
+        (Math.cos(this.time * 0.41 + i * 0.17) + Math.sin(this.time * 0.22 + i * 0.29)) *
+        step.turbulence *
+        0.5
+
+      velocities[i3] = THREE.MathUtils.clamp(velocities[i3], -step.maxVelocity, step.maxVelocity)
+      velocities[i3 + 1] = THREE.MathUtils.clamp(
+        velocities[i3 + 1],
+        -step.maxVelocity,
+        step.maxVelocity
+      )
+      velocities[i3 + 2] = THREE.MathUtils.clamp(
+        velocities[i3 + 2],
+        -step.maxVelocity,
+        step.maxVelocity
+      )
+
+      positions[i3] += velocities[i3]
+      positions[i3 + 1] += velocities[i3 + 1]
+      positions[i3 + 2] += velocities[i3 + 2]
+    }
+
+    this.finishStep(freeParticleDistance, freeParticleCount, this.stuckParticleCount)
+  }
+
+  /**
+   * Advance the clock and the protostar, and return this step's coefficients
+   * for the particle update (also used by the GPU version)
+   */
+  public beginStep(deltaTime: number): NebulaStepCoefficients {
+    this.time += deltaTime
+
+    // Update protostar scale BEFORE processing particles so they can track it
+    this.updateProtostarScale(this.collapseProgress)
+
+    const frameFactor = Math.min(deltaTime * 60 * this.simulationSpeed, 3)
+    this.frameFactor = frameFactor
+
+    // Check if star has reached critical mass - stop capturing more particles
+    if (this.collapseProgress >= this.criticalMassThreshold && !this.criticalMassReached) {
+      this.criticalMassReached = true
+      // Star has reached critical mass - will continue to grow via scale but won't capture more particles
+    }
+
+    // Mark when fusion ignition occurs (for visual effects, no particle burst)
+    if (this.collapseProgress >= this.ignitionThreshold && !this.ignitionBurstTriggered) {
+      this.ignitionBurstTriggered = true
+    }
+
+    // Pre-ignition: increase gravitational pull (1.5x faster)
+    const preIgnition = this.collapseProgress >= this.preIgnitionThreshold && this.collapseProgress < this.ignitionThreshold
+    const protostarRadius = this.getProtostarRadius()
+
+    return {
+      time: this.time,
+      gravityScale: frameFactor * (preIgnition ? 1.5 : 1.0),
+      collapseSpeed: this.collapseSpeed,
+      softening: this.softening,
+      alignment: THREE.MathUtils.lerp(0.04, 0.1, this.collapseProgress),
+      inwardBias: THREE.MathUtils.lerp(0.4, 1.1, this.collapseProgress),
+      drag: this.baseDrag,
+      swirl: this.swirlStrength * frameFactor,
+      diskPull: this.diskPullStrength * frameFactor * (0.3 + this.collapseProgress),
+      turbulence: this.turbulenceStrength * frameFactor,
+      maxVelocity: this.maxVelocity,
+      protostarRadius,
+      captureRadius: protostarRadius * this.captureRadiusMultiplier,
+      capturing: !this.criticalMassReached,
+    }
+  }
+
+  /**
+   * Measure the collapse from where the free particles ended up this step
+   */
+  public finishStep(freeParticleDistance: number, freeParticleCount: number, stuckParticleCount: number): void {
+    this.stuckParticleCount = stuckParticleCount
+
+    // Calculate collapse progress based on free particles
+    if (freeParticleCount > 0) {
+      this.averageRadius = freeParticleDistance / freeParticleCount
+    } else {
+      // All particles stuck - collapse complete
+      this.averageRadius = this.targetAverageRadius
+    }
+
+    const collapseSpan = Math.max(this.initialAverageRadius - this.targetAverageRadius, 1)
+    this.collapseProgress = THREE.MathUtils.clamp(
+      (this.initialAverageRadius - this.averageRadius) / collapseSpan,
+      0,
+      1
+    )
+
+    // Boost collapse progress based on stuck particle count for faster visual growth
+    const stuckRatio = this.stuckParticleCount / this.particleCount
+    this.collapseProgress = THREE.MathUtils.clamp(
+      this.collapseProgress + stuckRatio * 0.3,
+      0,
+      1
+    )
+  }
+
+  /**
+   * Protostar size (with stage-dependent breathing) - determines the capture radius
+   */
+  private updateProtostarScale(progress: number): void {
+    // Pre-ignition: grows to max, Post-ignition: contracts to final
+    let targetScale: number
+    if (progress < this.ignitionThreshold) {
+      targetScale = THREE.MathUtils.lerp(this.protostarBaseScale, this.protostarMaxScale, progress / this.ignitionThreshold)
+    } else {
+      // Post-ignition: contract from max to final over 90-95% range
+      const contractionProgress = (progress - this.ignitionThreshold) / (this.stabilizationThreshold - this.ignitionThreshold)
+      targetScale = THREE.MathUtils.lerp(this.protostarMaxScale, this.protostarFinalScale, Math.min(contractionProgress, 1.0))
+    }
+
+    let pulseFrequency = 2
+    let pulseAmplitude = 0.1
+    if (progress >= this.stabilizationThreshold) {
+      // Stage 4: Main Sequence Stability (95-100%) - slow gentle breathing
+      const stageProgress = (progress - this.stabilizationThreshold) / (1 - this.stabilizationThreshold)
+      pulseFrequency = THREE.MathUtils.lerp(1, 0.5, stageProgress)
+      pulseAmplitude = THREE.MathUtils.lerp(0.05, 0.02, stageProgress)
+    } else if (progress >= this.ignitionThreshold) {
+      // Stage 3: Fusion Ignition & Contraction (90-95%) - settling down
+      const stageProgress = (progress - this.ignitionThreshold) / (this.stabilizationThreshold - this.ignitionThreshold)
+      pulseFrequency = THREE.MathUtils.lerp(4, 1, stageProgress)
+      pulseAmplitude = THREE.MathUtils.lerp(0.15, 0.05, stageProgress)
+    } else if (progress >= this.preIgnitionThreshold) {
+      // Stage 2: Pre-ignition Intensifies (85-90%) - accelerating pulse
+      const stageProgress = (progress - this.preIgnitionThreshold) / (this.ignitionThreshold - this.preIgnitionThreshold)
+      pulseFrequency = THREE.MathUtils.lerp(2, 4, stageProgress)
+      pulseAmplitude = THREE.MathUtils.lerp(0.1, 0.15, stageProgress)
+    }
+    // Stage 1: Normal (0-85%) uses default values
+
+    const pulse = Math.sin(this.time * pulseFrequency) * pulseAmplitude + 1
+    this.protostarScale = targetScale * pulse
+  }
+
+  private computeAverageRadius(): number {
+    let total = 0
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const i3 = i * 3
+      const x = this.positions[i3]
+      const y = this.positions[i3 + 1]
+      const z = this.positions[i3 + 2]
+      total += Math.sqrt(x * x + y * y + z * z)
+    }
+
+    return total / this.particleCount
+  }
+
+  public getAverageRadius(): number {
+    return this.averageRadius
+  }
+
+  public getCollapseProgress(): number {
+    return this.collapseProgress
+  }
+
+  public getStuckParticleCount(): number {
+    return this.stuckParticleCount
+  }
+
+  /**
+   * Scale applied to the unit protostar sphere (includes pulsing)
+   */
+  public getProtostarScale(): number {
+    return this.protostarScale
+  }
+
+  public getProtostarRadius(): number {
+    // Actual world-space radius = scale * geometry base radius
+    return this.protostarScale * this.protostarGeometryRadius
+  }
+
+  /**
+   * Speed factor of the last step (drives the cloud's slow visual rotation)
+   */
+  public getFrameFactor(): number {
+    return this.frameFactor
+  }
+
+  public getTime(): number {
+    return this.time
+  }
+}
@@ -0,0 +1,65 @@
+import * as THREE from 'three'
+
+/**
+ * NeutronStarPhysics - Pulsar spin and beam geometry, without rendering
+ *
+ * The star spins about +Y. Its magnetic axis is tilted from the spin axis, and
+ * the two beams point both ways along it, sweeping cones around the sky once
+ * per rotation. Magnetic braking slowly lengthens the period.
+ */
+export class NeutronStarPhysics {
+  public readonly radius: number = 0.5 // ~10 km: a speck next to the star it came from
+  public readonly magneticInclination: number = THREE.MathUtils.degToRad(70) // Tilt from the spin axis
+  public readonly beamHalfAngle: number = THREE.MathUtils.degToRad(9) // Angular radius of each beam
+
+  // Slowed down enormously from real millisecond-to-second periods so each sweep is visible
+  private period: number = 1.2 // Seconds per rotation
+  private spinDownRate: number = 0.002 // Seconds of period gained per second
+  private rotation: number = 0 // Spin angle (radians)
+  private time: number = 0
+
+  private readonly magneticAxis = new THREE.Vector3()
+  private readonly spinAxis = new THREE.Vector3(0, 1, 0)
+
+  public update(deltaTime: number): void {
+    this.time += deltaTime
+    this.period += this.spinDownRate * deltaTime
+    this.rotation = (this.rotation + (deltaTime / this.period) * Math.PI * 2) % (Math.PI * 2)
+  }
+
+  /**
+   * World-space direction of beam 0 (north magnetic pole) or 1 (south)
+   */
+  public getBeamDirection(beamIndex: number, target: THREE.Vector3): THREE.Vector3 {
+    this.magneticAxis.set(Math.sin(this.magneticInclination), Math.cos(this.magneticInclination), 0)
+    target.copy(this.magneticAxis).applyAxisAngle(this.spinAxis, this.rotation)
+    return beamIndex === 0 ? target : target.negate()
+  }
+
+  /**
+   * How squarely a beam points at the observer: 1 dead-on, 0 at the beam edge or beyond
+   */
+  public getBeamAlignment(observerDirection: THREE.Vector3): number {
+    const beam = new THREE.Vector3()
+    const edge = Math.cos(this.beamHalfAngle)
+    let best = 0
+
+    for (let beamIndex = 0; beamIndex < 2; beamIndex++) {
+      const cosAngle = this.getBeamDirection(beamIndex, beam).dot(observerDirection)
+      best = Math.max(best, (cosAngle - edge) / (1 - edge))
+    }
+    return THREE.MathUtils.clamp(best, 0, 1)
+  }
+
+  public getRotation(): number {
+    return this.rotation
+  }
+
+  public getPeriod(): number {
+    return this.period
+  }
+
+  public getTime(): number {
+    return this.time
+  }
+}
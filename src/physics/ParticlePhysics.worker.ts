@@ -0,0 +1,22 @@
+import { ParticleWorkerRuntime } from './ParticleWorkerRuntime'
+import type { ParticleWorkerMessage, ParticleWorkerFrame } from './ParticleWorkerBackend'
+
+// One particle system per worker (see ParticleWorkerBackend). The first frame
+// carries the initial state; after that, one frame per batch of commands.
+let runtime: ParticleWorkerRuntime | null = null
+
+self.addEventListener('message', (event: MessageEvent<ParticleWorkerMessage>) => {
+  const message = event.data
+  let frame: ParticleWorkerFrame
+
+  if (message.type === 'init') {
+    runtime = new ParticleWorkerRuntime(message.spec, message.seed, message.buffers)
+    frame = runtime.publish()
+  } else if (runtime) {
+    frame = runtime.run(message.commands)
+  } else {
+    return
+  }
+
+  self.postMessage(frame)
+})
@@ -0,0 +1,371 @@
+import * as THREE from 'three'
+import { Random } from '../utils/Random'
+import {
+  NebulaPhysics,
+  NebulaPhysicsOptions,
+  IGNITION_STAGES,
+  PROTOSTAR_GEOMETRY_RADIUS,
+  CAPTURE_RADIUS_MULTIPLIER,
+} from './NebulaPhysics'
+import { SupernovaRemnantPhysics } from './SupernovaRemnantPhysics'
+import { AccretionSourcePhysics } from './AccretionSourcePhysics'
+
+/**
+ * Worker particle backend
+ *
+ * The heavy particle systems (nebula, remnant shells, accretion sources) can
+ * run their physics in a Web Worker. Exported arrays (positions, stuck flags)
+ * are double-buffered in SharedArrayBuffers: the worker writes the back set
+ * while the renderer draws the front one, and the two sides ping-pong. The
+ * main thread sends a batch of commands (fixed steps and setter calls, in
+ * order), the worker runs them and replies with the buffer it filled plus a
+ * few scalars, and only then does the next batch go out, so neither side
+ * ever touches a buffer the other is using.
+ *
+ * Results arrive a frame or so late, and consumed mass reaches the black hole
+ * in batches. Subsystems built during a seek replay always run on the main
+ * thread, because the replay can't wait for a worker.
+ */
+
+export interface ParticleBackendOptions {
+  /** Run particle physics in workers (see isParticleWorkerSupported) */
+  useWorker: boolean
+  /** Multiplier on the default particle counts; total mass stays the same */
+  particleScale: number
+  /** Simulate the nebula and remnant shells on this renderer's GPU instead (see isGpuParticleSupported) */
+  gpuRenderer: THREE.WebGLRenderer | null
+}
+
+export const MAIN_THREAD_BACKEND: ParticleBackendOptions = { useWorker: false, particleScale: 1, gpuRenderer: null }
+
+/** Browsers only expose SharedArrayBuffer to cross-origin isolated pages (COOP/COEP headers in vite.config and vercel.json) */
+export function isParticleWorkerSupported(): boolean {
+  return typeof Worker !== 'undefined' && typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true
+}
+
+/** What to build on the worker side (constructor arguments, cloneable) */
+export type ParticlePhysicsSpec =
+  | { kind: 'nebula'; particleCount: number; selfGravity: boolean; options: NebulaPhysicsOptions }
+  | {
+      kind: 'remnant'
+      initialRadius: number
+      particleCount: number
+      shellCount: number
+      expansionSpeed?: number
+      particleMass: number
+    }
+  | {
+      kind: 'accretion'
+      position: [number, number, number]
+      accretionStrength: number
+      eventHorizonRadius: number
+      particleCount: number
+      particleMass: number
+    }
+
+export type ParticleWorkerCommand =
+  | { type: 'step'; deltaTime: number }
+  | { type: 'enableAccretion'; position: [number, number, number]; strength: number; horizonRadius: number }
+  | { type: 'updateEventHorizonRadius'; radius: number }
+  | { type: 'setSpin'; spin: number; eventHorizonRadius: number }
+
+export type ParticleWorkerMessage =
+  | { type: 'init'; spec: ParticlePhysicsSpec; seed: number; buffers: SharedArrayBuffer[][] }
+  | { type: 'run'; commands: ParticleWorkerCommand[] }
+
+/** Scalars the main thread mirrors between frames */
+export interface ParticleWorkerState {
+  collapseProgress: number
+  averageRadius: number
+  protostarScale: number
+  frameFactor: number
+  activeParticleCount: number
+}
+
+export interface ParticleWorkerFrame {
+  buffer: number // Which buffer set now holds the latest arrays
+  state: ParticleWorkerState
+  consumedMass: number // Since the previous frame
+}
+
+/** Float lengths of the arrays a physics exports, in the order the worker writes them */
+export function getExportedLengths(spec: ParticlePhysicsSpec): number[] {
+  switch (spec.kind) {
+    case 'nebula':
+      return [spec.particleCount * 3, spec.particleCount] // positions, stuck
+    case 'remnant':
+      return new Array(spec.shellCount).fill(spec.particleCount * 3) // one positions array per shell
+    case 'accretion':
+      return [spec.particleCount * 3]
+  }
+}
+
+/**
+ * Main-thread end of one worker: queues commands, mirrors state, flips buffers
+ */
+class ParticleWorkerHost {
+  public state: ParticleWorkerState = {
+    collapseProgress: 0,
+    averageRadius: 0,
+    protostarScale: 0,
+    frameFactor: 0,
+    activeParticleCount: 0,
+  }
+  private worker: Worker
+  private buffers: Float32Array[][]
+  private front: number = 1 // The worker fills set 0 first; set 1 stays parked until then
+  private busy: boolean = true // Until the initial frame arrives
+  private received: boolean = false
+  private pending: ParticleWorkerCommand[] = []
+  private onParticleConsumed?: (mass: number) => void
+
+  constructor(spec: ParticlePhysicsSpec) {
+    const lengths = getExportedLengths(spec)
+    const shared = [0, 1].map(() =>
+      lengths.map((length) => new SharedArrayBuffer(length * Float32Array.BYTES_PER_ELEMENT))
+    )
+    this.buffers = shared.map((set) => set.map((buffer) => new Float32Array(buffer)))
+    this.buffers[this.front].forEach((array, index) => {
+      // Park positions (not flags) far away so nothing flashes at the origin before the first frame
+      if (spec.kind !== 'nebula' || index === 0) array.fill(10000)
+    })
+
+    this.worker = new Worker(new URL('./ParticlePhysics.worker.ts', import.meta.url), { type: 'module' })
+    this.worker.addEventListener('message', (event: MessageEvent<ParticleWorkerFrame>) => this.receive(event.data))
+
+    // Seeded from the shared stream, so a seeded run builds the same initial state
+    const seed = Math.floor(Random.next() * 0x100000000)
+    const init: ParticleWorkerMessage = { type: 'init', spec, seed, buffers: shared }
+    this.worker.postMessage(init)
+  }
+
+  /** Latest arrays, in getExportedLengths order (the objects change when a frame lands) */
+  public get arrays(): Float32Array[] {
+    return this.buffers[this.front]
+  }
+
+  /** Whether a frame has landed (before that, positions are parked) */
+  public get hasFrame(): boolean {
+    return this.received
+  }
+
+  public send(command: ParticleWorkerCommand): void {
+    this.pending.push(command)
+    if (!this.busy) this.flush()
+  }
+
+  public setConsumptionCallback(callback: (mass: number) => void): void {
+    this.onParticleConsumed = callback
+  }
+
+  public dispose(): void {
+    this.worker.terminate()
+    this.pending = []
+  }
+
+  private receive(frame: ParticleWorkerFrame): void {
+    this.front = frame.buffer
+    this.state = frame.state
+    this.busy = false
+    this.received = true
+
+    if (frame.consumedMass > 0 && this.onParticleConsumed) {
+      this.onParticleConsumed(frame.consumedMass)
+    }
+    if (this.pending.length > 0) this.flush()
+  }
+
+  private flush(): void {
+    const message: ParticleWorkerMessage = { type: 'run', commands: this.pending }
+    this.worker.postMessage(message)
+    this.pending = []
+    this.busy = true
+  }
+}
+
+/*
+ * Stand-ins for the physics classes, covering what their renderers use. Each
+ * renderer holds either the real class (main thread) or one of these.
+ */
+
+export type NebulaPhysicsView = Pick<
+  NebulaPhysics,
+  | 'positions'
+  | 'stuck'
+  | 'captureRadiusMultiplier'
+  | 'preIgnitionThreshold'
+  | 'ignitionThreshold'
+  | 'stabilizationThreshold'
+  | 'update'
+  | 'getAverageRadius'
+  | 'getCollapseProgress'
+  | 'getProtostarScale'
+  | 'getProtostarRadius'
+  | 'getFrameFactor'
+>
+
+export class NebulaPhysicsWorker implements NebulaPhysicsView {
+  public readonly captureRadiusMultiplier = CAPTURE_RADIUS_MULTIPLIER
+  public readonly preIgnitionThreshold = IGNITION_STAGES.preIgnition
+  public readonly ignitionThreshold = IGNITION_STAGES.ignition
+  public readonly stabilizationThreshold = IGNITION_STAGES.stabilization
+  private host: ParticleWorkerHost
+
+  constructor(particleCount: number, selfGravity: boolean, options: NebulaPhysicsOptions = {}) {
+    this.host = new ParticleWorkerHost({ kind: 'nebula', particleCount, selfGravity, options })
+  }
+
+  public get positions(): Float32Array {
+    return this.host.arrays[0]
+  }
+
+  public get stuck(): Float32Array {
+    return this.host.arrays[1]
+  }
+
+  public update(deltaTime: number): void {
+    this.host.send({ type: 'step', deltaTime })
+  }
+
+  public getAverageRadius(): number {
+    return this.host.state.averageRadius
+  }
+
+  public getCollapseProgress(): number {
+    return this.host.state.collapseProgress
+  }
+
+  public getProtostarScale(): number {
+    return this.host.state.protostarScale
+  }
+
+  public getProtostarRadius(): number {
+    return this.host.state.protostarScale * PROTOSTAR_GEOMETRY_RADIUS
+  }
+
+  public getFrameFactor(): number {
+    return this.host.state.frameFactor
+  }
+
+  public dispose(): void {
+    this.host.dispose()
+  }
+}
+
+export type SupernovaRemnantPhysicsView = Pick<
+  SupernovaRemnantPhysics,
+  | 'shellPositions'
+  | 'update'
+  | 'enableAccretion'
+  | 'setConsumptionCallback'
+  | 'updateEventHorizonRadius'
+  | 'getActiveParticleCount'
+>
+
+export class SupernovaRemnantPhysicsWorker implements SupernovaRemnantPhysicsView {
+  private host: ParticleWorkerHost
+
+  constructor(
+    initialRadius: number,
+    particleCount: number,
+    shellCount: number,
+    expansionSpeed: number | undefined,
+    particleMass: number
+  ) {
+    this.host = new ParticleWorkerHost({
+      kind: 'remnant',
+      initialRadius,
+      particleCount,
+      shellCount,
+      expansionSpeed,
+      particleMass,
+    })
+    this.host.state.activeParticleCount = particleCount * shellCount
+  }
+
+  public get shellPositions(): Float32Array[] {
+    return this.host.arrays
+  }
+
+  public hasPositions(): boolean {
+    return this.host.hasFrame
+  }
+
+  public update(deltaTime: number): void {
+    this.host.send({ type: 'step', deltaTime })
+  }
+
+  public enableAccretion(blackHolePosition: THREE.Vector3, strength: number, horizonRadius: number): void {
+    this.host.send({ type: 'enableAccretion', position: blackHolePosition.toArray(), strength, horizonRadius })
+  }
+
+  public setConsumptionCallback(callback: (mass: number) => void): void {
+    this.host.setConsumptionCallback(callback)
+  }
+
+  public updateEventHorizonRadius(newRadius: number): void {
+    this.host.send({ type: 'updateEventHorizonRadius', radius: newRadius })
+  }
+
+  public getActiveParticleCount(): number {
+    return this.host.state.activeParticleCount
+  }
+
+  public dispose(): void {
+    this.host.dispose()
+  }
+}
+
+export type AccretionSourcePhysicsView = Pick<
+  AccretionSourcePhysics,
+  'positions' | 'update' | 'setConsumptionCallback' | 'updateEventHorizonRadius' | 'setSpin' | 'getActiveParticleCount'
+>
+
+export class AccretionSourcePhysicsWorker implements AccretionSourcePhysicsView {
+  private host: ParticleWorkerHost
+
+  constructor(
+    position: THREE.Vector3,
+    accretionStrength: number,
+    eventHorizonRadius: number,
+    particleCount: number,
+    particleMass: number
+  ) {
+    this.host = new ParticleWorkerHost({
+      kind: 'accretion',
+      position: position.toArray(),
+      accretionStrength,
+      eventHorizonRadius,
+      particleCount,
+      particleMass,
+    })
+  }
+
+  public get positions(): Float32Array {
+    return this.host.arrays[0]
+  }
+
+  public update(deltaTime: number): void {
+    this.host.send({ type: 'step', deltaTime })
+  }
+
+  public setConsumptionCallback(callback: (mass: number) => void): void {
+    this.host.setConsumptionCallback(callback)
+  }
+
+  public updateEventHorizonRadius(newRadius: number): void {
+    this.host.send({ type: 'updateEventHorizonRadius', radius: newRadius })
+  }
+
+  public setSpin(spin: number, eventHorizonRadius: number): void {
+    this.host.send({ type: 'setSpin', spin, eventHorizonRadius })
+  }
+
+  public getActiveParticleCount(): number {
+    return this.host.state.activeParticleCount
+  }
+
+  public dispose(): void {
+    this.host.dispose()
+  }
+}
@@ -0,0 +1,150 @@
+import * as THREE from 'three'
+import { Random } from '../utils/Random'
+import { NebulaPhysics } from './NebulaPhysics'
+import { WorkerGravitySolver } from './NebulaGravitySolver'
+import { SupernovaRemnantPhysics } from './SupernovaRemnantPhysics'
+import { AccretionSourcePhysics } from './AccretionSourcePhysics'
+import type {
+  ParticlePhysicsSpec,
+  ParticleWorkerCommand,
+  ParticleWorkerFrame,
+  ParticleWorkerState,
+} from './ParticleWorkerBackend'
+
+type HostedPhysics =
+  | { kind: 'nebula'; physics: NebulaPhysics }
+  | { kind: 'remnant'; physics: SupernovaRemnantPhysics }
+  | { kind: 'accretion'; physics: AccretionSourcePhysics }
+
+/**
+ * ParticleWorkerRuntime - Worker side of the particle backend (see ParticleWorkerBackend)
+ *
+ * Owns one physics instance, runs command batches on it and publishes its
+ * arrays into alternating shared buffer sets. Kept apart from the worker entry
+ * so it can be stepped directly in tests.
+ */
+export class ParticleWorkerRuntime {
+  private hosted: HostedPhysics
+  private buffers: Float32Array[][]
+  private back: number = 0
+  private consumedMass: number = 0
+
+  constructor(spec: ParticlePhysicsSpec, seed: number, buffers: ArrayBufferLike[][]) {
+    Random.setSeed(seed)
+    this.hosted = ParticleWorkerRuntime.create(spec)
+    this.buffers = buffers.map((set) => set.map((buffer) => new Float32Array(buffer)))
+
+    if (this.hosted.kind !== 'nebula') {
+      this.hosted.physics.setConsumptionCallback((mass) => (this.consumedMass += mass))
+    }
+  }
+
+  private static create(spec: ParticlePhysicsSpec): HostedPhysics {
+    switch (spec.kind) {
+      case 'nebula':
+        return {
+          kind: 'nebula',
+          physics: new NebulaPhysics(
+            spec.particleCount,
+            spec.selfGravity ? new WorkerGravitySolver() : null,
+            spec.options
+          ),
+        }
+      case 'remnant':
+        return {
+          kind: 'remnant',
+          physics: new SupernovaRemnantPhysics(
+            spec.initialRadius,
+            spec.particleCount,
+            spec.shellCount,
+            spec.expansionSpeed,
+            spec.particleMass
+          ),
+        }
+      case 'accretion':
+        return {
+          kind: 'accretion',
+          physics: new AccretionSourcePhysics(
+            new THREE.Vector3().fromArray(spec.position),
+            spec.accretionStrength,
+            spec.eventHorizonRadius,
+            spec.particleCount,
+            spec.particleMass
+          ),
+        }
+    }
+  }
+
+  /** Apply a batch in order, then publish the result */
+  public run(commands: ParticleWorkerCommand[]): ParticleWorkerFrame {
+    const hosted = this.hosted
+
+    for (const command of commands) {
+      switch (command.type) {
+        case 'step':
+          hosted.physics.update(command.deltaTime)
+          break
+        case 'enableAccretion':
+          if (hosted.kind === 'remnant') {
+            const position = new THREE.Vector3().fromArray(command.position)
+            hosted.physics.enableAccretion(position, command.strength, command.horizonRadius)
+          }
+          break
+        case 'updateEventHorizonRadius':
+          if (hosted.kind !== 'nebula') hosted.physics.updateEventHorizonRadius(command.radius)
+          break
+        case 'setSpin':
+          if (hosted.kind === 'accretion') hosted.physics.setSpin(command.spin, command.eventHorizonRadius)
+          break
+      }
+    }
+
+    return this.publish()
+  }
+
+  /** Copy the exported arrays into the back set and hand it over */
+  public publish(): ParticleWorkerFrame {
+    const target = this.buffers[this.back]
+    this.getExportedArrays().forEach((array, index) => target[index].set(array))
+
+    const frame: ParticleWorkerFrame = {
+      buffer: this.back,
+      state: this.getState(),
+      consumedMass: this.consumedMass,
+    }
+    this.back = 1 - this.back
+    this.consumedMass = 0
+    return frame
+  }
+
+  private getExportedArrays(): Float32Array[] {
+    switch (this.hosted.kind) {
+      case 'nebula':
+        return [this.hosted.physics.positions, this.hosted.physics.stuck]
+      case 'remnant':
+        return this.hosted.physics.shellPositions
+      case 'accretion':
+        return [this.hosted.physics.positions]
+    }
+  }
+
+  private getState(): ParticleWorkerState {
+    const hosted = this.hosted
+    if (hosted.kind === 'nebula') {
+      return {
+        collapseProgress: hosted.physics.getCollapseProgress(),
+        averageRadius: hosted.physics.getAverageRadius(),
+        protostarScale: hosted.physics.getProtostarScale(),
+        frameFactor: hosted.physics.getFrameFactor(),
+        activeParticleCount: 0,
+      }
+    }
+    return {
+      collapseProgress: 0,
+      averageRadius: 0,
+      protostarScale: 0,
+      frameFactor: 0,
+      activeParticleCount: hosted.physics.getActiveParticleCount(),
+    }
+  }
+}
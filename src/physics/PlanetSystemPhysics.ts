@@ -0,0 +1,82 @@
+import { Random } from '../utils/Random'
+
+export interface PlanetOrbit {
+  orbitRadius: number
+  orbitSpeed: number
+}
+
+/**
+ * PlanetSystemPhysics - Circular planet orbits and engulfment by the star, without rendering
+ */
+export class PlanetSystemPhysics {
+  private orbits: PlanetOrbit[]
+  private orbitAngles: number[] = []
+  // Orbital-plane positions (y is always 0)
+  private positionsX: number[] = []
+  private positionsZ: number[] = []
+  private engulfedPlanets: Set<number> = new Set()
+  private onPlanetEngulfed?: (index: number) => void
+
+  constructor(orbits: PlanetOrbit[]) {
+    this.orbits = orbits
+
+    orbits.forEach((orbit) => {
+      // Set initial position (random angle around orbit)
+      const initialAngle = Random.next() * Math.PI * 2
+      this.orbitAngles.push(initialAngle)
+      this.positionsX.push(Math.cos(initialAngle) * orbit.orbitRadius)
+      this.positionsZ.push(Math.sin(initialAngle) * orbit.orbitRadius)
+    })
+  }
+
+  public update(deltaTime: number, starRadius: number = 4.0): void {
+    this.orbits.forEach((orbit, index) => {
+      // Skip if engulfed
+      if (this.engulfedPlanets.has(index)) {
+        return
+      }
+
+      // Update orbit angle
+      this.orbitAngles[index] += deltaTime * orbit.orbitSpeed * 0.1
+
+      // Calculate new position
+      const x = Math.cos(this.orbitAngles[index]) * orbit.orbitRadius
+      const z = Math.sin(this.orbitAngles[index]) * orbit.orbitRadius
+      this.positionsX[index] = x
+      this.positionsZ[index] = z
+
+      // Check if planet should be engulfed by star
+      const distanceFromStar = Math.sqrt(x * x + z * z)
+      if (distanceFromStar < starRadius * 1.2) {
+        this.engulfedPlanets.add(index)
+        if (this.onPlanetEngulfed) {
+          this.onPlanetEngulfed(index)
+        }
+      }
+    })
+  }
+
+  public setEngulfedCallback(callback: (index: number) => void): void {
+    this.onPlanetEngulfed = callback
+  }
+
+  public getPlanetCount(): number {
+    return this.orbits.length
+  }
+
+  public getPositionX(index: number): number {
+    return this.positionsX[index]
+  }
+
+  public getPositionZ(index: number): number {
+    return this.positionsZ[index]
+  }
+
+  public isEngulfed(index: number): boolean {
+    return this.engulfedPlanets.has(index)
+  }
+
+  public getEngulfedCount(): number {
+    return this.engulfedPlanets.size
+  }
+}
@@ -0,0 +1,100 @@
+import * as THREE from 'three'
+
+export interface StarPhysicsOptions {
+  mainSequenceRadius?: number
+  redGiantRadius?: number
+  expansionDuration?: number
+}
+
+/**
+ * StarPhysics - Stellar radius over the star's life, without rendering
+ *
+ * Contracts from the protostar's size to the main sequence, then expands into
+ * a red giant once startRedGiantExpansion is called.
+ */
+export class StarPhysics {
+  private mainSequenceRadius: number = 4.0 // Main sequence star - compact and stable
+  private baseMainSequenceRadius: number // Before any accreted mass
+  private initialRadius: number // Start size (from protostar)
+  private radius: number
+  private contractionDuration: number = 3.0 // 3 seconds to contract
+  private contractionTime: number = 0
+
+  // Red giant expansion state
+  private redGiant: boolean = false
+  private redGiantRadius: number = 25.0 // Massive red giant size
+  private expansionDuration: number = 24.0 // 24 seconds to expand (3x longer for demo)
+  private expansionTime: number = 0
+  private expansionStartRadius: number = 4.0
+
+  constructor(initialRadius: number = 4.8, options: StarPhysicsOptions = {}) {
+    this.initialRadius = initialRadius
+    this.radius = initialRadius // Start at whatever size the protostar was
+    this.mainSequenceRadius = options.mainSequenceRadius ?? this.mainSequenceRadius
+    this.baseMainSequenceRadius = this.mainSequenceRadius
+    this.redGiantRadius = options.redGiantRadius ?? this.redGiantRadius
+    this.expansionDuration = options.expansionDuration ?? this.expansionDuration
+  }
+
+  public update(deltaTime: number): void {
+    // Smooth contraction from protostar size to main sequence size
+    if (this.contractionTime < this.contractionDuration) {
+      this.contractionTime += deltaTime
+      const contractionProgress = Math.min(this.contractionTime / this.contractionDuration, 1.0)
+      // Use easeOutCubic for smooth deceleration
+      const eased = 1 - Math.pow(1 - contractionProgress, 3)
+      // Contract from initial size (whatever protostar was) to final main sequence size
+      this.radius = THREE.MathUtils.lerp(this.initialRadius, this.mainSequenceRadius, eased)
+    } else if (this.redGiant && this.expansionTime < this.expansionDuration) {
+      // Red giant expansion - dramatic size increase
+      this.expansionTime += deltaTime
+      const expansionProgress = Math.min(this.expansionTime / this.expansionDuration, 1.0)
+      // Use easeInOutQuad for smooth acceleration and deceleration
+      const eased = expansionProgress < 0.5
+        ? 2 * expansionProgress * expansionProgress
+        : 1 - Math.pow(-2 * expansionProgress + 2, 2) / 2
+      this.radius = THREE.MathUtils.lerp(this.expansionStartRadius, this.redGiantRadius, eased)
+    } else if (!this.redGiant) {
+      this.radius = this.mainSequenceRadius
+    }
+  }
+
+  /** Optionally overrides the red giant radius (e.g. sized to a binary's Roche lobe) */
+  public startRedGiantExpansion(redGiantRadius?: number): void {
+    if (this.redGiant) return // Already expanding
+
+    this.redGiantRadius = redGiantRadius ?? this.redGiantRadius
+    this.redGiant = true
+    this.expansionTime = 0
+    this.expansionStartRadius = this.radius
+  }
+
+  public isRedGiant(): boolean {
+    return this.redGiant
+  }
+
+  public getExpansionProgress(): number {
+    if (!this.redGiant) return 0
+    return Math.min(this.expansionTime / this.expansionDuration, 1.0)
+  }
+
+  public getMainSequenceRadius(): number {
+    return this.mainSequenceRadius
+  }
+
+  /**
+   * A main sequence star that gains mass (a binary companion) settles at a
+   * larger size: R ∝ M^0.8 (massRatio = current / initial mass)
+   */
+  public setAccretedMassRatio(massRatio: number): void {
+    this.mainSequenceRadius = this.baseMainSequenceRadius * Math.pow(Math.max(massRatio, 1), 0.8)
+  }
+
+  public getRedGiantRadius(): number {
+    return this.redGiantRadius
+  }
+
+  public getRadius(): number {
+    return this.radius
+  }
+}
@@ -0,0 +1,200 @@
+import * as THREE from 'three'
+import { Random } from '../utils/Random'
+
+/**
+ * SupernovaRemnantPhysics - Expanding ejecta shells and their accretion, without rendering
+ *
+ * Each shell is a pair of position/velocity buffers. Once the black hole forms,
+ * accretion pulls particles in and reports consumed mass.
+ */
+export class SupernovaRemnantPhysics {
+  public readonly particleCount: number
+  public readonly shellCount: number
+  public readonly shellPositions: Float32Array[] = []
+  public readonly shellVelocities: Float32Array[] = []
+
+  private time: number = 0
+  private expansionSpeed: number
+
+  // Accretion mode properties
+  private isBeingAccreted: boolean = false
+  private blackHolePosition: THREE.Vector3 = new THREE.Vector3(0, 0, 0)
+  private accretionStrength: number = 0
+  private eventHorizonRadius: number = 5.0
+
+  // Particle consumption tracking
+  private consumedParticles: Set<number> = new Set()
+  private consumedMass: number = 0
+  private particleMass: number
+  private onParticleConsumed?: (mass: number) => void
+
+  constructor(
+    initialRadius: number = 25,
+    particleCount: number = 8000,
+    shellCount: number = 3,
+    expansionSpeed: number = 0.15,
+    particleMass: number = 0.0001
+  ) {
+    this.particleCount = particleCount
+    this.particleMass = particleMass
+    this.shellCount = shellCount
+    this.expansionSpeed = expansionSpeed
+
+    for (let shellIndex = 0; shellIndex < this.shellCount; shellIndex++) {
+      this.createShell(shellIndex, initialRadius)
+    }
+  }
+
+  private createShell(shellIndex: number, initialRadius: number): void {
+    const positions = new Float32Array(this.particleCount * 3)
+    const velocities = new Float32Array(this.particleCount * 3)
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const i3 = i * 3
+
+      // Random direction on sphere
+      const theta = Random.next() * Math.PI * 2
+      const phi = Math.acos(2 * Random.next() - 1)
+
+      const dirX = Math.sin(phi) * Math.cos(theta)
+      const dirY = Math.sin(phi) * Math.sin(theta)
+      const dirZ = Math.cos(phi)
+
+      // Start at initial radius with some variation
+      const startRadius = initialRadius * (0.9 + Random.next() * 0.3)
+      positions[i3] = dirX * startRadius
+      positions[i3 + 1] = dirY * startRadius
+      positions[i3 + 2] = dirZ * startRadius
+
+      // Velocity - expanding outward with variation (outer shells faster)
+      const speed = this.expansionSpeed * (0.7 + Random.next() * 0.6) * (1 + shellIndex * 0.3)
+      velocities[i3] = dirX * speed
+      velocities[i3 + 1] = dirY * speed
+      velocities[i3 + 2] = dirZ * speed
+    }
+
+    this.shellPositions.push(positions)
+    this.shellVelocities.push(velocities)
+  }
+
+  public update(deltaTime: number): void {
+    this.time += deltaTime
+
+    for (let shellIndex = 0; shellIndex < this.shellCount; shellIndex++) {
+      const positions = this.shellPositions[shellIndex]
+      const velocities = this.shellVelocities[shellIndex]
+
+      for (let i = 0; i < this.particleCount; i++) {
+        const i3 = i * 3
+
+        // Move particles outward
+        positions[i3] += velocities[i3]
+        positions[i3 + 1] += velocities[i3 + 1]
+        positions[i3 + 2] += velocities[i3 + 2]
+
+        // Decelerate slightly (energy loss)
+        velocities[i3] *= 0.998
+        velocities[i3 + 1] *= 0.998
+        velocities[i3 + 2] *= 0.998
+
+        // Add turbulence
+        positions[i3] += (Random.next() - 0.5) * 0.05
+        positions[i3 + 1] += (Random.next() - 0.5) * 0.05
+        positions[i3 + 2] += (Random.next() - 0.5) * 0.05
+
+        // Apply gravitational attraction if accretion mode is enabled
+        if (this.isBeingAccreted) {
+          // Calculate vector to black hole
+          const dx = this.blackHolePosition.x - positions[i3]
+          const dy = this.blackHolePosition.y - positions[i3 + 1]
+          const dz = this.blackHolePosition.z - positions[i3 + 2]
+          const distanceSquared = dx * dx + dy * dy + dz * dz
+          const distance = Math.sqrt(distanceSquared)
+
+          // Check if particle reached event horizon (consumed by black hole)
+          const particleIndex = shellIndex * this.particleCount + i
+          if (distance < this.eventHorizonRadius && !this.consumedParticles.has(particleIndex)) {
+            this.consumedParticles.add(particleIndex)
+            this.consumedMass += this.particleMass
+
+            // Notify black hole of mass consumption
+            if (this.onParticleConsumed) {
+              this.onParticleConsumed(this.particleMass)
+            }
+
+            // Make particle invisible (move far away)
+            positions[i3] = 10000
+            positions[i3 + 1] = 10000
+            positions[i3 + 2] = 10000
+
+            // Zero out velocity
+            velocities[i3] = 0
+            velocities[i3 + 1] = 0
+            velocities[i3 + 2] = 0
+          }
+
+          // Only apply gravity within accretion radius and if not consumed
+          if (distance < 100 && distance > 0.1 && !this.consumedParticles.has(particleIndex)) {
+            // Gravitational acceleration (simplified inverse-square law)
+            const acceleration = this.accretionStrength / distanceSquared
+
+            // Normalize radial direction
+            const radialX = dx / distance
+            const radialY = dy / distance
+            const radialZ = dz / distance
+
+            // Apply radial force (toward black hole)
+            velocities[i3] += radialX * acceleration
+            velocities[i3 + 1] += radialY * acceleration
+            velocities[i3 + 2] += radialZ * acceleration
+
+            // Add tangential velocity for spiral motion (angular momentum)
+            // Cross product: tangent = radial × up(0,1,0)
+            const tangentX = -radialZ
+            const tangentZ = radialX
+
+            // Normalize tangent vector
+            const tangentLength = Math.sqrt(tangentX * tangentX + tangentZ * tangentZ)
+
+            if (tangentLength > 0.001) {
+              // Orbital velocity (Keplerian: v ∝ sqrt(1/r))
+              // Scale by 0.5 for balance between spiral and infall
+              const orbitalSpeed = Math.sqrt(this.accretionStrength / distance) * 0.5
+
+              velocities[i3] += (tangentX / tangentLength) * orbitalSpeed
+              velocities[i3 + 2] += (tangentZ / tangentLength) * orbitalSpeed
+            }
+          }
+        }
+      }
+    }
+  }
+
+  public enableAccretion(blackHolePosition: THREE.Vector3, strength: number, horizonRadius: number): void {
+    this.isBeingAccreted = true
+    this.blackHolePosition.copy(blackHolePosition)
+    this.accretionStrength = strength
+    this.eventHorizonRadius = horizonRadius
+  }
+
+  public setConsumptionCallback(callback: (mass: number) => void): void {
+    this.onParticleConsumed = callback
+  }
+
+  public updateEventHorizonRadius(newRadius: number): void {
+    this.eventHorizonRadius = newRadius
+  }
+
+  public getActiveParticleCount(): number {
+    // Count non-consumed particles across all shells
+    return this.particleCount * this.shellCount - this.consumedParticles.size
+  }
+
+  public getConsumedMass(): number {
+    return this.consumedMass
+  }
+
+  public getTime(): number {
+    return this.time
+  }
+}
@@ -0,0 +1,224 @@
+import * as THREE from 'three'
+import { Random } from '../utils/Random'
+
+export const TDE_GRAVITY = 90000 // Black hole GM in scene units³/s² (fast enough for a ~10 s approach)
+export const TDE_PERICENTRE = 40 // Closest approach, inside the accretion disk
+export const TDE_TIDAL_RADIUS = 60 // Where tides beat the star's self-gravity
+export const TDE_STAR_MASS = 0.3 // Solar masses, spread evenly over the debris
+const START_DISTANCE = 320
+const DEBRIS_SPREAD = 30 // Radial extent of the debris at disruption; sets the spread in orbital energy
+const ESCAPE_DISTANCE = 1500 // Unbound debris past this is gone for good
+const SUBSTEPS = 4 // Pericentre passage is fast; keep the integration stable
+const FLARE_DECAY = 1.5 // Seconds for the flare to fade once fallback stops
+const FLARE_PER_MASS = 50 // Flare level added per solar mass of fallback
+
+// Debris state: still plunging, swung out past pericentre, falling back
+const INBOUND = 0
+const OUTBOUND = 1
+const RETURNING = 2
+
+/**
+ * TidalDisruptionPhysics - A star torn apart by the black hole, without rendering
+ *
+ * The star falls in on a parabolic orbit (zero orbital energy). Once inside the
+ * tidal radius it is replaced by debris spread along the radial direction and
+ * moving with the star's velocity: the half nearer the hole is bound and falls
+ * back onto the disk, the far half escapes. Velocities are in units per second.
+ */
+export class TidalDisruptionPhysics {
+  public readonly particleCount: number
+  public readonly positions: Float32Array
+  public readonly starPosition = new THREE.Vector3()
+  private velocities: Float32Array
+  private states: Uint8Array
+  private active: Uint8Array
+  private readonly starVelocity = new THREE.Vector3()
+  private readonly particleMass: number
+  private disrupted: boolean = false
+
+  private onParticleConsumed?: (mass: number) => void
+  private fallbackMass: number = 0
+  private ejectedMass: number = 0
+  private flareLevel: number = 0
+
+  constructor(particleCount: number = 2000) {
+    this.particleCount = particleCount
+    this.particleMass = TDE_STAR_MASS / particleCount
+
+    this.positions = new Float32Array(this.particleCount * 3)
+    this.velocities = new Float32Array(this.particleCount * 3)
+    this.states = new Uint8Array(this.particleCount)
+    this.active = new Uint8Array(this.particleCount)
+    this.positions.fill(10000) // Debris is parked until the star breaks up
+
+    // Approach from a random direction slightly above the disk, prograde like the disk
+    const azimuth = Random.next() * Math.PI * 2
+    const elevation = (Random.next() - 0.5) * 0.4
+    const inward = new THREE.Vector3(
+      Math.cos(azimuth) * Math.cos(elevation),
+      Math.sin(elevation),
+      Math.sin(azimuth) * Math.cos(elevation)
+    )
+    this.starPosition.copy(inward).multiplyScalar(START_DISTANCE)
+    inward.negate()
+
+    // Parabolic: v² = 2GM/r, with the tangential part fixed by the pericentre (L² = 2GM·r_p)
+    const speed = Math.sqrt((2 * TDE_GRAVITY) / START_DISTANCE)
+    const tangentialSpeed = Math.sqrt(2 * TDE_GRAVITY * TDE_PERICENTRE) / START_DISTANCE
+    const radialSpeed = Math.sqrt(speed * speed - tangentialSpeed * tangentialSpeed)
+    const tangent = new THREE.Vector3(inward.z, 0, -inward.x).normalize()
+    this.starVelocity.copy(inward).multiplyScalar(radialSpeed).addScaledVector(tangent, tangentialSpeed)
+  }
+
+  public update(deltaTime: number): void {
+    const dt = deltaTime / SUBSTEPS
+    let consumed = 0
+
+    for (let step = 0; step < SUBSTEPS; step++) {
+      if (!this.disrupted) {
+        this.integrateStar(dt)
+        if (this.starPosition.length() < TDE_TIDAL_RADIUS) {
+          this.disrupt()
+        }
+        continue
+      }
+      consumed += this.integrateDebris(dt)
+    }
+
+    // Fallback powers the flare, which fades once the supply dries up
+    this.flareLevel = Math.min(
+      this.flareLevel * Math.exp(-deltaTime / FLARE_DECAY) + consumed * FLARE_PER_MASS,
+      1
+    )
+  }
+
+  private integrateStar(dt: number): void {
+    const distance = this.starPosition.length()
+    const acceleration = TDE_GRAVITY / (distance * distance * distance)
+    this.starVelocity.addScaledVector(this.starPosition, -acceleration * dt)
+    this.starPosition.addScaledVector(this.starVelocity, dt)
+  }
+
+  /** Frozen-in approximation: every fragment keeps the star's velocity, only its depth in the potential differs */
+  private disrupt(): void {
+    this.disrupted = true
+    const radial = this.starPosition.clone().normalize()
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const i3 = i * 3
+      const offset = (Random.next() * 2 - 1) * DEBRIS_SPREAD
+      this.positions[i3] = this.starPosition.x + radial.x * offset + (Random.next() - 0.5)
+      this.positions[i3 + 1] = this.starPosition.y + radial.y * offset + (Random.next() - 0.5)
+      this.positions[i3 + 2] = this.starPosition.z + radial.z * offset + (Random.next() - 0.5)
+      this.velocities[i3] = this.starVelocity.x
+      this.velocities[i3 + 1] = this.starVelocity.y
+      this.velocities[i3 + 2] = this.starVelocity.z
+      this.states[i] = INBOUND
+      this.active[i] = 1
+    }
+  }
+
+  /** Returns the mass that fell back onto the disk */
+  private integrateDebris(dt: number): number {
+    let consumed = 0
+
+    for (let i = 0; i < this.particleCount; i++) {
+      if (!this.active[i]) continue
+
+      const i3 = i * 3
+      const x = this.positions[i3]
+      const y = this.positions[i3 + 1]
+      const z = this.positions[i3 + 2]
+      const distanceSquared = x * x + y * y + z * z
+      const distance = Math.sqrt(distanceSquared)
+      const radialVelocity = (x * this.velocities[i3] + y * this.velocities[i3 + 1] + z * this.velocities[i3 + 2]) / distance
+
+      if (this.states[i] === INBOUND && radialVelocity > 0) {
+        this.states[i] = OUTBOUND
+      } else if (this.states[i] === OUTBOUND && radialVelocity < 0) {
+        this.states[i] = RETURNING
+      }
+
+      // Bound debris circularises into the disk on its way back in
+      if (this.states[i] === RETURNING && distance < TDE_PERICENTRE * 2) {
+        consumed += this.particleMass
+        this.fallbackMass += this.particleMass
+        if (this.onParticleConsumed) {
+          this.onParticleConsumed(this.particleMass)
+        }
+        this.deactivate(i)
+        continue
+      }
+      if (distance > ESCAPE_DISTANCE) {
+        this.ejectedMass += this.particleMass
+        this.deactivate(i)
+        continue
+      }
+
+      const acceleration = TDE_GRAVITY / (distanceSquared * distance)
+      this.velocities[i3] -= x * acceleration * dt
+      this.velocities[i3 + 1] -= y * acceleration * dt
+      this.velocities[i3 + 2] -= z * acceleration * dt
+
+      this.positions[i3] += this.velocities[i3] * dt
+      this.positions[i3 + 1] += this.velocities[i3 + 1] * dt
+      this.positions[i3 + 2] += this.velocities[i3 + 2] * dt
+    }
+
+    return consumed
+  }
+
+  private deactivate(index: number): void {
+    const i3 = index * 3
+    this.active[index] = 0
+    this.positions[i3] = 10000
+    this.positions[i3 + 1] = 10000
+    this.positions[i3 + 2] = 10000
+  }
+
+  public setConsumptionCallback(callback: (mass: number) => void): void {
+    this.onParticleConsumed = callback
+  }
+
+  public isDisrupted(): boolean {
+    return this.disrupted
+  }
+
+  /** Spaghettification before break-up: 0 far away, 1 at the tidal radius (tides grow as r⁻³) */
+  public getTidalStretch(): number {
+    if (this.disrupted) return 1
+    const ratio = TDE_TIDAL_RADIUS / this.starPosition.length()
+    return Math.min(ratio * ratio * ratio, 1)
+  }
+
+  /** Direction the star is stretched along (away from the hole) */
+  public getStretchAxis(target: THREE.Vector3): THREE.Vector3 {
+    return target.copy(this.starPosition).normalize()
+  }
+
+  /** Whether anything is left to simulate */
+  public isFinished(): boolean {
+    return this.disrupted && this.getActiveParticleCount() === 0 && this.flareLevel < 0.001
+  }
+
+  public getActiveParticleCount(): number {
+    let count = 0
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.active[i]) count++
+    }
+    return count
+  }
+
+  /** Accretion flare brightness, 0-1 */
+  public getFlareLevel(): number {
+    return this.flareLevel
+  }
+
+  public getFallbackMass(): number {
+    return this.fallbackMass
+  }
+
+  public getEjectedMass(): number {
+    return this.ejectedMass
+  }
+}
@@ -0,0 +1,53 @@
+export const CHANDRASEKHAR_LIMIT = 1.4 // M☉: above this electron degeneracy can't hold the core up
+
+/**
+ * WhiteDwarfPhysics - Cooling of an exposed stellar core, without rendering
+ *
+ * No fusion, so the core only radiates stored heat. Mestel cooling (L ∝ t^-7/5
+ * at fixed radius) gives T ∝ t^-7/20, with the timescale compressed for the demo.
+ * In a binary it can also gain mass from its companion, shrinking as it does,
+ * until it reaches the Chandrasekhar limit.
+ */
+export class WhiteDwarfPhysics {
+  public readonly radius: number = 0.6 // Earth-sized: tiny next to the red giant it came from (at 0.6 M☉)
+  public readonly initialTemperature: number = 100000 // Kelvin, freshly exposed core
+  private coolingTimescale: number = 2.0 // Seconds before cooling follows the power law
+  private time: number = 0
+  private temperature: number
+  private mass: number
+
+  constructor(mass: number = 0.6) {
+    this.temperature = this.initialTemperature
+    this.mass = mass
+  }
+
+  public update(deltaTime: number): void {
+    this.time += deltaTime
+    this.temperature = this.initialTemperature * Math.pow(1 + this.time / this.coolingTimescale, -0.35)
+  }
+
+  public accrete(mass: number): void {
+    this.mass += mass
+  }
+
+  public getMass(): number {
+    return this.mass
+  }
+
+  public isOverChandrasekharLimit(): boolean {
+    return this.mass >= CHANDRASEKHAR_LIMIT
+  }
+
+  /** Degenerate matter: heavier white dwarfs are smaller (R ∝ M^-1/3) */
+  public getRadius(): number {
+    return this.radius * Math.pow(this.mass / 0.6, -1 / 3)
+  }
+
+  public getTemperature(): number {
+    return this.temperature
+  }
+
+  public getTime(): number {
+    return this.time
+  }
+}
@@ -9,9 +9,11 @@ import * as THREE from 'three'
  * - Doppler boosting (approaching side brighter)
  * - Relativistic beaming (inner edge super bright)
  * - Volumetric appearance with turbulence
+ * - Flare brightening while tidal-disruption debris falls back
  *
  * Physics basis:
- * - ISCO (Innermost Stable Circular Orbit) at 3× Schwarzschild radius
+ * - ISCO (Innermost Stable Circular Orbit) at 3× Schwarzschild radius, moving
+ *   inward as the hole spins up (innerRadius is set from the Kerr ISCO)
  * - Blackbody radiation determines colors
  * - Differential rotation creates shearing and turbulence
  */
@@ -102,10 +104,11 @@ varying float vDistFromEventHorizon; // Distance in units of Schwarzschild radiu
 
 uniform float time;
 uniform float schwarzschildRadius;
-uniform float innerRadius; // ISCO at 3× Schwarzschild radius
+uniform float innerRadius; // Follows the ISCO (3× Schwarzschild radius when not spinning)
 uniform float outerRadius;
 // cameraPosition is provided automatically by Three.js
 uniform float globalOpacity; // For formation animation
+uniform float flare; // Tidal disruption fallback (0 = quiescent, 1 = peak)
 
 // Simple noise function for turbulence
 float hash(vec2 p) {
@@ -230,6 +233,12 @@ void main() {
   // Boost brightness for additive blending
   finalColor *= 1.5;
 
+  // Fallback flare: the inner disk flares hardest and shifts toward blue-white
+  float flareGain = flare * (1.0 - normalizedRadius * 0.7);
+  vec3 flareColor = vec3(0.85, 0.92, 1.0) * max(finalColor.r, finalColor.b);
+  finalColor = mix(finalColor, flareColor, flareGain * 0.5) * (1.0 + flareGain * 2.0);
+  finalAlpha = min(finalAlpha * (1.0 + flareGain), 1.0);
+
   gl_FragColor = vec4(finalColor, finalAlpha);
 }
 `
@@ -250,7 +259,8 @@ export function createAccretionDiskMaterial(
       outerRadius: { value: schwarzschildRadius * 12.0 }, // Outer edge
       // cameraPosition is provided automatically by Three.js
       lensingStrength: { value: 1.0 }, // Artistic control (1.0 = physically inspired)
-      globalOpacity: { value: 0.0 } // Start invisible for formation animation
+      globalOpacity: { value: 0.0 }, // Start invisible for formation animation
+      flare: { value: 0.0 }
     },
     transparent: true,
     side: THREE.DoubleSide, // Render both sides for volumetric appearance
@@ -0,0 +1,120 @@
+/**
+ * Nebula Compute Shaders (GPUComputationRenderer)
+ *
+ * GPU version of the NebulaPhysics particle loop, one texel per particle:
+ * - texturePosition: xyz position, w = 1 once stuck to the protostar
+ * - textureVelocity: xyz velocity; for stuck particles, where on the surface
+ *   they sit (theta, phi, radius factor)
+ *
+ * Both passes read the previous step, so positions advance with last step's
+ * velocity (the CPU loop uses this step's). The coefficients come from
+ * NebulaPhysics.beginStep, so the two versions collapse alike.
+ */
+
+const sharedUniforms = `
+uniform float time;
+uniform float captureRadius;
+uniform float capturing;
+`
+
+export const NebulaVelocityShader = `
+${sharedUniforms}
+uniform float gravityScale;
+uniform float collapseSpeed;
+uniform float softening;
+uniform float alignment;
+uniform float inwardBias;
+uniform float drag;
+uniform float swirl;
+uniform float diskPull;
+uniform float turbulence;
+uniform float maxVelocity;
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec4 position = texture2D(texturePosition, uv);
+  vec4 velocity = texture2D(textureVelocity, uv);
+
+  // Stuck particles keep their surface coordinates
+  if (position.w > 0.5) {
+    gl_FragColor = velocity;
+    return;
+  }
+
+  vec3 p = position.xyz;
+  float dist = length(p);
+
+  // Sticks this step (the position pass makes the same call): record where
+  if (dist < captureRadius && capturing > 0.5) {
+    float theta = dist > 0.001 ? atan(p.y, p.x) : hash(uv + time) * 6.2831853;
+    float phi = dist > 0.001 ? acos(clamp(p.z / dist, -1.0, 1.0)) : acos(2.0 * hash(uv - time) - 1.0);
+    gl_FragColor = vec4(theta, phi, 0.98 + hash(uv * 1.7 + time) * 0.04, 0.0);
+    return;
+  }
+
+  vec3 v = velocity.xyz;
+
+  if (dist > 0.001) {
+    vec3 n = p / dist;
+    float pull = (collapseSpeed * gravityScale) / pow(dist + softening, 2.0);
+    v -= n * pull;
+
+    // Damp sideways drift so the cloud streams inward
+    float radialVelocity = dot(v, n);
+    v -= (v - radialVelocity * n) * alignment;
+
+    if (radialVelocity > -0.02) {
+      v -= n * (radialVelocity + 0.02) * inwardBias;
+    }
+  }
+
+  v *= drag;
+
+  // Accretion disk: orbit around Y, fall toward the equatorial plane
+  v.x += -p.z * swirl;
+  v.z += p.x * swirl;
+  v.y -= p.y * diskPull;
+
+  // Same turbulence pattern as the CPU loop (index = row-major texel)
+  float i = floor(gl_FragCoord.y) * resolution.x + floor(gl_FragCoord.x);
+  v.x += (sin(time * 0.35 + i * 0.21) + cos(time * 0.6 + i * 0.13)) * turbulence * 0.5;
+  v.y += sin(time * 0.27 + i * 0.37) * turbulence * 0.3;
+  v.z += (cos(time * 0.41 + i * 0.17) + sin(time * 0.22 + i * 0.29)) * turbulence * 0.5;
+
+  gl_FragColor = vec4(clamp(v, -maxVelocity, maxVelocity), 0.0);
+}
+`
+
+export const NebulaPositionShader = `
+${sharedUniforms}
+uniform float protostarRadius;
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec4 position = texture2D(texturePosition, uv);
+  vec4 velocity = texture2D(textureVelocity, uv);
+
+  // Stuck particles ride on the surface as the protostar grows
+  if (position.w > 0.5) {
+    float radius = protostarRadius * velocity.z;
+    gl_FragColor = vec4(
+      radius * sin(velocity.y) * cos(velocity.x),
+      radius * sin(velocity.y) * sin(velocity.x),
+      radius * cos(velocity.y),
+      1.0
+    );
+    return;
+  }
+
+  if (length(position.xyz) < captureRadius && capturing > 0.5) {
+    gl_FragColor = vec4(position.xyz, 1.0);
+    return;
+  }
+
+  gl_FragColor = vec4(position.xyz + velocity.xyz, 0.0);
+}
+`
@@ -8,21 +8,26 @@ import * as THREE from 'three'
  * - Animated caustics and interference patterns
  * - Chromatic aberration (different wavelengths bend differently)
  * - Pulsing shimmer effects for visual drama
+ * - Kerr asymmetry: a spinning hole pulls the ring in on the side rotating
+ *   toward the viewer and pushes it out on the receding side
  *
  * Physics basis:
  * - Photon sphere at r = 1.5 Rs is where light can orbit the black hole
  * - Multiple light paths create interference patterns (Einstein ring)
  * - Different wavelengths experience slightly different deflection
+ * - Spin splits the photon orbit into prograde (smaller) and retrograde (larger) radii
  */
 
 export const PhotonRingVertexShader = `
 varying vec2 vUv;
 varying vec3 vPosition;
 varying vec3 vWorldPosition;
+varying vec3 vCenter;
 
 void main() {
   vUv = uv;
   vPosition = position;
+  vCenter = (modelMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
 
   vec4 worldPosition = modelMatrix * vec4(position, 1.0);
   vWorldPosition = worldPosition.xyz;
@@ -35,12 +40,16 @@ export const PhotonRingFragmentShader = `
 varying vec2 vUv;
 varying vec3 vPosition;
 varying vec3 vWorldPosition;
+varying vec3 vCenter;
 
 uniform float time;
 uniform float schwarzschildRadius;
 uniform vec3 ringColorInner;
 uniform vec3 ringColorOuter;
 uniform float intensity;
+uniform float spin;
+uniform float progradeScale; // Prograde photon orbit relative to 1.5 Rs (≤ 1)
+uniform float retrogradeScale; // Retrograde photon orbit relative to 1.5 Rs (≥ 1)
 
 // Noise function for caustics
 float hash(vec2 p) {
@@ -76,9 +85,16 @@ float fbm(vec2 p) {
 }
 
 void main() {
-  // Distance from center (0 at inner edge, 1 at outer edge)
+  // How much this part of the ring co-rotates toward the camera (spin axis is +Y)
+  vec3 fromCenter = vWorldPosition - vCenter;
+  vec3 spinDirection = normalize(vec3(fromCenter.z, 0.0, -fromCenter.x) + vec3(1e-5));
+  float approach = dot(spinDirection, normalize(cameraPosition - vWorldPosition));
+  float ringScale = mix(retrogradeScale, progradeScale, approach * 0.5 + 0.5);
+
+  // Distance from center (0 at inner edge, 1 at outer edge), rescaled so the ring
+  // features land at the local photon orbit
   vec2 center = vec2(0.5, 0.5);
-  float dist = distance(vUv, center);
+  float dist = distance(vUv, center) / ringScale;
 
   // Normalize to ring width (0 at inner, 1 at outer)
   float ringProgress = (dist - 0.3) / 0.2; // Adjust these to match ring geometry
@@ -136,7 +152,9 @@ void main() {
   finalColor += mix(ringColorInner, ringColorOuter, 0.5) * streaks * 1.5; // Reduced from 2.5
 
   // Alpha based on ring intensity (with additive blending for glow)
-  float alpha = finalIntensity * intensity;
+  // Light orbiting with the spin is beamed toward us on the approaching side
+  float beaming = 1.0 + spin * approach * 0.5;
+  float alpha = finalIntensity * intensity * beaming;
 
   gl_FragColor = vec4(finalColor, alpha);
 }
@@ -154,7 +172,10 @@ export function createPhotonRingMaterial(schwarzschildRadius: number): THREE.Sha
       schwarzschildRadius: { value: schwarzschildRadius },
       ringColorInner: { value: new THREE.Color(0xff8800) }, // Orange - matches photon corona
       ringColorOuter: { value: new THREE.Color(0xff5500) }, // Red-orange
-      intensity: { value: 1.5 } // Further reduced - subtle Einstein ring
+      intensity: { value: 1.5 }, // Further reduced - subtle Einstein ring
+      spin: { value: 0.0 },
+      progradeScale: { value: 1.0 },
+      retrogradeScale: { value: 1.0 }
     },
     transparent: true,
     side: THREE.DoubleSide,
@@ -0,0 +1,86 @@
+/**
+ * Remnant Compute Shaders (GPUComputationRenderer)
+ *
+ * GPU version of the SupernovaRemnantPhysics loop, all shells in one texture:
+ * - texturePosition: xyz position, w = 1 once swallowed (parked far away)
+ * - textureVelocity: xyz velocity
+ *
+ * Expansion with a little drag and jitter; once the black hole forms, pull
+ * plus a tangential kick so the ejecta spiral in.
+ */
+
+const sharedUniforms = `
+uniform float time;
+uniform float accreting;
+uniform vec3 blackHolePosition;
+uniform float accretionStrength;
+uniform float eventHorizonRadius;
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+`
+
+export const RemnantVelocityShader = `
+${sharedUniforms}
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec4 position = texture2D(texturePosition, uv);
+  vec3 v = texture2D(textureVelocity, uv).xyz;
+
+  if (position.w > 0.5) {
+    gl_FragColor = vec4(0.0);
+    return;
+  }
+
+  // Decelerate slightly (energy loss)
+  v *= 0.998;
+
+  if (accreting > 0.5) {
+    vec3 toHole = blackHolePosition - position.xyz;
+    float dist = length(toHole);
+
+    if (dist < 100.0 && dist > 0.1) {
+      vec3 radial = toHole / dist;
+      v += radial * (accretionStrength / (dist * dist));
+
+      // Tangential kick (radial × up) for spiral motion
+      vec2 tangent = vec2(-radial.z, radial.x);
+      float tangentLength = length(tangent);
+      if (tangentLength > 0.001) {
+        float orbitalSpeed = sqrt(accretionStrength / dist) * 0.5;
+        v.xz += (tangent / tangentLength) * orbitalSpeed;
+      }
+    }
+  }
+
+  gl_FragColor = vec4(v, 0.0);
+}
+`
+
+export const RemnantPositionShader = `
+${sharedUniforms}
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec4 position = texture2D(texturePosition, uv);
+  vec3 velocity = texture2D(textureVelocity, uv).xyz;
+
+  if (position.w > 0.5) {
+    gl_FragColor = position;
+    return;
+  }
+
+  vec3 jitter = vec3(hash(uv + time), hash(uv + time + 1.7), hash(uv + time + 3.1)) - 0.5;
+  vec3 p = position.xyz + velocity + jitter * 0.05;
+
+  // Crossed the event horizon: swallowed
+  if (accreting > 0.5 && distance(p, blackHolePosition) < eventHorizonRadius) {
+    gl_FragColor = vec4(10000.0, 10000.0, 10000.0, 1.0);
+    return;
+  }
+
+  gl_FragColor = vec4(p, 0.0);
+}
+`
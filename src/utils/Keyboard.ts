@@ -0,0 +1,13 @@
+/**
+ * Keyboard helpers
+ */
+
+// Inputs that take typed text; sliders, checkboxes and buttons don't
+const TEXT_INPUT_TYPES = new Set(['text', 'number', 'search', 'email', 'url', 'password'])
+
+/** Whether a key event is aimed at a text field, so shortcuts should leave it alone */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true
+  return target instanceof HTMLInputElement && TEXT_INPUT_TYPES.has(target.type)
+}
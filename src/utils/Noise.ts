@@ -5,10 +5,23 @@
  * Uses simplex-noise library for proven, performant noise generation.
  */
 
-import { createNoise3D } from 'simplex-noise'
+import { createNoise3D, NoiseFunction3D } from 'simplex-noise'
+import { Random } from './Random'
 
-// Create a single noise instance (seeded for consistency)
-const noiseGenerator = createNoise3D()
+// Salt for the noise table's own stream (keeps it off the shared particle sequence)
+const NOISE_STREAM = 0x6e6f6973
+
+// Single noise instance, rebuilt whenever the global seed changes
+let noiseGenerator: NoiseFunction3D | null = null
+let noiseSeed: number | null = null
+
+function getNoiseGenerator(): NoiseFunction3D {
+  if (!noiseGenerator || noiseSeed !== Random.getSeed()) {
+    noiseSeed = Random.getSeed()
+    noiseGenerator = createNoise3D(Random.createStream(NOISE_STREAM))
+  }
+  return noiseGenerator
+}
 
 export class Noise3D {
   /**
@@ -17,7 +30,7 @@ export class Noise3D {
    */
   static noise(x: number, y: number, z: number): number {
     // Simplex noise returns [-1, 1], normalize to [0, 1]
-    const rawNoise = noiseGenerator(x, y, z)
+    const rawNoise = getNoiseGenerator()(x, y, z)
     return (rawNoise + 1.0) / 2.0
   }
 
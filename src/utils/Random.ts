@@ -0,0 +1,89 @@
+/**
+ * Seeded Random Source
+ *
+ * A single seedable PRNG shared by every subsystem, so a run can be reproduced
+ * exactly from its seed (?seed=1234 in the URL). Uses mulberry32: tiny, fast and
+ * plenty good for visual randomness.
+ */
+
+// Advance a mulberry32 state and return [nextState, value in [0, 1)]
+function mulberry32(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) | 0
+  let t = next
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return [next, ((t ^ (t >>> 14)) >>> 0) / 4294967296]
+}
+
+export class Random {
+  private static seed: number = 1
+  private static state: number = 1
+
+  /**
+   * Restart the shared stream from a seed
+   */
+  static setSeed(seed: number): void {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  static getSeed(): number {
+    return this.seed
+  }
+
+  /**
+   * Uniform value in [0, 1) - drop-in replacement for Math.random()
+   */
+  static next(): number {
+    const [state, value] = mulberry32(this.state)
+    this.state = state
+    return value
+  }
+
+  /**
+   * Uniform value in [min, max)
+   */
+  static range(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  /**
+   * Independent stream derived from the current seed. Consumers that draw at
+   * unpredictable times (e.g. noise tables) use their own stream so they don't
+   * shift the shared sequence.
+   */
+  static createStream(salt: number): () => number {
+    let state = (this.seed ^ Math.imul(salt, 0x9e3779b1)) >>> 0
+    return () => {
+      const [next, value] = mulberry32(state)
+      state = next
+      return value
+    }
+  }
+
+  /**
+   * Parse a ?seed= value: integers are used directly, other text is hashed (FNV-1a)
+   */
+  static parseSeed(value: string | null): number | null {
+    if (value === null || value.trim() === '') return null
+
+    const trimmed = value.trim()
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) >>> 0
+    }
+
+    let hash = 0x811c9dc5
+    for (let i = 0; i < trimmed.length; i++) {
+      hash ^= trimmed.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  /**
+   * Fresh seed for runs without ?seed= (shown in the debug overlay so they can be replayed)
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0
+  }
+}
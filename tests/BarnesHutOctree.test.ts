@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { BarnesHutOctree, GravityParams } from '../src/physics/BarnesHutOctree'
+import { Random } from '../src/utils/Random'
+
+function bruteForce(positions: Float32Array, count: number, params: GravityParams): Float32Array {
+  const accelerations = new Float32Array(count * 3)
+  const gravityPerBody = params.strength / count
+  const softeningSquared = params.softening * params.softening
+
+  for (let i = 0; i < count; i++) {
+    for (let j = 0; j < count; j++) {
+      if (i === j) continue
+      const dx = positions[j * 3] - positions[i * 3]
+      const dy = positions[j * 3 + 1] - positions[i * 3 + 1]
+      const dz = positions[j * 3 + 2] - positions[i * 3 + 2]
+      const r2 = dx * dx + dy * dy + dz * dz + softeningSquared
+      const factor = gravityPerBody / (r2 * Math.sqrt(r2))
+      accelerations[i * 3] += dx * factor
+      accelerations[i * 3 + 1] += dy * factor
+      accelerations[i * 3 + 2] += dz * factor
+    }
+  }
+  return accelerations
+}
+
+describe('BarnesHutOctree', () => {
+  it('should match direct summation to within a few percent', () => {
+    Random.setSeed(11)
+    const count = 600
+    const positions = new Float32Array(count * 3)
+    for (let i = 0; i < positions.length; i++) {
+      positions[i] = (Random.next() - 0.5) * 80
+    }
+    const params: GravityParams = { strength: 12, theta: 0.6, softening: 1.2 }
+
+    const tree = new BarnesHutOctree()
+    const accelerations = new Float32Array(count * 3)
+    tree.solve(positions, count, accelerations, params)
+    const expected = bruteForce(positions, count, params)
+
+    let errorSquared = 0
+    let magnitudeSquared = 0
+    for (let i = 0; i < expected.length; i++) {
+      errorSquared += (accelerations[i] - expected[i]) ** 2
+      magnitudeSquared += expected[i] ** 2
+    }
+    expect(Math.sqrt(errorSquared / magnitudeSquared)).toBeLessThan(0.03)
+    expect(tree.getNodeCount()).toBeGreaterThan(count)
+  })
+
+  it('should cope with bodies stacked on the same spot', () => {
+    const positions = new Float32Array([0, 0, 0, 0, 0, 0, 0, 0, 0, 10, 0, 0])
+    const accelerations = new Float32Array(12)
+    new BarnesHutOctree().solve(positions, 4, accelerations, { strength: 4, theta: 0.6, softening: 0.1 })
+
+    // The far body is pulled toward the stack by all three, which feel it equally
+    expect(accelerations[9]).toBeLessThan(0)
+    expect(accelerations[0]).toBeCloseTo(accelerations[3], 6)
+    expect(accelerations.every(Number.isFinite)).toBe(true)
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { BinaryOrbitPhysics, rocheLobeFraction, ROCHE_OVERFLOW_FACTOR } from '../src/physics/BinaryOrbitPhysics'
+import { MassTransferStreamPhysics } from '../src/physics/MassTransferStreamPhysics'
+import { Random } from '../src/utils/Random'
+
+describe('rocheLobeFraction', () => {
+  it('should match Eggleton for equal masses and favour the heavier star', () => {
+    expect(rocheLobeFraction(1)).toBeCloseTo(0.379, 3)
+    expect(rocheLobeFraction(2.5)).toBeGreaterThan(rocheLobeFraction(1))
+    expect(rocheLobeFraction(0.4)).toBeLessThan(rocheLobeFraction(1))
+  })
+})
+
+describe('BinaryOrbitPhysics', () => {
+  it('should start with the primary at the origin and orbit a fixed centre of mass', () => {
+    const orbit = new BinaryOrbitPhysics(25, 25)
+    expect(orbit.primaryPosition.length()).toBeCloseTo(0)
+    expect(orbit.companionPosition.distanceTo(orbit.primaryPosition)).toBeCloseTo(orbit.getSeparation())
+
+    const centre = new THREE.Vector3()
+    const weighted = (o: BinaryOrbitPhysics) =>
+      centre.copy(o.primaryPosition).multiplyScalar(o.getPrimaryMass())
+        .addScaledVector(o.companionPosition, o.getCompanionMass())
+        .divideScalar(o.getPrimaryMass() + o.getCompanionMass())
+
+    const start = weighted(orbit).clone()
+    for (let i = 0; i < 600; i++) orbit.update(1 / 60)
+
+    expect(weighted(orbit).distanceTo(start)).toBeLessThan(1e-6)
+    expect(orbit.primaryPosition.length()).toBeGreaterThan(1)
+  })
+
+  it('should overflow the Roche lobe only near the full red giant radius', () => {
+    const orbit = new BinaryOrbitPhysics(25, 25)
+    const lobe = orbit.getRocheLobeRadius()
+
+    expect(lobe * ROCHE_OVERFLOW_FACTOR).toBeCloseTo(25)
+    expect(orbit.getOverflow(4)).toBe(0)
+    expect(orbit.getOverflow(25)).toBeCloseTo(1)
+  })
+
+  it('should place L1 between the stars, closer to the lighter companion', () => {
+    const orbit = new BinaryOrbitPhysics(10, 20)
+    const l1 = orbit.getL1Point(new THREE.Vector3())
+
+    const fromPrimary = l1.distanceTo(orbit.primaryPosition)
+    const fromCompanion = l1.distanceTo(orbit.companionPosition)
+    expect(fromPrimary + fromCompanion).toBeCloseTo(orbit.getSeparation())
+    expect(fromPrimary).toBeGreaterThan(fromCompanion)
+  })
+
+  it('should keep the separation when recentred on a bound remnant', () => {
+    const orbit = new BinaryOrbitPhysics(5, 15)
+    for (let i = 0; i < 300; i++) orbit.update(1 / 60)
+
+    const offset = orbit.recentreOnPrimary(false, new THREE.Vector3())
+    orbit.update(1)
+
+    expect(offset.length()).toBeGreaterThan(0)
+    expect(orbit.primaryPosition.length()).toBe(0)
+    expect(orbit.companionPosition.length()).toBeCloseTo(orbit.getSeparation())
+    expect(orbit.isRunaway()).toBe(false)
+  })
+
+  it('should fling the companion away when the supernova unbinds the pair', () => {
+    const orbit = new BinaryOrbitPhysics(25, 25)
+    orbit.recentreOnPrimary(true, new THREE.Vector3())
+    const before = orbit.companionPosition.length()
+
+    for (let i = 0; i < 600; i++) orbit.update(1 / 60)
+
+    expect(orbit.isRunaway()).toBe(true)
+    expect(orbit.companionPosition.length()).toBeGreaterThan(before + 30)
+  })
+})
+
+describe('MassTransferStreamPhysics', () => {
+  it('should carry mass from an overflowing donor onto the companion', () => {
+    Random.setSeed(3)
+    const orbit = new BinaryOrbitPhysics(25, 25)
+    const stream = new MassTransferStreamPhysics(500, 0.0025)
+    stream.setConsumptionCallback((mass) => orbit.transferMass(mass))
+
+    for (let i = 0; i < 60 * 10; i++) {
+      orbit.update(1 / 60)
+      stream.trackBinary(orbit, 25, 2)
+      stream.update(1 / 60)
+    }
+
+    expect(stream.getConsumedMass()).toBeGreaterThan(0)
+    expect(orbit.getTransferredMass()).toBeCloseTo(stream.getConsumedMass(), 6)
+    expect(orbit.getCompanionMass() + orbit.getPrimaryMass()).toBeCloseTo(35, 6)
+  })
+
+  it('should stay idle while the donor fits inside its Roche lobe', () => {
+    const orbit = new BinaryOrbitPhysics(25, 25)
+    const stream = new MassTransferStreamPhysics(500)
+
+    stream.trackBinary(orbit, 4, 2)
+    stream.update(1)
+
+    expect(stream.getActiveParticleCount()).toBe(0)
+  })
+})
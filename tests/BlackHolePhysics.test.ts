@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import {
+  BlackHolePhysics,
+  kerrHorizonFactor,
+  kerrIscoFactor,
+  kerrPhotonOrbitFactor,
+  MAX_SPIN,
+} from '../src/physics/BlackHolePhysics'
+import { AccretionSourcePhysics } from '../src/physics/AccretionSourcePhysics'
+import { Random } from '../src/utils/Random'
+
+describe('Kerr radii', () => {
+  it('should reduce to Schwarzschild without spin', () => {
+    expect(kerrHorizonFactor(0)).toBeCloseTo(1)
+    expect(kerrIscoFactor(0)).toBeCloseTo(3)
+    expect(kerrIscoFactor(0, false)).toBeCloseTo(3)
+    expect(kerrPhotonOrbitFactor(0)).toBeCloseTo(1.5)
+  })
+
+  it('should approach the extremal limits at maximal spin', () => {
+    expect(kerrHorizonFactor(1)).toBeCloseTo(0.5)
+    expect(kerrIscoFactor(1)).toBeCloseTo(0.5)
+    expect(kerrIscoFactor(1, false)).toBeCloseTo(4.5)
+    expect(kerrPhotonOrbitFactor(1)).toBeCloseTo(0.5)
+    expect(kerrPhotonOrbitFactor(1, false)).toBeCloseTo(2)
+  })
+
+  it('should keep the ISCO outside the horizon up to the Thorne limit', () => {
+    for (const spin of [0, 0.5, 0.9, MAX_SPIN]) {
+      expect(kerrIscoFactor(spin)).toBeGreaterThan(kerrHorizonFactor(spin))
+    }
+  })
+})
+
+describe('BlackHolePhysics', () => {
+  it('should shrink the horizon with spin but keep the Schwarzschild radius', () => {
+    const blackHole = new BlackHolePhysics(12)
+    blackHole.setSpin(2)
+
+    expect(blackHole.getSpin()).toBe(MAX_SPIN)
+    expect(blackHole.getSchwarzschildRadius()).toBe(12)
+    expect(blackHole.getEventHorizonRadius()).toBeLessThan(7)
+    expect(blackHole.getIscoRadius()).toBeLessThan(36)
+  })
+})
+
+describe('AccretionSourcePhysics frame dragging', () => {
+  const run = (spin: number) => {
+    Random.setSeed(11)
+    const source = new AccretionSourcePhysics(new THREE.Vector3(20, 0, 0), 0.15, 12, 100)
+    source.setSpin(spin, 12 * kerrHorizonFactor(spin))
+    source.update(0.5) // Spawns the first chunk
+    for (let i = 0; i < 30; i++) source.update(1 / 60)
+
+    // Azimuth grows counter-clockwise seen from +Y, the direction of spin
+    let totalAzimuth = 0
+    for (let i = 0; i < source.particleCount; i++) {
+      const i3 = i * 3
+      if (source.positions[i3] > 5000) continue // Parked
+      totalAzimuth += Math.atan2(-source.positions[i3 + 2], source.positions[i3])
+    }
+    return totalAzimuth
+  }
+
+  it('should drag infalling matter around in the direction of spin', () => {
+    expect(run(MAX_SPIN)).toBeGreaterThan(run(0))
+  })
+})
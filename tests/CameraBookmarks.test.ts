@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { CameraBookmarks, CameraBookmark, CAMERA_PRESETS } from '../src/CameraBookmarks'
+
+const VIEW: CameraBookmark = { name: 'View 3', position: [10, 20, 30], target: [0, 1, 0], fov: 60 }
+
+describe('CameraBookmarks', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should persist saved slots across instances', () => {
+    new CameraBookmarks().save(3, VIEW)
+
+    const reloaded = new CameraBookmarks()
+    expect(reloaded.get(3)).toEqual(VIEW)
+    expect(reloaded.get(1)).toBeNull()
+    expect(reloaded.getSaved()).toEqual([{ slot: 3, bookmark: VIEW }])
+    expect(JSON.parse(reloaded.toJson())).toEqual({ 3: VIEW })
+  })
+
+  it('should skip corrupt entries and reject slots out of range', () => {
+    localStorage.setItem('sun-simulator:camera-bookmarks', JSON.stringify({ 1: VIEW, 2: { name: 'broken' }, 12: VIEW }))
+    const bookmarks = new CameraBookmarks()
+    expect(bookmarks.getSaved().map(({ slot }) => slot)).toEqual([1])
+    expect(() => bookmarks.save(0, VIEW)).toThrow('slot')
+  })
+
+  it('should ship the disk, jet and Earth-orbit presets', () => {
+    const names = CAMERA_PRESETS.map((preset) => preset.name)
+    expect(names).toContain('Disk edge-on')
+    expect(names).toContain('Pole-on down the jet')
+    expect(names).toContain("Planet's-eye view from Earth's orbit")
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { CameraDirector, CameraShot, parseCameraShots, sampleShot } from '../src/CameraDirector'
+import { SimulationPhase } from '../src/AudioManager'
+import cameraShots from '../src/cameraShots.json'
+
+const PUSH_IN: CameraShot = {
+  keyframes: [
+    { at: 0, position: [0, 0, 60], target: [0, 0, 0], fov: 75, easing: 'linear' },
+    { at: 1, position: [0, 0, 40], target: [0, 0, 0], fov: 55 },
+  ],
+}
+
+function createPose() {
+  return { position: new THREE.Vector3(), target: new THREE.Vector3(), fov: 0 }
+}
+
+describe('CameraDirector', () => {
+  it('should accept the shipped shots and reject malformed ones with a location', () => {
+    const shots = parseCameraShots(cameraShots)
+    expect(shots[SimulationPhase.BLACK_HOLE]?.keyframes.length).toBeGreaterThan(0)
+
+    expect(() => parseCameraShots({ SUNRISE: PUSH_IN })).toThrow('Unknown phase: SUNRISE')
+    const backwards = { keyframes: [PUSH_IN.keyframes[1], PUSH_IN.keyframes[0]] }
+    expect(() => parseCameraShots({ SUPERNOVA: backwards })).toThrow('SUPERNOVA keyframe 1')
+    const badEasing = { keyframes: [{ ...PUSH_IN.keyframes[0], easing: 'bounce' }] }
+    expect(() => parseCameraShots({ SUPERNOVA: badEasing })).toThrow("unknown easing 'bounce'")
+  })
+
+  it('should pass through keyframes and interpolate position and FOV between them', () => {
+    const pose = createPose()
+    expect(sampleShot(PUSH_IN, 0, 0, 75, pose).position.z).toBeCloseTo(60)
+    sampleShot(PUSH_IN, 0.5, 0, 75, pose)
+    expect(pose.position.z).toBeCloseTo(50)
+    expect(pose.fov).toBeCloseTo(65)
+    expect(sampleShot(PUSH_IN, 1, 0, 75, pose).position.z).toBeCloseTo(40)
+  })
+
+  it('should dolly by subject radii', () => {
+    const shot: CameraShot = { keyframes: [{ at: 0, position: [0, 0, 40], target: [0, 0, 0], radii: 2 }] }
+    expect(sampleShot(shot, 0.3, 25, 75, createPose()).position.z).toBeCloseTo(90)
+  })
+
+  it('should leave the camera to the user until handed back, then ease onto the shot', () => {
+    const camera = new THREE.PerspectiveCamera(75)
+    const target = new THREE.Vector3()
+    const director = new CameraDirector(camera, target, { [SimulationPhase.SUPERNOVA]: PUSH_IN })
+
+    director.play(SimulationPhase.SUPERNOVA)
+    director.update(0, 1 / 60)
+    expect(camera.position.z).toBeCloseTo(60)
+
+    director.takeOver()
+    camera.position.set(30, 0, 0)
+    director.update(0.5, 1 / 60)
+    expect(camera.position.x).toBe(30)
+
+    director.handBack(1)
+    director.update(0.5, 0.5)
+    expect(camera.position.x).toBeGreaterThan(0)
+    expect(camera.position.x).toBeLessThan(30)
+    director.update(0.5, 0.5)
+    expect(camera.position.x).toBeCloseTo(0)
+    expect(camera.position.z).toBeCloseTo(50)
+  })
+
+  it('should fly to a bookmark and leave the camera with the user', () => {
+    const camera = new THREE.PerspectiveCamera(75)
+    const director = new CameraDirector(camera, new THREE.Vector3(), { [SimulationPhase.SUPERNOVA]: PUSH_IN })
+    director.play(SimulationPhase.SUPERNOVA)
+
+    director.flyTo({ position: new THREE.Vector3(0, 120, 1), target: new THREE.Vector3(), fov: 50 }, 1)
+    expect(director.isDriving()).toBe(false)
+    director.update(0, 1)
+    expect(camera.position.y).toBeCloseTo(120)
+    expect(camera.fov).toBeCloseTo(50)
+
+    // Arrived: the shot no longer moves it
+    director.update(1, 1 / 60)
+    expect(camera.position.y).toBeCloseTo(120)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { CameraShake } from '../src/CameraShake'
+
+function createCamera() {
+  const camera = new THREE.PerspectiveCamera(75)
+  camera.position.set(0, 10, 50)
+  camera.lookAt(0, 0, 0)
+  return camera
+}
+
+describe('CameraShake', () => {
+  it('should decay trauma over real time, with sustained levels as a floor', () => {
+    const shake = new CameraShake({ decay: 0.5 })
+    shake.addTrauma(0.7)
+    shake.addTrauma(0.7)
+    expect(shake.getTrauma()).toBe(1)
+
+    shake.update(1)
+    expect(shake.getTrauma()).toBeCloseTo(0.5)
+    shake.sustain(0.8)
+    expect(shake.getTrauma()).toBeCloseTo(0.8)
+    shake.sustain(0.2)
+    expect(shake.getTrauma()).toBeCloseTo(0.8)
+
+    shake.update(10)
+    expect(shake.getTrauma()).toBe(0)
+  })
+
+  it('should offset the camera only until restored', () => {
+    const camera = createCamera()
+    const position = camera.position.clone()
+    const quaternion = camera.quaternion.clone()
+
+    const shake = new CameraShake()
+    shake.addTrauma(1)
+    shake.update(0.3)
+    shake.apply(camera)
+    expect(camera.position.distanceTo(position)).toBeGreaterThan(0)
+    expect(camera.quaternion.angleTo(quaternion)).toBeGreaterThan(0)
+
+    shake.restore(camera)
+    expect(camera.position.equals(position)).toBe(true)
+    expect(camera.quaternion.equals(quaternion)).toBe(true)
+  })
+
+  it('should shake the same at any frame rate', () => {
+    const at30 = new CameraShake()
+    const at144 = new CameraShake()
+    at30.addTrauma(1)
+    at144.addTrauma(1)
+    for (let i = 0; i < 15; i++) at30.update(1 / 30)
+    for (let i = 0; i < 72; i++) at144.update(1 / 144)
+
+    const a = createCamera()
+    const b = createCamera()
+    at30.apply(a)
+    at144.apply(b)
+    expect(a.position.distanceTo(b.position)).toBeCloseTo(0, 5)
+    expect(a.quaternion.angleTo(b.quaternion)).toBeCloseTo(0, 5)
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { FlyCamera } from '../src/FlyCamera'
+
+function createFlyCamera() {
+  const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000)
+  camera.position.set(0, 0, 60)
+  camera.lookAt(0, 0, 0)
+  const fly = new FlyCamera(camera, document.createElement('canvas'))
+  fly.enable()
+  return { camera, fly }
+}
+
+function press(code: string, down: boolean) {
+  window.dispatchEvent(new KeyboardEvent(down ? 'keydown' : 'keyup', { code }))
+}
+
+describe('FlyCamera', () => {
+  it('should speed up under thrust and coast to a stop', () => {
+    const { camera, fly } = createFlyCamera()
+    expect(fly.handlesKey('KeyA')).toBe(true)
+
+    press('KeyW', true)
+    fly.update(0.1)
+    const firstStep = 60 - camera.position.z
+    expect(firstStep).toBeGreaterThan(0)
+    expect(firstStep).toBeLessThan(fly.getSpeed() * 0.1)
+    for (let i = 0; i < 10; i++) fly.update(0.1)
+    press('KeyW', false)
+
+    // Still moving forward after release, then settling
+    const released = camera.position.z
+    fly.update(0.1)
+    expect(camera.position.z).toBeLessThan(released)
+    for (let i = 0; i < 100; i++) fly.update(0.1)
+    const settled = camera.position.z
+    fly.update(0.1)
+    expect(camera.position.z).toBeCloseTo(settled, 3)
+    fly.disable()
+  })
+
+  it('should ignore keys typed into form fields', () => {
+    const { camera, fly } = createFlyCamera()
+    const input = document.createElement('input')
+    document.body.appendChild(input)
+
+    input.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyW', bubbles: true }))
+    for (let i = 0; i < 10; i++) fly.update(0.1)
+    expect(camera.position.z).toBe(60)
+
+    input.dispatchEvent(new KeyboardEvent('keyup', { code: 'KeyW', bubbles: true }))
+    input.remove()
+    fly.disable()
+  })
+
+  it('should stop short of the event horizon and pull the near plane in', () => {
+    const { camera, fly } = createFlyCamera()
+    fly.setHorizon(new THREE.Vector3(), 5)
+    fly.setSpeed(200)
+
+    press('KeyW', true)
+    for (let i = 0; i < 120; i++) fly.update(1 / 60)
+    press('KeyW', false)
+
+    expect(camera.position.length()).toBeGreaterThanOrEqual(5.5 - 1e-6)
+    expect(camera.near).toBeLessThan(0.1)
+    fly.disable()
+    expect(camera.near).toBe(0.1)
+  })
+})
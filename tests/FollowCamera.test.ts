@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { FollowCamera, FollowTarget, followPlanet, followOuterShell } from '../src/FollowCamera'
+import { PlanetSystem } from '../src/PlanetSystem'
+import { SupernovaRemnant } from '../src/SupernovaRemnant'
+import { TweenScheduler } from '../src/TweenScheduler'
+
+describe('FollowCamera', () => {
+  it('should ease toward the view and stop once the subject is gone', () => {
+    const camera = new THREE.PerspectiveCamera(75)
+    const target = new THREE.Vector3()
+    const followCamera = new FollowCamera(camera, target)
+
+    let present = true
+    const subject: FollowTarget = {
+      name: 'Probe',
+      getView(position, lookAt) {
+        position.set(100, 0, 0)
+        lookAt.set(90, 0, 0)
+        return present
+      },
+    }
+    followCamera.follow(subject)
+
+    expect(followCamera.update(0.1)).toBe(true)
+    expect(camera.position.x).toBeGreaterThan(0)
+    expect(camera.position.x).toBeLessThan(100)
+    for (let i = 0; i < 300; i++) followCamera.update(1 / 60)
+    expect(camera.position.x).toBeCloseTo(100)
+    expect(target.x).toBeCloseTo(90)
+
+    present = false
+    expect(followCamera.update(1 / 60)).toBe(false)
+    expect(followCamera.getSubject()).toBeNull()
+  })
+
+  it('should ride outside a planet and look at it', () => {
+    const planets = new PlanetSystem(new THREE.Scene(), new TweenScheduler())
+    const earth = planets.getPlanetNames().indexOf('Earth')
+    const subject = followPlanet(planets, earth)
+    expect(subject?.name).toBe('Earth')
+    expect(followPlanet(planets, 99)).toBeNull()
+
+    const position = new THREE.Vector3()
+    const lookAt = new THREE.Vector3()
+    expect(subject?.getView(position, lookAt)).toBe(true)
+    const planetPosition = new THREE.Vector3()
+    planets.getPlanetPosition(earth, planetPosition)
+    expect(lookAt.distanceTo(planetPosition)).toBeCloseTo(0)
+    expect(Math.hypot(position.x, position.z)).toBeGreaterThan(Math.hypot(planetPosition.x, planetPosition.z))
+  })
+
+  it('should track the outer shell only while following it, holding distance until positions arrive', () => {
+    let radius: number | null = null
+    let tracking = false
+    const remnant = {
+      getOuterShellRadius: () => radius,
+      startTrackingShell: () => { tracking = true },
+      stopTrackingShell: () => { tracking = false },
+    } as unknown as SupernovaRemnant
+
+    const followCamera = new FollowCamera(new THREE.PerspectiveCamera(75), new THREE.Vector3())
+    const subject = followOuterShell(remnant, new THREE.Vector3(0, 0, 80))
+    followCamera.follow(subject)
+    expect(tracking).toBe(true)
+
+    // No positions yet (a worker's first frame): stay out at the starting distance
+    const position = new THREE.Vector3()
+    const lookAt = new THREE.Vector3()
+    expect(subject.getView(position, lookAt)).toBe(true)
+    expect(position.z).toBeCloseTo(80)
+
+    radius = 120
+    subject.getView(position, lookAt)
+    expect(position.z).toBeCloseTo(130)
+
+    followCamera.stop()
+    expect(tracking).toBe(false)
+
+    // A swallowed shell ends the follow, and tracking with it
+    followCamera.follow(subject)
+    radius = 0
+    expect(followCamera.update(1 / 60)).toBe(false)
+    expect(tracking).toBe(false)
+  })
+  it('should reach a close view despite the orbit controls, and give their zoom range back', () => {
+    const camera = new THREE.PerspectiveCamera(75)
+    camera.position.set(0, 20, 80)
+    const controls = new OrbitControls(camera, document.createElement('canvas'))
+    controls.minDistance = 10
+    controls.maxDistance = 200
+    const followCamera = new FollowCamera(camera, controls.target, controls)
+
+    const planets = new PlanetSystem(new THREE.Scene(), new TweenScheduler())
+    const subject = followPlanet(planets, planets.getPlanetNames().indexOf('Earth'))!
+    followCamera.follow(subject)
+
+    // Same order as the app's frame: controls first, then the follow
+    for (let i = 0; i < 600; i++) {
+      controls.update()
+      followCamera.update(1 / 60)
+    }
+    const view = new THREE.Vector3()
+    const lookAt = new THREE.Vector3()
+    subject.getView(view, lookAt)
+    expect(camera.position.distanceTo(lookAt)).toBeLessThan(10)
+    expect(camera.position.distanceTo(view)).toBeCloseTo(0, 2)
+
+    followCamera.stop()
+    expect(controls.minDistance).toBe(10)
+    expect(controls.maxDistance).toBe(200)
+    controls.dispose()
+  })
+})
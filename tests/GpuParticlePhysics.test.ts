@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { createReferenceAttribute, isGpuParticleSupported, readPositionsFromTexture } from '../src/GpuParticlePhysics'
+
+// Just the parts of a WebGLRenderer the capability check reads
+function fakeRenderer(maxVertexTextures: number, extensions: string[]): THREE.WebGLRenderer {
+  return {
+    capabilities: { maxVertexTextures },
+    extensions: { has: (name: string) => extensions.includes(name) },
+  } as unknown as THREE.WebGLRenderer
+}
+
+describe('GPU particles', () => {
+  it('should need both vertex texture fetch and float render targets', () => {
+    expect(isGpuParticleSupported(fakeRenderer(16, ['EXT_color_buffer_float']))).toBe(true)
+    expect(isGpuParticleSupported(fakeRenderer(0, ['EXT_color_buffer_float']))).toBe(false)
+    expect(isGpuParticleSupported(fakeRenderer(16, []))).toBe(false)
+  })
+
+  it('should point each particle at the centre of its own texel', () => {
+    // 3 × 3 texture, particles 2-5: the end of row 0, then into row 1
+    const references = createReferenceAttribute(3, 2, 4)
+    expect(references.itemSize).toBe(2)
+    expect(references.count).toBe(4)
+
+    const texel = (column: number, row: number) => [(column + 0.5) / 3, (row + 0.5) / 3]
+    const expected = [texel(2, 0), texel(0, 1), texel(1, 1), texel(2, 1)]
+    expected.forEach(([u, v], i) => {
+      expect(references.getX(i)).toBeCloseTo(u)
+      expect(references.getY(i)).toBeCloseTo(v)
+    })
+  })
+  it('should draw points from the simulation texel, keeping all of it for later chunks', () => {
+    const material = new THREE.PointsMaterial()
+    readPositionsFromTexture(material, { value: null })
+    const shader = {
+      uniforms: {},
+      vertexShader: THREE.ShaderLib.points.vertexShader,
+      fragmentShader: THREE.ShaderLib.points.fragmentShader,
+    } as unknown as THREE.WebGLProgramParametersWithUniforms
+    material.onBeforeCompile(shader, {} as THREE.WebGLRenderer)
+
+    expect(shader.uniforms).toHaveProperty('positionTexture')
+    expect(shader.vertexShader).not.toContain('#include <begin_vertex>')
+    expect(shader.vertexShader).toContain('vec4 simulated = texture2D(positionTexture, reference);')
+    expect(shader.vertexShader).toContain('vec3 transformed = simulated.xyz;')
+  })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { HeadlessSimulation } from '../src/HeadlessSimulation'
+import { SimulationPhase } from '../src/AudioManager'
+import { SupernovaRemnantPhysics } from '../src/physics/SupernovaRemnantPhysics'
+import { Random } from '../src/utils/Random'
+
+// Small particle counts keep a full lifecycle run to about a second
+const options = { seed: 42, nebulaParticles: 2000, remnantParticles: 500, accretionSourceParticles: 200 }
+
+describe('HeadlessSimulation', () => {
+  it('should collapse the nebula until the star ignites', () => {
+    const sim = new HeadlessSimulation(options)
+
+    expect(sim.runUntil(SimulationPhase.MAIN_SEQUENCE)).toBe(true)
+
+    const metrics = sim.getMetrics()
+    expect(metrics.phase).toBe(SimulationPhase.MAIN_SEQUENCE)
+    expect(metrics.collapseProgress).toBeGreaterThanOrEqual(0.92)
+    expect(metrics.engulfedPlanets).toBe(0)
+  })
+
+  it('should collapse the nebula under its own gravity too', () => {
+    const sim = new HeadlessSimulation({ ...options, nebulaParticles: 800, selfGravity: true })
+
+    expect(sim.runUntil(SimulationPhase.MAIN_SEQUENCE, 0, 60)).toBe(true)
+    expect(sim.getMetrics().collapseProgress).toBeGreaterThanOrEqual(0.92)
+  })
+
+  it('should engulf every planet during the red giant phase', () => {
+    const sim = new HeadlessSimulation(options)
+
+    sim.runUntil(SimulationPhase.SUPERNOVA)
+
+    const metrics = sim.getMetrics()
+    expect(metrics.engulfedPlanets).toBe(4)
+    expect(metrics.remnantParticles).toBe(1500)
+  })
+
+  it('should feed consumed mass into the black hole', () => {
+    const sim = new HeadlessSimulation(options)
+
+    sim.runUntil(SimulationPhase.BLACK_HOLE)
+    sim.runFor(30)
+
+    const metrics = sim.getMetrics()
+    expect(metrics.phase).toBe(SimulationPhase.BLACK_HOLE)
+    expect(metrics.consumedMass).toBeGreaterThan(0)
+    expect(metrics.blackHoleMass).toBeCloseTo(1 + metrics.consumedMass, 6)
+  })
+
+  it('should leave a cooling white dwarf inside a planetary nebula', () => {
+    const sim = new HeadlessSimulation({ ...options, stellarMass: 1 })
+
+    sim.runUntil(SimulationPhase.WHITE_DWARF)
+    sim.runFor(1)
+    const early = sim.getMetrics()
+    sim.runFor(20)
+    const late = sim.getMetrics()
+
+    expect(late.phase).toBe(SimulationPhase.WHITE_DWARF)
+    expect(late.blackHoleMass).toBe(0)
+    expect(late.remnantParticles).toBe(1500)
+    expect(late.engulfedPlanets).toBe(3) // Mars survives and keeps orbiting
+    expect(late.whiteDwarfTemperature).toBeLessThan(early.whiteDwarfTemperature)
+  })
+
+  it('should grow the black hole on the debris of a tidally disrupted star', () => {
+    const sim = new HeadlessSimulation(options)
+
+    expect(sim.triggerTidalDisruption()).toBe(false)
+    sim.runUntil(SimulationPhase.BLACK_HOLE)
+    expect(sim.triggerTidalDisruption(500)).toBe(true)
+    expect(sim.triggerTidalDisruption(500)).toBe(false)
+    sim.runFor(30)
+
+    const metrics = sim.getMetrics()
+    expect(metrics.tidalFallbackMass).toBeGreaterThan(0)
+    expect(metrics.consumedMass).toBeGreaterThanOrEqual(metrics.tidalFallbackMass)
+    expect(metrics.blackHoleMass).toBeCloseTo(1 + metrics.consumedMass, 6)
+  })
+
+  it('should leave a spinning-down pulsar after an intermediate-mass supernova', () => {
+    const sim = new HeadlessSimulation({ ...options, stellarMass: 12 })
+
+    expect(sim.runUntil(SimulationPhase.NEUTRON_STAR)).toBe(true)
+    sim.runFor(10)
+
+    const metrics = sim.getMetrics()
+    expect(metrics.phase).toBe(SimulationPhase.NEUTRON_STAR)
+    expect(metrics.blackHoleMass).toBe(0)
+    expect(metrics.pulsarPeriod).toBeGreaterThan(1.2)
+  })
+
+  it('should feed the companion through the Roche lobe, then let it run away', () => {
+    const sim = new HeadlessSimulation({ ...options, binary: true })
+
+    sim.runUntil(SimulationPhase.SUPERNOVA)
+    const recentred = sim.getMetrics()
+    sim.runFor(10)
+    const metrics = sim.getMetrics()
+
+    expect(metrics.engulfedPlanets).toBe(0)
+    expect(recentred.transferredMass).toBeGreaterThan(0)
+    expect(recentred.companionMass).toBeCloseTo(10 + recentred.transferredMass, 6)
+    expect(metrics.companionDistance).toBeGreaterThan(recentred.companionDistance + 30)
+  })
+
+  it('should keep a bound companion around a white dwarf', () => {
+    const sim = new HeadlessSimulation({ ...options, stellarMass: 1, binary: true })
+
+    sim.runUntil(SimulationPhase.WHITE_DWARF)
+    const recentred = sim.getMetrics()
+    sim.runFor(20)
+
+    expect(recentred.transferredMass).toBeGreaterThan(0)
+    expect(sim.getMetrics().companionDistance).toBeCloseTo(recentred.companionDistance, 6)
+  })
+
+  it('should detonate the white dwarf once the companion pushes it over the Chandrasekhar limit', () => {
+    const sim = new HeadlessSimulation({ ...options, stellarMass: 1, binary: true })
+
+    sim.runUntil(SimulationPhase.WHITE_DWARF)
+    const start = sim.getMetrics()
+    expect(sim.runUntil(SimulationPhase.TYPE_IA_SUPERNOVA)).toBe(true)
+    const detonation = sim.getMetrics()
+    sim.runFor(10)
+    const metrics = sim.getMetrics()
+
+    expect(start.whiteDwarfMass).toBeCloseTo(0.503, 3)
+    expect(detonation.whiteDwarfMass).toBe(0)
+    expect(metrics.blackHoleMass).toBe(0)
+    expect(metrics.companionDistance).toBeGreaterThan(detonation.companionDistance + 10)
+  })
+
+  it('should produce identical metrics for the same seed', () => {
+    const first = new HeadlessSimulation(options)
+    first.runUntil(SimulationPhase.RED_GIANT, 0.5)
+
+    const second = new HeadlessSimulation(options)
+    second.runUntil(SimulationPhase.RED_GIANT, 0.5)
+
+    expect(second.getMetrics()).toEqual(first.getMetrics())
+  })
+})
+
+describe('SupernovaRemnantPhysics', () => {
+  it('should consume particles that cross the event horizon', () => {
+    Random.setSeed(7)
+    const remnant = new SupernovaRemnantPhysics(5, 100, 1)
+    let consumed = 0
+    remnant.setConsumptionCallback((mass) => (consumed += mass))
+    remnant.enableAccretion(new THREE.Vector3(0, 0, 0), 0.15, 20)
+
+    remnant.update(1 / 60)
+
+    expect(remnant.getActiveParticleCount()).toBe(0)
+    expect(consumed).toBeCloseTo(100 * 0.0001, 6)
+    expect(remnant.getConsumedMass()).toBeCloseTo(consumed, 6)
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { isTypingTarget } from '../src/utils/Keyboard'
+
+function input(type: string): HTMLInputElement {
+  const element = document.createElement('input')
+  element.type = type
+  return element
+}
+
+describe('isTypingTarget', () => {
+  it('should hold shortcuts back from text fields', () => {
+    expect(isTypingTarget(input('text'))).toBe(true)
+    expect(isTypingTarget(input('number'))).toBe(true)
+    expect(isTypingTarget(document.createElement('textarea'))).toBe(true)
+
+    const editable = document.createElement('div')
+    editable.contentEditable = 'true'
+    expect(isTypingTarget(editable)).toBe(true)
+  })
+
+  it('should let shortcuts through from sliders, toggles and selects', () => {
+    const slider = input('range')
+    document.body.appendChild(slider)
+    slider.focus()
+    expect(isTypingTarget(slider)).toBe(false)
+    slider.remove()
+
+    expect(isTypingTarget(input('checkbox'))).toBe(false)
+    expect(isTypingTarget(document.createElement('select'))).toBe(false)
+    expect(isTypingTarget(window)).toBe(false)
+  })
+})
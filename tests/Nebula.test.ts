@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { Nebula } from '../src/Nebula'
+import { MAIN_THREAD_BACKEND } from '../src/physics/ParticleWorkerBackend'
+import { Random } from '../src/utils/Random'
+
+function createNebula() {
+  Random.setSeed(3)
+  return new Nebula(new THREE.Scene(), false, { ...MAIN_THREAD_BACKEND, particleScale: 0.05 })
+}
+
+describe('Nebula', () => {
+  it('should colour particles in the shader, leaving the colour buffer alone', () => {
+    const nebula = createNebula()
+    const geometry = nebula['geometry'] as THREE.BufferGeometry
+    const colors = geometry.getAttribute('color')
+    const before = Float32Array.from(colors.array)
+    const colorVersion = colors.version
+
+    for (let i = 0; i < 600; i++) nebula.update(1 / 60)
+
+    expect(nebula.getCollapseProgress()).toBeGreaterThan(0.5)
+    expect(colors.version).toBe(colorVersion)
+    expect(Array.from(colors.array)).toEqual(Array.from(before))
+    // Stuck flags go up with the positions instead
+    expect(geometry.getAttribute('stuck').version).toBeGreaterThan(0)
+    nebula.dispose()
+  })
+
+  it('should add the colouring after the vertex position is known', () => {
+    const nebula = createNebula()
+    const material = nebula['material'] as THREE.PointsMaterial
+    const shader = {
+      uniforms: {},
+      vertexShader: THREE.ShaderLib.points.vertexShader,
+      fragmentShader: THREE.ShaderLib.points.fragmentShader,
+    } as unknown as THREE.WebGLProgramParametersWithUniforms
+    material.onBeforeCompile(shader, {} as THREE.WebGLRenderer)
+
+    expect(shader.uniforms).toHaveProperty('collapseMix')
+    expect(shader.vertexShader).toContain('attribute float stuck;')
+    const positioned = shader.vertexShader.indexOf('#include <begin_vertex>')
+    expect(shader.vertexShader.indexOf('vColor.rgb = mix')).toBeGreaterThan(positioned)
+    nebula.dispose()
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { NebulaPhysics } from '../src/physics/NebulaPhysics'
+import { Random } from '../src/utils/Random'
+
+function positionSums(positions: Float32Array): { sum: number; absSum: number } {
+  let sum = 0
+  let absSum = 0
+  for (const value of positions) {
+    sum += value
+    absSum += Math.abs(value)
+  }
+  return { sum, absSum }
+}
+
+describe('NebulaPhysics', () => {
+  it('should collapse a seeded cloud exactly as it did before the step was split up for the GPU', () => {
+    // Recorded from update() before it was split into beginStep/finishStep
+    const expected = [
+      { step: 300, progress: 0.4146607747472565, sum: -255.17236666753888, absSum: 38275.82999037765 },
+      { step: 600, progress: 0.9512242041500817, sum: 105.06875467112695, absSum: 12582.277548394413 },
+      { step: 900, progress: 1, sum: -22.935674599295453, absSum: 4954.867175559379 },
+    ]
+
+    Random.setSeed(7)
+    const nebula = new NebulaPhysics(1000)
+    let step = 0
+    for (const checkpoint of expected) {
+      while (step < checkpoint.step) {
+        nebula.update(1 / 60)
+        step++
+      }
+      const { sum, absSum } = positionSums(nebula.positions)
+      expect(nebula.getCollapseProgress()).toBeCloseTo(checkpoint.progress, 10)
+      expect(sum).toBeCloseTo(checkpoint.sum, 6)
+      expect(absSum).toBeCloseTo(checkpoint.absSum, 6)
+    }
+  })
+
+  it('should measure collapse from the distances a backend reports', () => {
+    Random.setSeed(7)
+    const nebula = new NebulaPhysics(1000)
+    const initialRadius = nebula.getAverageRadius()
+
+    // Nothing has moved: no collapse
+    nebula.beginStep(1 / 60)
+    nebula.finishStep(initialRadius * 1000, 1000, 0)
+    expect(nebula.getCollapseProgress()).toBe(0)
+
+    // Free particles halfway to the target radius (6), with a fifth stuck to the protostar
+    const halfway = (initialRadius + 6) / 2
+    nebula.beginStep(1 / 60)
+    nebula.finishStep(halfway * 800, 800, 200)
+    expect(nebula.getCollapseProgress()).toBeCloseTo(0.5 + 0.2 * 0.3)
+    expect(nebula.getStuckParticleCount()).toBe(200)
+
+    // Everything stuck: done
+    nebula.beginStep(1 / 60)
+    nebula.finishStep(0, 0, 1000)
+    expect(nebula.getCollapseProgress()).toBe(1)
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { NeutronStarPhysics } from '../src/physics/NeutronStarPhysics'
+
+// Number of separate beam sweeps an observer sees over the given time
+function countPulses(physics: NeutronStarPhysics, observer: THREE.Vector3, seconds: number): number {
+  const step = 1 / 240
+  let pulses = 0
+  let wasLit = false
+
+  for (let t = 0; t < seconds; t += step) {
+    physics.update(step)
+    const lit = physics.getBeamAlignment(observer) > 0
+    if (lit && !wasLit) pulses++
+    wasLit = lit
+  }
+  return pulses
+}
+
+describe('NeutronStarPhysics', () => {
+  it('should keep the magnetic axis tilted from the spin axis', () => {
+    const physics = new NeutronStarPhysics()
+    const beam = physics.getBeamDirection(0, new THREE.Vector3())
+
+    expect(beam.angleTo(new THREE.Vector3(0, 1, 0))).toBeCloseTo(physics.magneticInclination)
+    expect(physics.getBeamDirection(1, new THREE.Vector3()).dot(beam)).toBeCloseTo(-1)
+  })
+
+  it('should sweep a beam past an observer on the beam cone once per rotation', () => {
+    const physics = new NeutronStarPhysics()
+    const colatitude = physics.magneticInclination
+    const observer = new THREE.Vector3(0, Math.cos(colatitude), Math.sin(colatitude))
+
+    expect(countPulses(physics, observer, physics.getPeriod() * 3)).toBe(3)
+  })
+
+  it('should never flash an observer looking down the spin axis', () => {
+    const physics = new NeutronStarPhysics()
+
+    expect(countPulses(physics, new THREE.Vector3(0, 1, 0), 5)).toBe(0)
+  })
+
+  it('should spin down over time', () => {
+    const physics = new NeutronStarPhysics()
+    const initialPeriod = physics.getPeriod()
+
+    physics.update(10)
+
+    expect(physics.getPeriod()).toBeGreaterThan(initialPeriod)
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { ParticleWorkerRuntime } from '../src/physics/ParticleWorkerRuntime'
+import { ParticlePhysicsSpec, getExportedLengths } from '../src/physics/ParticleWorkerBackend'
+import { AccretionSourcePhysics } from '../src/physics/AccretionSourcePhysics'
+import { Random } from '../src/utils/Random'
+
+function createBuffers(spec: ParticlePhysicsSpec): ArrayBuffer[][] {
+  const lengths = getExportedLengths(spec)
+  return [0, 1].map(() => lengths.map((length) => new ArrayBuffer(length * Float32Array.BYTES_PER_ELEMENT)))
+}
+
+describe('ParticleWorkerRuntime', () => {
+  it('should publish the same positions as stepping the physics directly', () => {
+    const spec: ParticlePhysicsSpec = {
+      kind: 'accretion',
+      position: [50, 30, 20],
+      accretionStrength: 0.15,
+      eventHorizonRadius: 12,
+      particleCount: 200,
+      particleMass: 0.0001,
+    }
+    const buffers = createBuffers(spec)
+    const runtime = new ParticleWorkerRuntime(spec, 9, buffers)
+    const initial = runtime.publish()
+    expect(initial.buffer).toBe(0)
+
+    const steps = Array.from({ length: 120 }, () => ({ type: 'step' as const, deltaTime: 1 / 60 }))
+    const frame = runtime.run([...steps, { type: 'setSpin', spin: 0.9, eventHorizonRadius: 8 }, ...steps])
+
+    // Same seed, same calls, on this thread (the runtime seeds the shared stream itself)
+    Random.setSeed(9)
+    const direct = new AccretionSourcePhysics(new THREE.Vector3(50, 30, 20), 0.15, 12, 200)
+    for (let i = 0; i < 120; i++) direct.update(1 / 60)
+    direct.setSpin(0.9, 8)
+    for (let i = 0; i < 120; i++) direct.update(1 / 60)
+
+    expect(frame.buffer).toBe(1)
+    expect(Array.from(new Float32Array(buffers[1][0]))).toEqual(Array.from(direct.positions))
+    expect(frame.state.activeParticleCount).toBe(direct.getActiveParticleCount())
+  })
+
+  it('should report consumed mass once per frame', () => {
+    const spec: ParticlePhysicsSpec = {
+      kind: 'remnant',
+      initialRadius: 5,
+      particleCount: 100,
+      shellCount: 2,
+      particleMass: 0.0002,
+    }
+    const runtime = new ParticleWorkerRuntime(spec, 3, createBuffers(spec))
+    runtime.publish()
+
+    const swallowed = runtime.run([
+      { type: 'enableAccretion', position: [0, 0, 0], strength: 0.15, horizonRadius: 20 },
+      { type: 'step', deltaTime: 1 / 60 },
+    ])
+    expect(swallowed.consumedMass).toBeCloseTo(200 * 0.0002, 6)
+    expect(swallowed.state.activeParticleCount).toBe(0)
+
+    const quiet = runtime.run([{ type: 'step', deltaTime: 1 / 60 }])
+    expect(quiet.consumedMass).toBe(0)
+    expect(quiet.buffer).not.toBe(swallowed.buffer)
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { SimulationPhase } from '../src/AudioManager'
+import { PhaseTimeline, PhaseDescriptor, DEFAULT_PHASE_TIMELINE } from '../src/PhaseTimeline'
+
+const testPhases: PhaseDescriptor[] = [
+  { phase: SimulationPhase.NEBULA_COLLAPSE, title: 'Nebula', description: '', estimatedDuration: 1.0, audioCrossfade: 0 },
+  { phase: SimulationPhase.MAIN_SEQUENCE, title: 'Main', description: '', duration: 2.0, audioCrossfade: 3.0 },
+  { phase: SimulationPhase.BLACK_HOLE, title: 'Black Hole', description: '', estimatedDuration: 1.0, audioCrossfade: 3.0 },
+]
+
+describe('PhaseTimeline', () => {
+  let timeline: PhaseTimeline
+  let events: string[]
+
+  beforeEach(() => {
+    timeline = new PhaseTimeline(testPhases)
+    events = []
+    timeline.onPhaseChange((current, previous) => {
+      events.push(`${previous?.title ?? 'none'} -> ${current.title}`)
+    })
+  })
+
+  describe('Default Lifecycle', () => {
+    it('should run nebula through black hole in order', () => {
+      expect(DEFAULT_PHASE_TIMELINE.map(d => d.phase)).toEqual([
+        SimulationPhase.NEBULA_COLLAPSE,
+        SimulationPhase.MAIN_SEQUENCE,
+        SimulationPhase.RED_GIANT,
+        SimulationPhase.SUPERNOVA,
+        SimulationPhase.BLACK_HOLE,
+      ])
+    })
+
+    it('should keep the original phase durations', () => {
+      const durations = DEFAULT_PHASE_TIMELINE.map(d => d.duration)
+      expect(durations).toEqual([undefined, 30.0, 45.0, 8.0, undefined])
+    })
+  })
+
+  describe('Transitions', () => {
+    it('should enter the first phase on start', () => {
+      timeline.start()
+      expect(timeline.getCurrentPhase()).toBe(SimulationPhase.NEBULA_COLLAPSE)
+      expect(events).toEqual(['none -> Nebula'])
+    })
+
+    it('should advance when a condition-driven phase completes', () => {
+      let collapsed = false
+      timeline.register(SimulationPhase.NEBULA_COLLAPSE, { isComplete: () => collapsed })
+      timeline.start()
+
+      timeline.update(1.0)
+      expect(timeline.getCurrentPhase()).toBe(SimulationPhase.NEBULA_COLLAPSE)
+
+      collapsed = true
+      timeline.update(1.0)
+      expect(timeline.getCurrentPhase()).toBe(SimulationPhase.MAIN_SEQUENCE)
+    })
+
+    it('should advance when a timed phase reaches its duration', () => {
+      timeline.start(SimulationPhase.MAIN_SEQUENCE)
+      timeline.update(1.0)
+      expect(timeline.getProgress()).toBeCloseTo(0.5)
+
+      timeline.update(1.0)
+      expect(timeline.getCurrentPhase()).toBe(SimulationPhase.BLACK_HOLE)
+      expect(timeline.getElapsed()).toBe(0)
+    })
+
+    it('should run exit and enter hooks before notifying listeners', () => {
+      timeline.register(SimulationPhase.MAIN_SEQUENCE, { onExit: () => events.push('exit main') })
+      timeline.register(SimulationPhase.BLACK_HOLE, { onEnter: () => events.push('enter black hole') })
+      timeline.start(SimulationPhase.MAIN_SEQUENCE)
+      timeline.advance()
+
+      expect(events).toEqual(['none -> Main', 'exit main', 'enter black hole', 'Main -> Black Hole'])
+    })
+
+    it('should pass phase-local elapsed time to update handlers', () => {
+      const elapsed: number[] = []
+      timeline.register(SimulationPhase.MAIN_SEQUENCE, { onUpdate: (_dt, t) => elapsed.push(t) })
+      timeline.start(SimulationPhase.MAIN_SEQUENCE)
+      timeline.update(0.5)
+      timeline.update(0.5)
+
+      expect(elapsed).toEqual([0.5, 1.0])
+    })
+
+    it('should stay in the terminal phase', () => {
+      timeline.start(SimulationPhase.BLACK_HOLE)
+      timeline.advance()
+      timeline.update(100)
+
+      expect(timeline.getCurrentPhase()).toBe(SimulationPhase.BLACK_HOLE)
+    })
+
+    it('should reject phases missing from the timeline', () => {
+      expect(() => timeline.start(SimulationPhase.RED_GIANT)).toThrow()
+    })
+  })
+
+  describe('Global Position', () => {
+    it('should lay phases out by duration or estimated duration', () => {
+      expect(timeline.getTotalSpan()).toBe(4.0)
+      expect(timeline.toGlobalPosition(SimulationPhase.NEBULA_COLLAPSE, 0)).toBe(0)
+      expect(timeline.toGlobalPosition(SimulationPhase.MAIN_SEQUENCE, 0.5)).toBe(0.5)
+      expect(timeline.toGlobalPosition(SimulationPhase.BLACK_HOLE, 1.0)).toBe(1.0)
+    })
+
+    it('should map global positions back to a phase and progress', () => {
+      expect(timeline.fromGlobalPosition(0.125)).toEqual({ phase: SimulationPhase.NEBULA_COLLAPSE, progress: 0.5 })
+      expect(timeline.fromGlobalPosition(0.5)).toEqual({ phase: SimulationPhase.MAIN_SEQUENCE, progress: 0.5 })
+      expect(timeline.fromGlobalPosition(1.0)).toEqual({ phase: SimulationPhase.BLACK_HOLE, progress: 1.0 })
+    })
+
+    it('should use handler progress for condition-driven phases', () => {
+      timeline.register(SimulationPhase.NEBULA_COLLAPSE, { getProgress: () => 0.5 })
+      timeline.start()
+
+      expect(timeline.getProgress()).toBe(0.5)
+      expect(timeline.getGlobalPosition()).toBe(0.125)
+    })
+  })
+})
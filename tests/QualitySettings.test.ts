@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { AdaptiveQuality, parseQuality, lowerQuality, relievesImmediately } from '../src/QualitySettings'
+
+describe('QualitySettings', () => {
+  it('should parse levels and auto, rejecting anything else', () => {
+    expect(parseQuality('medium')).toBe('medium')
+    expect(parseQuality('auto')).toBe('auto')
+    expect(parseQuality('extreme')).toBeNull()
+    expect(parseQuality(null)).toBeNull()
+  })
+
+  it('should step down one level at a time and stop at low', () => {
+    expect(lowerQuality('ultra')).toBe('high')
+    expect(lowerQuality('medium')).toBe('low')
+    expect(lowerQuality('low')).toBeNull()
+  })
+
+  it('should only count a step down that lightens frames straight away', () => {
+    const allOn = { bloom: true, filmGrain: true, vignette: true }
+    const grainOff = { bloom: true, filmGrain: false, vignette: true }
+
+    // High to medium drops film grain and, on a dense display, pixel ratio
+    expect(relievesImmediately('high', 'medium', 1, allOn)).toBe(true)
+    expect(relievesImmediately('high', 'medium', 2, grainOff)).toBe(true)
+    // On a plain display with grain already off, only particle counts would change
+    expect(relievesImmediately('high', 'medium', 1, grainOff)).toBe(false)
+    expect(relievesImmediately('ultra', 'high', 1, allOn)).toBe(false)
+  })
+
+  it('should step down only after a full window over budget', () => {
+    const adaptive = new AdaptiveQuality({ targetFps: 45, window: 1 })
+
+    // 60 FPS for a second: fine
+    const fast = Array.from({ length: 60 }, () => adaptive.sample(1 / 60))
+    expect(fast.some(Boolean)).toBe(false)
+
+    // 30 FPS: the decision comes once, when the window closes
+    adaptive.reset()
+    const slow = Array.from({ length: 40 }, () => adaptive.sample(1 / 30))
+    expect(slow.indexOf(true)).toBeGreaterThanOrEqual(29)
+    expect(slow.filter(Boolean)).toHaveLength(1)
+  })
+
+  it('should ignore stalls such as tab switches', () => {
+    const adaptive = new AdaptiveQuality({ targetFps: 45, window: 1 })
+    expect(adaptive.sample(5)).toBe(false)
+    const frames = Array.from({ length: 60 }, () => adaptive.sample(1 / 60))
+    expect(frames.some(Boolean)).toBe(false)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import { Random } from '../src/utils/Random'
+import { Noise3D } from '../src/utils/Noise'
+import { SupernovaRemnant } from '../src/SupernovaRemnant'
+
+describe('Random - Seeded PRNG', () => {
+  describe('Determinism', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      Random.setSeed(1234)
+      const first = [Random.next(), Random.next(), Random.next()]
+      Random.setSeed(1234)
+      const second = [Random.next(), Random.next(), Random.next()]
+
+      expect(second).toEqual(first)
+    })
+
+    it('should produce different sequences for different seeds', () => {
+      Random.setSeed(1)
+      const a = Random.next()
+      Random.setSeed(2)
+      const b = Random.next()
+
+      expect(a).not.toBe(b)
+    })
+
+    it('should stay within [0, 1)', () => {
+      Random.setSeed(42)
+      for (let i = 0; i < 1000; i++) {
+        const value = Random.next()
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThan(1)
+      }
+    })
+
+    it('should rebuild identical particle systems from the same seed', () => {
+      const scene = new THREE.Scene()
+
+      Random.setSeed(99)
+      const first = new SupernovaRemnant(scene, 25)
+      Random.setSeed(99)
+      const second = new SupernovaRemnant(scene, 25)
+
+      const a = first.shells[0].geometry.attributes.position.array
+      const b = second.shells[0].geometry.attributes.position.array
+      expect(Array.from(b.slice(0, 30))).toEqual(Array.from(a.slice(0, 30)))
+
+      first.dispose()
+      second.dispose()
+    })
+
+    it('should seed the noise field', () => {
+      Random.setSeed(7)
+      const first = Noise3D.noise(0.3, 0.7, 1.1)
+      Random.setSeed(8)
+      Noise3D.noise(0.3, 0.7, 1.1)
+      Random.setSeed(7)
+
+      expect(Noise3D.noise(0.3, 0.7, 1.1)).toBe(first)
+    })
+  })
+
+  describe('Seed Parsing', () => {
+    it('should use integer seeds directly', () => {
+      expect(Random.parseSeed('1234')).toBe(1234)
+    })
+
+    it('should hash text seeds consistently', () => {
+      const seed = Random.parseSeed('supernova')
+      expect(seed).not.toBeNull()
+      expect(Random.parseSeed('supernova')).toBe(seed)
+    })
+
+    it('should ignore missing or empty seeds', () => {
+      expect(Random.parseSeed(null)).toBeNull()
+      expect(Random.parseSeed('  ')).toBeNull()
+    })
+  })
+})
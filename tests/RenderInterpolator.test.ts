@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import * as THREE from 'three'
+import { RenderInterpolator } from '../src/RenderInterpolator'
+
+describe('RenderInterpolator', () => {
+  let interpolator: RenderInterpolator
+  let attribute: THREE.BufferAttribute
+
+  beforeEach(() => {
+    interpolator = new RenderInterpolator()
+    attribute = new THREE.BufferAttribute(new Float32Array([0, 0, 0, 5, 5, 5]), 3)
+  })
+
+  it('should blend particle positions between steps and restore them after', () => {
+    interpolator.capture([attribute], [])
+    attribute.array.set([2, 4, 6, 5, 5, 5]) // Simulation step
+
+    interpolator.apply(0.5)
+    expect(Array.from(attribute.array.slice(0, 3))).toEqual([1, 2, 3])
+
+    interpolator.restore()
+    expect(Array.from(attribute.array.slice(0, 3))).toEqual([2, 4, 6])
+  })
+
+  it('should snap particles that teleported instead of blending', () => {
+    interpolator.capture([attribute], [])
+    attribute.array.set([0, 0, 0, 10000, 10000, 10000]) // Particle parked far away
+
+    interpolator.apply(0.5)
+    expect(Array.from(attribute.array.slice(3, 6))).toEqual([10000, 10000, 10000])
+  })
+
+  it('should reuse snapshot buffers across frames', () => {
+    interpolator.capture([attribute], [])
+    const snapshot = interpolator['attributeTracks'][0].previous
+    attribute.array.set([2, 4, 6, 5, 5, 5])
+
+    interpolator.capture([attribute], [])
+    expect(interpolator['attributeTracks'][0].previous).toBe(snapshot)
+    expect(Array.from(snapshot.slice(0, 3))).toEqual([2, 4, 6])
+  })
+
+  it('should blend object transforms', () => {
+    const object = new THREE.Object3D()
+    interpolator.capture([], [object])
+    object.position.set(10, 0, 0)
+
+    interpolator.apply(0.25)
+    expect(object.position.x).toBeCloseTo(2.5)
+
+    interpolator.restore()
+    expect(object.position.x).toBe(10)
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDefaultConfig,
+  applyConfigOverrides,
+  configFromUrl,
+  configFromJson,
+  createConfiguredProfile,
+} from '../src/SimulationConfig'
+import { createStellarProfile } from '../src/StellarProfile'
+import { Random } from '../src/utils/Random'
+
+describe('SimulationConfig', () => {
+  it('should default to the original tunables', () => {
+    const config = createDefaultConfig()
+    expect(config.nebula).toEqual({ selfGravity: false, collapseSpeed: 9.5, swirlStrength: 0.001, softening: 1.2 })
+    expect(config.blackHole).toEqual({ baseRadius: 12, jetLength: 250, spin: 0 })
+    expect(config.rendering.quality).toBe('high')
+    expect(config.seed).toBeNull()
+    expect(createConfiguredProfile(config)).toEqual(createStellarProfile(25))
+  })
+
+  it('should read dotted paths and the short URL forms', () => {
+    const params = new URLSearchParams('?binary&nogpu&particles=2&seed=hello&star.mass=6&utm_source=x')
+    const { config, errors } = configFromUrl(params)
+
+    expect(errors).toEqual([])
+    expect(config.star.binary).toBe(true)
+    expect(config.rendering.gpu).toBe(false)
+    expect(config.rendering.particleScale).toBe(2)
+    expect(config.seed).toBe(Random.parseSeed('hello'))
+    expect(config.star.mass).toBe(6)
+  })
+
+  it('should switch settings off through negated short forms, whatever the value', () => {
+    const off = configFromUrl(new URLSearchParams('?noworkers=1&nogpu=true')).config
+    expect(off.rendering.workers).toBe(false)
+    expect(off.rendering.gpu).toBe(false)
+
+    const on = configFromUrl(new URLSearchParams('?noworkers=0&nogpu=false')).config
+    expect(on.rendering.workers).toBe(true)
+    expect(on.rendering.gpu).toBe(true)
+
+    const { errors } = configFromUrl(new URLSearchParams('?nogpu=maybe'))
+    expect(errors).toHaveLength(1)
+  })
+
+  it('should skip invalid overrides and say why', () => {
+    const base = createDefaultConfig()
+    const { config, errors } = applyConfigOverrides(base, {
+      star: { mass: 400, binary: 'yes' },
+      nebula: { softening: 2 },
+      rendering: { quality: 'cinematic' },
+      planets: { count: 3 },
+    })
+
+    expect(config.star.mass).toBe(25)
+    expect(config.star.binary).toBe(false)
+    expect(config.nebula.softening).toBe(2)
+    expect(config.rendering.quality).toBe('high')
+    expect(errors).toHaveLength(4)
+    expect(errors).toContain('Unknown setting "planets.count"')
+    expect(base.nebula.softening).toBe(1.2) // The base is left alone
+  })
+
+  it('should load JSON on top of a base and report broken files', () => {
+    const base = configFromUrl(new URLSearchParams('?selfgravity')).config
+    const loaded = configFromJson('{ "timers": { "redGiantDuration": 90 }, "blackHole": { "jetLength": 400 } }', base)
+
+    expect(loaded.errors).toEqual([])
+    expect(loaded.config.nebula.selfGravity).toBe(true)
+    expect(loaded.config.blackHole.jetLength).toBe(400)
+
+    // Expansion keeps its share of the longer red giant phase
+    const profile = createConfiguredProfile(loaded.config)
+    expect(profile.redGiantDuration).toBe(90)
+    expect(profile.expansionDuration).toBeCloseTo(48, 6)
+
+    expect(configFromJson('{ star: }', base).errors).toEqual(['Not a valid JSON file'])
+    expect(configFromJson('[1, 2]', base).errors).toEqual(['Config must be a JSON object'])
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { SimulationPhase } from '../src/AudioManager'
+import { DEFAULT_PHASE_TIMELINE } from '../src/PhaseTimeline'
+import {
+  createStellarProfile,
+  applyStellarProfile,
+  getRemnantType,
+  DEFAULT_STELLAR_MASS,
+  MAX_STELLAR_MASS,
+} from '../src/StellarProfile'
+
+describe('StellarProfile', () => {
+  it('should pick the remnant from the initial mass', () => {
+    expect(getRemnantType(1)).toBe('white-dwarf')
+    expect(getRemnantType(12)).toBe('neutron-star')
+    expect(getRemnantType(30)).toBe('black-hole')
+  })
+
+  it('should keep the original lifecycle at the default mass', () => {
+    const profile = createStellarProfile(DEFAULT_STELLAR_MASS)
+
+    expect(profile.remnant).toBe('black-hole')
+    expect(profile.mainSequenceDuration).toBeCloseTo(30)
+    expect(profile.redGiantDuration).toBeCloseTo(45)
+    expect(profile.redGiantRadius).toBeCloseTo(25)
+    expect(profile.expansionDuration).toBeCloseTo(24)
+  })
+
+  it('should give lighter stars longer lives and smaller giants', () => {
+    const light = createStellarProfile(1)
+    const heavy = createStellarProfile(MAX_STELLAR_MASS)
+
+    expect(light.mainSequenceDuration).toBeGreaterThan(heavy.mainSequenceDuration)
+    expect(light.redGiantDuration).toBeGreaterThan(heavy.redGiantDuration)
+    expect(light.redGiantRadius).toBeLessThan(heavy.redGiantRadius)
+  })
+
+  it('should clamp masses outside the supported range', () => {
+    expect(createStellarProfile(500).mass).toBe(MAX_STELLAR_MASS)
+    expect(createStellarProfile(0).mass).toBeGreaterThan(0)
+  })
+
+  it('should retime the phase descriptors without touching the defaults', () => {
+    const descriptors = applyStellarProfile(DEFAULT_PHASE_TIMELINE, createStellarProfile(1))
+    const mainSequence = descriptors.find((d) => d.phase === SimulationPhase.MAIN_SEQUENCE)!
+
+    expect(mainSequence.duration).toBeGreaterThan(30)
+    expect(DEFAULT_PHASE_TIMELINE.find((d) => d.phase === SimulationPhase.MAIN_SEQUENCE)!.duration).toBe(30)
+  })
+
+  it('should end light stars as a white dwarf instead of exploding', () => {
+    const phases = applyStellarProfile(DEFAULT_PHASE_TIMELINE, createStellarProfile(1)).map((d) => d.phase)
+
+    expect(phases).toEqual([
+      SimulationPhase.NEBULA_COLLAPSE,
+      SimulationPhase.MAIN_SEQUENCE,
+      SimulationPhase.RED_GIANT,
+      SimulationPhase.WHITE_DWARF,
+    ])
+  })
+
+  it('should follow a binary white dwarf with a Type Ia supernova', () => {
+    const profile = createStellarProfile(1)
+    const phases = applyStellarProfile(DEFAULT_PHASE_TIMELINE, profile, true).map((d) => d.phase)
+
+    expect(phases.slice(-2)).toEqual([SimulationPhase.WHITE_DWARF, SimulationPhase.TYPE_IA_SUPERNOVA])
+    expect(profile.whiteDwarfMass).toBeGreaterThan(0.5)
+    expect(profile.whiteDwarfMass).toBeLessThan(1.4)
+  })
+
+  it('should keep the core collapse ending for massive stars', () => {
+    const phases = applyStellarProfile(DEFAULT_PHASE_TIMELINE, createStellarProfile(30)).map((d) => d.phase)
+
+    expect(phases).toContain(SimulationPhase.SUPERNOVA)
+    expect(phases).not.toContain(SimulationPhase.WHITE_DWARF)
+  })
+
+  it('should end intermediate stars as a neutron star after the supernova', () => {
+    const phases = applyStellarProfile(DEFAULT_PHASE_TIMELINE, createStellarProfile(12)).map((d) => d.phase)
+
+    expect(phases.slice(-2)).toEqual([SimulationPhase.SUPERNOVA, SimulationPhase.NEUTRON_STAR])
+  })
+})
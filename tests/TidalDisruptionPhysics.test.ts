@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import {
+  TidalDisruptionPhysics,
+  TDE_TIDAL_RADIUS,
+  TDE_STAR_MASS,
+} from '../src/physics/TidalDisruptionPhysics'
+import { Random } from '../src/utils/Random'
+
+describe('TidalDisruptionPhysics', () => {
+  it('should stretch the star on its way in and break it up inside the tidal radius', () => {
+    Random.setSeed(5)
+    const tde = new TidalDisruptionPhysics(500)
+    const stretches: number[] = []
+
+    while (!tde.isDisrupted()) {
+      stretches.push(tde.getTidalStretch())
+      tde.update(1 / 60)
+    }
+
+    expect(stretches[0]).toBeLessThan(0.01)
+    expect(stretches[stretches.length - 1]).toBeGreaterThan(0.5)
+    expect(tde.starPosition.length()).toBeLessThan(TDE_TIDAL_RADIUS)
+    expect(tde.getActiveParticleCount()).toBe(500)
+  })
+
+  it('should feed about half of the debris back and fling the rest away', () => {
+    Random.setSeed(5)
+    const tde = new TidalDisruptionPhysics(500)
+    let fed = 0
+    let peakFlare = 0
+    tde.setConsumptionCallback((mass) => (fed += mass))
+
+    for (let i = 0; i < 60 * 150; i++) {
+      tde.update(1 / 60)
+      peakFlare = Math.max(peakFlare, tde.getFlareLevel())
+    }
+
+    expect(fed).toBeCloseTo(tde.getFallbackMass(), 6)
+    expect(tde.getFallbackMass() / TDE_STAR_MASS).toBeGreaterThan(0.35)
+    expect(tde.getFallbackMass() / TDE_STAR_MASS).toBeLessThan(0.6)
+    expect(tde.getEjectedMass() / TDE_STAR_MASS).toBeGreaterThan(0.35)
+    expect(peakFlare).toBeGreaterThan(0.3)
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { TweakPanel } from '../src/TweakPanel'
+import {
+  SimulationConfig,
+  SIMULATION_CONFIG_SCHEMA,
+  createDefaultConfig,
+  applyConfigOverrides,
+  getConfigValue,
+  isConfigPath,
+} from '../src/SimulationConfig'
+
+describe('TweakPanel', () => {
+  let container: HTMLElement
+  let config: SimulationConfig
+  let edits: Record<string, unknown>[]
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    config = createDefaultConfig()
+    edits = []
+    new TweakPanel(container, SIMULATION_CONFIG_SCHEMA, {
+      get: (path) => (isConfigPath(path) ? getConfigValue(config, path) : undefined),
+      set: (changes) => {
+        edits.push(changes)
+        config = applyConfigOverrides(config, changes).config
+      },
+    })
+  })
+
+  it('should build one folder per group and one row per field', () => {
+    const titles = Array.from(container.querySelectorAll('.tweak-folder summary')).map((summary) => summary.firstChild?.textContent)
+    expect(titles).toContain('--- BLACK HOLE ---')
+    expect(titles).toContain('--- GENERAL ---')
+    expect(container.querySelectorAll('.tweak-row')).toHaveLength(Object.keys(SIMULATION_CONFIG_SCHEMA).length)
+  })
+
+  it('should send live edits while dragging and restart edits on release', () => {
+    const rows = Array.from(container.querySelectorAll<HTMLElement>('.tweak-row'))
+    const slider = (label: string) => rows.find((row) => row.textContent?.startsWith(label))!.querySelector('input[type=range]') as HTMLInputElement
+
+    const bloom = slider('Bloom strength')
+    bloom.value = '2'
+    bloom.dispatchEvent(new Event('input'))
+    expect(edits).toEqual([{ 'view.bloomStrength': 2 }])
+
+    const jet = slider('Jet length')
+    jet.value = '400'
+    jet.dispatchEvent(new Event('input'))
+    expect(edits).toHaveLength(1)
+    jet.dispatchEvent(new Event('change'))
+    expect(edits[1]).toEqual({ 'blackHole.jetLength': 400 })
+  })
+
+  it('should reset a whole folder in one edit', () => {
+    config = applyConfigOverrides(config, { view: { bloomStrength: 3, lensingStrength: 2 } }).config
+    const folder = Array.from(container.querySelectorAll('.tweak-folder')).find((details) =>
+      details.querySelector('summary')?.textContent?.includes('VIEW')
+    )!
+    ;(folder.querySelector('.tweak-reset') as HTMLButtonElement).click()
+
+    expect(edits).toHaveLength(1)
+    expect(config.view).toEqual(createDefaultConfig().view)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TweenScheduler, Easing } from '../src/TweenScheduler'
+
+describe('TweenScheduler', () => {
+  it('should advance tweens only by the time it is stepped', () => {
+    const scheduler = new TweenScheduler()
+    const values: number[] = []
+    scheduler.add({ duration: 1.0, onUpdate: (value) => values.push(value) })
+
+    scheduler.update(0.25)
+    scheduler.update(0.25)
+
+    expect(values).toEqual([0.25, 0.5])
+    expect(scheduler.getActiveCount()).toBe(1)
+  })
+
+  it('should apply the easing curve and finish with onComplete', () => {
+    const scheduler = new TweenScheduler()
+    const onUpdate = vi.fn()
+    const onComplete = vi.fn()
+    scheduler.add({ duration: 1.0, easing: Easing.easeInQuad, onUpdate, onComplete })
+
+    scheduler.update(0.5)
+    expect(onUpdate).toHaveBeenLastCalledWith(0.25, 0.5)
+
+    scheduler.update(0.75) // Overshoot clamps to the end
+    expect(onUpdate).toHaveBeenLastCalledWith(1, 1.25)
+    expect(onComplete).toHaveBeenCalledOnce()
+    expect(scheduler.getActiveCount()).toBe(0)
+  })
+
+  it('should not run callbacks after cancellation', () => {
+    const scheduler = new TweenScheduler()
+    const onUpdate = vi.fn()
+    const onComplete = vi.fn()
+    const tween = scheduler.add({ duration: 1.0, onUpdate, onComplete })
+
+    tween.cancel()
+    scheduler.update(2.0)
+
+    expect(onUpdate).not.toHaveBeenCalled()
+    expect(onComplete).not.toHaveBeenCalled()
+    expect(tween.isActive()).toBe(false)
+  })
+
+  it('should cancel everything at once', () => {
+    const scheduler = new TweenScheduler()
+    const onComplete = vi.fn()
+    scheduler.add({ duration: 1.0, onUpdate: () => {}, onComplete })
+    scheduler.add({ duration: 2.0, onUpdate: () => {}, onComplete })
+
+    scheduler.cancelAll()
+    scheduler.update(5.0)
+
+    expect(onComplete).not.toHaveBeenCalled()
+    expect(scheduler.getActiveCount()).toBe(0)
+  })
+
+  it('should hold a delayed tween until its delay has passed', () => {
+    const scheduler = new TweenScheduler()
+    const onUpdate = vi.fn()
+    scheduler.add({ duration: 1.0, delay: 0.5, onUpdate })
+
+    scheduler.update(0.4)
+    expect(onUpdate).not.toHaveBeenCalled()
+
+    scheduler.update(0.6)
+    expect(onUpdate).toHaveBeenLastCalledWith(0.5, 0.5)
+  })
+
+  it('should start tweens added from a completion callback on the next step', () => {
+    const scheduler = new TweenScheduler()
+    const chained = vi.fn()
+    scheduler.add({
+      duration: 0.1,
+      onUpdate: () => {},
+      onComplete: () => scheduler.add({ duration: 1.0, onUpdate: chained }),
+    })
+
+    scheduler.update(0.1)
+    expect(chained).not.toHaveBeenCalled()
+    expect(scheduler.getActiveCount()).toBe(1)
+
+    scheduler.update(0.1)
+    expect(chained).toHaveBeenCalledOnce()
+  })
+})
@@ -1,9 +1,20 @@
 import { defineConfig } from 'vite'
 
+// Cross-origin isolation unlocks SharedArrayBuffer for the particle workers
+// (vercel.json sends the same headers in production)
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp'
+}
+
 export default defineConfig({
   server: {
     port: 3000,
-    open: true
+    open: true,
+    headers: crossOriginIsolationHeaders
+  },
+  preview: {
+    headers: crossOriginIsolationHeaders
   },
   build: {
     target: 'esnext',